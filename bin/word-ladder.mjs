@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// Node entry point of the headless CLI (src/cli.ts). Build it first with `npm run build:cli`.
+import { readFile, writeFile } from "node:fs/promises";
+import { runCli } from "../dist-cli/cli.js";
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  readFile: async (path) => new Blob([await readFile(path)]),
+  writeFile: (path, text) => writeFile(path, text),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+});
@@ -1,289 +1,503 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { examples, WordLadderExample } from "./examples";
+import { Severity } from "./diagnostics";
+import { componentGraph } from "./noSolution";
+import { AnswerCheck, checkMarks, CheckMarkKind, PathIssue } from "./answerCheck";
+import { AttachPreview, criticalParts } from "./graphEditing";
+import { GraphSnapshot } from "./exportFormats";
+import BenchmarkPanel from "./BenchmarkPanel";
+import ComparePanel from "./ComparePanel";
+import LessonPanel from "./LessonPanel";
+import LibraryPanel from "./LibraryPanel";
+import PuzzlePanel from "./PuzzlePanel";
+import TimelinePanel from "./TimelinePanel";
+import Graph, { markStroke, nodeMarkers } from "./Graph";
+import {
+  buildEdges,
+  buildWordGraphEdges,
+  collapseColumns,
+  computeLayout,
+  EdgeKind,
+  edgeStrokeFor,
+  forceLayout,
+  frameColumns,
+  layoutFromWordPositions,
+  moveLinks,
+  oneLetterLinks,
+} from "./layout";
+import { buildMoveGraph, CostModel, isLeetCodeMoves, isUniformCost, LEETCODE_MOVES, MoveSet } from "./moves";
+import { narrateStep } from "./narration";
+import {
+  Algorithm,
+  BFSFrame,
+  countShortestPaths,
+  DEFAULT_MAX_PATHS,
+  DFSFrame,
+  ExpansionStep,
+  Granularity,
+  parentsAt,
+  ProbeKind,
+  shortestPathNodes,
+  SolveProgress,
+  visitedAt,
+} from "./solver";
+import { useAnswerCheck } from "./useAnswerCheck";
+import { useExampleLibrary } from "./useExampleLibrary";
+import { GraphTool, useGraphEditing } from "./useGraphEditing";
+import { useGraphExport } from "./useGraphExport";
+import { useLesson } from "./useLesson";
+import { usePlayback } from "./usePlayback";
+import { useProblem } from "./useProblem";
+import { useShareLink } from "./useShareLink";
+import { useSolver } from "./useSolver";
+import { LevelDiff, USER_CODE_TIMEOUT_MS } from "./userCode";
+import { useUserCode } from "./useUserCode";
 
-// Tailwind is available. All npm libraries are available, but this file is self-contained.
+const algorithmLabels: Record<Algorithm, string> = {
+  bfs: "Layered BFS",
+  bidirectional: "Bidirectional BFS",
+  dijkstra: "Uniform-cost (Dijkstra)",
+};
+
+const moveLabels: Record<keyof MoveSet, string> = {
+  substitute: "Change a letter",
+  insertDelete: "Insert / delete a letter",
+  transpose: "Swap adjacent letters",
+  anagram: "Anagram",
+};
+
+const costKindLabels: Record<CostModel["kind"], string> = {
+  uniform: "Uniform (1 per move)",
+  letter: "Per letter",
+  position: "Per position",
+};
+
+const costPlaceholders: Record<CostModel["kind"], string> = {
+  uniform: "",
+  letter: "e.g. a=2, e=0.5 (others cost 1)",
+  position: "e.g. 3, 1, 1 (first letter first)",
+};
+
+const edgeLabels: Record<EdgeKind, string> = {
+  tree: "Parent (first)",
+  "extra-parent": "Extra shortest-path parent",
+  meet: "Frontiers meet",
+  "same-level": "Same level",
+  back: "Back to an earlier level",
+  unexplored: "Not explored yet",
+};
+
+type GraphLayoutMode = "layered" | "force";
+
+const graphToolLabels: Record<GraphTool, string> = {
+  pan: "Nothing (pan only)",
+  remove: "Remove it from the word list",
+  block: "Block it (keep it listed, skip it in the search)",
+};
+
+const describeAttach = (p: AttachPreview) =>
+  p.status === "in-list"
+    ? "already in the list"
+    : p.status === "unusable"
+      ? "can't be reached with the current moves"
+      : p.level === null
+        ? "touches no reachable word"
+        : `joins level ${p.level} next to ${p.neighbors.join(", ")}${p.shortens ? ", and shortens the ladder" : ""}`;
+
+const FORCE_LIMIT = 300; // words placed by the force-directed layout (it's quadratic per iteration)
+
+const progressLabels: Record<SolveProgress["phase"], string> = {
+  buckets: "Building pattern buckets",
+  bfs: "Running BFS",
+  backtrack: "Backtracking paths",
+  compare: "Counting expansions of the other algorithms",
+  explain: "Looking for words that would connect begin and end",
+};
+
+// Long lists (visited words, parents) are truncated in the detail panels
+const DETAIL_LIMIT = 500;
+const DIAGNOSTIC_WORDS = 20; // offending words listed per diagnostic
+
+// Caps on the shortest paths the solver enumerates; the count itself is always exact
+const PATH_CAP_OPTIONS = [100, DEFAULT_MAX_PATHS, 10_000, 100_000];
+const PATH_PAGE = 50; // paths listed in Results before "Show more"
+
+const granularityLabels: Record<Granularity, string> = {
+  level: "One step per level",
+  node: "One step per node expansion",
+  pattern: "One step per pattern lookup",
+};
+
+const probeLabels: Record<ProbeKind, string> = {
+  discovered: "new",
+  "extra-parent": "extra parent",
+  skipped: "visited, skipped",
+  meet: "meets other frontier",
+};
+
+const severityClass: Record<Severity, string> = {
+  error: "border-red-200 bg-red-50 text-red-800",
+  warning: "border-amber-200 bg-amber-50 text-amber-800",
+  info: "border-slate-200 bg-slate-50 text-slate-600",
+};
+
+const probeTextClass: Record<ProbeKind, string> = {
+  discovered: "text-blue-700",
+  "extra-parent": "text-indigo-700",
+  skipped: "text-slate-400 line-through",
+  meet: "text-amber-700",
+};
+
+// Sums of fractional costs are shown rounded (0.1 + 0.2 -> 0.3)
+const formatCost = (cost: number) => String(Math.round(cost * 1000) / 1000);
+
+const markLabels: Record<CheckMarkKind, string> = {
+  error: "Invalid step or word",
+  extra: "Step of a wrong path",
+  missing: "Step of a missing path",
+};
+
+function describeIssue(issue: PathIssue) {
+  switch (issue.kind) {
+    case "wrong-begin":
+      return `starts at "${issue.word}" instead of the begin word`;
+    case "wrong-end":
+      return `ends at "${issue.word}" instead of the end word`;
+    case "unknown-word":
+      return `"${issue.word}" (word ${issue.index + 1}) is not in the word list`;
+    case "invalid-step":
+      return `"${issue.from}" → "${issue.to}" is not a single move`;
+    case "not-shortest":
+      return `valid, but costs ${formatCost(issue.cost)} instead of ${formatCost(issue.shortest)}`;
+    case "duplicate":
+      return `same as path ${issue.of + 1}`;
+  }
+}
+
+// Only the enumerated paths can be listed, so a capped comparison gives a lower bound
+function describeMissing({ missingCount, compared }: AnswerCheck) {
+  const paths = `${missingCount.toLocaleString()} expected path${missingCount === 1 ? "" : "s"} missing`;
+  return compared === undefined ? paths : `at least ${paths}, only the first ${compared.toLocaleString()} were compared`;
+}
+
+const DIFF_ITEMS = 12; // words or links listed per level difference
+
+function describeLevelDiff(diff: LevelDiff) {
+  const list = (items: string[]) => items.slice(0, DIFF_ITEMS).join(", ") + (items.length > DIFF_ITEMS ? `, +${items.length - DIFF_ITEMS} more` : "");
+  const links = (pairs: Array<[string, string]>) => list(pairs.map(([child, parent]) => `${parent}→${child}`));
+  return [
+    diff.missingWords.length && `didn't discover ${list(diff.missingWords)}`,
+    diff.extraWords.length && `also discovered ${list(diff.extraWords)}`,
+    diff.missingParents.length && `missing parent links ${links(diff.missingParents)}`,
+    diff.extraParents.length && `extra parent links ${links(diff.extraParents)}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+// Size of a connected component given as BFS levels from its first word
+function describeComponent(levels: string[][]) {
+  const others = levels.flat().length - 1;
+  const depth = levels.length - 1;
+  if (!others) return "No other word is one letter away.";
+  return `${others.toLocaleString()} other word${others === 1 ? "" : "s"}, up to ${depth} step${depth === 1 ? "" : "s"} away`;
+}
+
+// Tailwind is available. The BFS engine lives in ./solver; this file only handles input, playback and layout.
 // Default export a React component so it can render in-canvas.
 export default function WordLadderVisualizer() {
-  // ----- Inputs -----
-  const [beginWord, setBeginWord] = useState("hit");
-  const [endWord, setEndWord] = useState("cog");
-  const [wordListText, setWordListText] = useState(
-    ["hot", "dot", "dog", "lot", "log", "cog"].join("\n")
-  );
+  // ----- Problem -----
+  // Begin/end words, word list or imported dictionary, blocked words and search options, restored from a shared link
+  const problem = useProblem();
+  const { beginWord, endWord, words, importedDict, searchAlgorithm, stepGranularity, moves, costs } = problem;
+
+  // Solved in a worker; the worker also counts the nodes each algorithm expands so the Results panel can compare them
+  const solver = useSolver(problem.solverInput);
+
+  // The learner's own findLadders, run in a sandbox; its trace can replace the solver's frames in playback
+  const userCode = useUserCode({ begin: beginWord, end: endWord, words });
+  const replaying = userCode.replaying;
+
+  // ----- Display options -----
+  const [collapseOffPath, setCollapseOffPath] = useState(false);
+  const [showFullGraph, setShowFullGraph] = useState(false);
+  const [graphLayout, setGraphLayout] = useState<GraphLayoutMode>("layered");
+  const [accessible, setAccessible] = useState(false);
+  const [showCritical, setShowCritical] = useState(false);
+  const [pathsShown, setPathsShown] = useState(PATH_PAGE);
+
+  const editing = useGraphEditing(problem);
+  const lesson = useLesson();
+  // The user's own examples (saved inputs, clones of built-ins, generated puzzles), kept in localStorage
+  const library = useExampleLibrary();
+  const exporter = useGraphExport(beginWord, endWord);
+
+  const playbackAlgorithm: Algorithm = replaying ? "bfs" : searchAlgorithm;
+  const playbackGranularity: Granularity = replaying ? "level" : stepGranularity;
+  const frames = replaying ? userCode.result!.trace.frames : solver.solution?.frames ?? [];
+  const backtrackFrames = replaying ? [] : solver.solution?.backtrackFrames ?? [];
+  const expansionSteps = replaying ? [] : solver.solution?.expansionSteps ?? [];
+  const expandedCounts = solver.expanded;
+
+  // ----- Playback -----
+  // Index into the combined timeline: BFS steps (levels or expansion steps) first, then the backtracking DFS steps.
+  // Rewinds when the problem or the replayed trace changes.
+  const bfsSteps = playbackGranularity === "level" ? frames.length : expansionSteps.length;
+  const totalSteps = bfsSteps + backtrackFrames.length;
+  const resetKey = `${problem.key}${replaying ? " replaying" : ""}`;
+  const playback = usePlayback(totalSteps, { initialStep: problem.shared.state?.step ?? 0, resetKey, ready: !solver.running && !!solver.solution });
+  const { step, setStep } = playback;
+  useEffect(() => setPathsShown(PATH_PAGE), [resetKey]);
+
+  const share = useShareLink(problem.shareState, step, problem.shared.error);
 
   // ----- Examples -----
+  // A new problem starts without the previous one's undo history
   const loadExample = (example: WordLadderExample) => {
-    setBeginWord(example.begin);
-    setEndWord(example.end);
-    setWordListText(example.words.join("\n"));
-    setIsPlaying(false);
-    setStep(0);
+    problem.load(example);
+    editing.clearHistory();
+    playback.reset();
   };
+  // Lessons stay with the built-ins: a copy's words can be edited out from under them
+  const cloneExample = ({ name, begin, end, words, description }: WordLadderExample) =>
+    library.add({ name: `${name} (copy)`, begin, end, words: [...words], description, tags: ["built-in copy"] });
 
-  // ----- Controls -----
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [speedMs, setSpeedMs] = useState(750); // ms per step
-  const timerRef = useRef<number | null>(null);
-
-  // ----- Algorithm State -----
-  type Parents = Record<string, Set<string>>; // child -> set(parents)
-
-  const words = useMemo(() => {
-    const set = new Set(
-      wordListText
-        .split(/\r?\n|,|\s+/)
-        .map((w) => w.trim().toLowerCase())
-        .filter(Boolean)
-    );
-    // Ensure endWord presence per LeetCode spec
-    if (!set.has(endWord.toLowerCase())) set.add(endWord.toLowerCase());
-    // Ensure beginWord not necessarily in set; it's the source
-    return Array.from(set);
-  }, [wordListText, endWord]);
-
-  const wordLen = useMemo(() => beginWord.length, [beginWord]);
-
-  // Build buckets for O(26*L*words) neighbor finding
-  const patternBuckets = useMemo(() => {
-    const buckets: Record<string, string[]> = {};
-    for (const w of words) {
-      if (w.length !== wordLen) continue;
-      for (let i = 0; i < wordLen; i++) {
-        const key = w.slice(0, i) + "*" + w.slice(i + 1);
-        (buckets[key] ||= []).push(w);
-      }
-    }
-    // Also include beginWord in buckets so neighbors from source can be found even if not in dictionary
-    if (beginWord.length === wordLen) {
-      const bw = beginWord.toLowerCase();
-      for (let i = 0; i < wordLen; i++) {
-        const key = bw.slice(0, i) + "*" + bw.slice(i + 1);
-        (buckets[key] ||= []).push(bw);
-      }
-    }
-    return buckets;
-  }, [words, wordLen, beginWord]);
-
-  const getNeighbors = (w: string): string[] => {
-    const res: Set<string> = new Set();
-    for (let i = 0; i < wordLen; i++) {
-      const key = w.slice(0, i) + "*" + w.slice(i + 1);
-      const arr = patternBuckets[key] || [];
-      for (const v of arr) if (v !== w && v.length === w.length) res.add(v);
-    }
-    return Array.from(res);
+  const importDictionary = async (file: File) => {
+    if (!(await problem.importDictionary(file))) return;
+    editing.clearHistory();
+    // Dictionary-sized levels are only readable with the off-path words folded away
+    setCollapseOffPath(true);
   };
 
-  // Precompute BFS levels step-by-step for visualization
-  type BFSFrame = {
-    level: number;
-    frontier: string[]; // nodes being expanded at this level
-    nextFrontier: string[]; // nodes discovered for the next level (after expansion)
-    visitedSnapshot: string[]; // visited set at end of the level
-    parentsSnapshot: Parents; // partial parents up to this level
-    found: boolean; // did we find endWord on this level?
+  // ----- Lessons -----
+  // Lessons pause plain BFS playback one level at a time, so starting one also resets those options
+  const startLesson = (example: WordLadderExample) => {
+    loadExample(example);
+    problem.setAlgorithm("bfs");
+    problem.setGranularity("level");
+    problem.setMoves(LEETCODE_MOVES);
+    problem.setCostKind("uniform");
+    userCode.setReplay(false);
+    lesson.start(example);
   };
 
-  const frames = useMemo(() => {
-    const src = beginWord.toLowerCase();
-    const tgt = endWord.toLowerCase();
-    if (src.length !== tgt.length) return [] as BFSFrame[];
-
-    const visited = new Set<string>();
-    const parents: Parents = {};
-    let frontier = [src];
-    let level = 0;
-    let found = false;
-
-    const out: BFSFrame[] = [];
-    visited.add(src);
-
-    while (frontier.length && !found) {
-      const next = new Set<string>();
-      for (const node of frontier) {
-        for (const nei of getNeighbors(node)) {
-          if (!visited.has(nei)) {
-            // First time seeing nei in this level
-            if (!parents[nei]) parents[nei] = new Set();
-            parents[nei].add(node);
-            next.add(nei);
-          }
-          // Note: We intentionally skip same-level connections to avoid cycles in the parent graph
-        }
-      }
+  // A lesson only applies while the inputs and playback mode are the ones it was written for
+  const lessonInSync =
+    !!lesson.example &&
+    !replaying &&
+    playbackAlgorithm === "bfs" &&
+    playbackGranularity === "level" &&
+    !importedDict &&
+    !problem.blocked.length &&
+    isLeetCodeMoves(moves) &&
+    beginWord === lesson.example.begin &&
+    endWord === lesson.example.end &&
+    problem.wordListText === lesson.example.words.join("\n");
 
-      // Convert next to array and mark visited AFTER processing entire level (classic layered BFS)
-      const nextArr = Array.from(next);
-      for (const n of nextArr) visited.add(n);
-
-      const frame: BFSFrame = {
-        level,
-        frontier: [...frontier],
-        nextFrontier: nextArr,
-        visitedSnapshot: Array.from(visited),
-        parentsSnapshot: Object.fromEntries(
-          Object.entries(parents).map(([k, v]) => [k, new Set(Array.from(v))])
-        ),
-        found: nextArr.includes(tgt),
-      };
-      out.push(frame);
-
-      if (nextArr.includes(tgt)) {
-        found = true;
-        break;
-      }
+  // Pause on the current question's step, again once the lesson's solution is in
+  useEffect(() => {
+    if (!lesson.current || !lessonInSync || solver.running) return;
+    playback.pause();
+    setStep(lesson.current.step);
+  }, [lesson.current, lessonInSync, solver.running, solver.solution]);
+  const lessonPicking = lessonInSync && lesson.picking;
 
-      frontier = nextArr;
-      level++;
-    }
+  const weighted = playbackAlgorithm === "dijkstra";
 
-    return out;
-  }, [beginWord, endWord, patternBuckets]);
-
-  // Reconstruct all shortest paths once found
-  const finalParents = useMemo(() => {
-    if (!frames.length) return {} as Parents;
-    return frames[frames.length - 1].parentsSnapshot;
-  }, [frames]);
-
-  const allPaths = useMemo(() => {
-    // Backtrack from endWord to beginWord using parents
-    const src = beginWord.toLowerCase();
-    const tgt = endWord.toLowerCase();
-    const res: string[][] = [];
-    if (!finalParents[tgt]) return res;
-
-    const path: string[] = [tgt];
-    const visiting = new Set<string>(); // Track nodes in current path to prevent cycles
-    
-    const dfs = (w: string) => {
-      if (w === src) {
-        res.push([...path].reverse());
-        return;
-      }
-      const ps = finalParents[w];
-      if (!ps) return;
-      for (const p of ps) {
-        // Prevent cycles by checking if parent is already in current path
-        if (visiting.has(p)) continue;
-        
-        path.push(p);
-        visiting.add(p);
-        dfs(p);
-        visiting.delete(p);
-        path.pop();
-      }
-    };
-    
-    visiting.add(tgt);
-    dfs(tgt);
-    // Sort results for deterministic display
-    res.sort((a, b) => a.join("->").localeCompare(b.join("->")));
-    return res;
-  }, [finalParents, beginWord, endWord]);
+  // During the backtracking phase the graph stays on the last BFS level
+  const bfsStep = Math.min(step, bfsSteps - 1);
+  const currentExpansion = playbackGranularity === "level" ? undefined : (expansionSteps[bfsStep] as ExpansionStep | undefined);
+  const frameIndex = currentExpansion ? currentExpansion.frameIndex : bfsStep;
+  const current = frames[frameIndex] as BFSFrame | undefined;
+  const dfsStep = step - bfsSteps;
+  const currentDfs = backtrackFrames[dfsStep] as DFSFrame | undefined;
 
-  // ----- Playback state -----
-  const [step, setStep] = useState(0); // index into frames (shows after expanding that level)
+  // What this step does, in words, for screen readers (and on screen in accessible mode)
+  const narration = useMemo(
+    () =>
+      narrateStep({
+        frame: current,
+        expansion: currentDfs ? undefined : currentExpansion,
+        dfs: currentDfs && { frame: currentDfs, index: dfsStep, total: backtrackFrames.length },
+        end: endWord,
+      }),
+    [current, currentDfs, currentExpansion, dfsStep, backtrackFrames.length, endWord]
+  );
 
-  useEffect(() => {
-    // reset when inputs change
-    setStep(0);
-    setIsPlaying(false);
-  }, [beginWord, endWord, wordListText]);
+  // Expansion steps of the current level up to and including this one
+  const levelExpansions = useMemo(() => {
+    if (!currentExpansion) return [];
+    let first = bfsStep;
+    while (first > 0 && expansionSteps[first - 1].frameIndex === currentExpansion.frameIndex) first--;
+    return expansionSteps.slice(first, bfsStep + 1);
+  }, [expansionSteps, currentExpansion, bfsStep]);
 
-  useEffect(() => {
-    if (!isPlaying) {
-      if (timerRef.current) {
-        window.clearTimeout(timerRef.current);
-        timerRef.current = null;
+  // Words discovered so far on a level that is still being expanded (fine-grained modes only)
+  const partialNext = useMemo(
+    () => levelExpansions.flatMap((s) => s.probes.filter((p) => p.kind === "discovered").map((p) => p.word)),
+    [levelExpansions]
+  );
+
+  // Parent links visible at this step: the whole level in level mode, or the previous level
+  // plus the links made by the expansion steps taken so far
+  const visibleParents = useMemo(() => {
+    if (!currentExpansion || !current) return parentsAt(frames, frameIndex);
+    const ps = parentsAt(frames, frameIndex - 1);
+    for (const s of levelExpansions) {
+      for (const p of s.probes) {
+        if (p.kind === "skipped") continue;
+        if (current.direction === "forward") (ps[p.word] ||= new Set()).add(s.node);
+        else (ps[s.node] ||= new Set()).add(p.word);
       }
-      return;
     }
-    if (step >= frames.length - 1) {
-      setIsPlaying(false);
-      return;
-    }
-    timerRef.current = window.setTimeout(() => setStep((s) => Math.min(s + 1, frames.length - 1)), speedMs) as unknown as number;
-    return () => {
-      if (timerRef.current) window.clearTimeout(timerRef.current);
-    };
-  }, [isPlaying, step, speedMs, frames.length]);
+    return ps;
+  }, [frames, frameIndex, current, currentExpansion, levelExpansions]);
+
+  const visibleMeeting = useMemo(() => {
+    if (!currentExpansion) return current?.meeting ?? [];
+    return Array.from(new Set(levelExpansions.flatMap((s) => s.probes.filter((p) => p.kind === "meet").flatMap((p) => [s.node, p.word]))));
+  }, [current, currentExpansion, levelExpansions]);
 
-  const current = frames[step] as BFSFrame | undefined;
+  const visitedNow = useMemo(
+    () => Array.from(visitedAt(frames, currentExpansion ? frameIndex - 1 : frameIndex)),
+    [frames, frameIndex, currentExpansion]
+  );
 
   // ----- Layout helpers for the graph (levels as columns) -----
-  const columns = useMemo(() => {
-    // Build columns 0..step+1 from frames
-    const cols: string[][] = [];
-    if (!frames.length) return cols;
-    // Column 0: beginWord
-    cols.push([beginWord.toLowerCase()]);
-    for (let i = 0; i <= step; i++) {
-      const f = frames[i];
-      const next = f.nextFrontier.filter((w) => w.length === beginWord.length);
-      if (next.length) cols.push(next);
-    }
-    return cols;
-  }, [frames, step, beginWord]);
-
-  const positions = useMemo(() => {
-    // Compute x/y positions for each node for SVG
-    const spacingX = 200;
-    const spacingY = 56;
-    const startX = 120;
-    const startY = 100; // Increased from 40 to provide more top padding
-    const pos: Record<string, { x: number; y: number }> = {};
-    columns.forEach((col, ci) => {
-      const height = (col.length - 1) * spacingY;
-      const baseY = startY - height / 2;
-      col.forEach((w, ri) => {
-        pos[`${w}@${ci}`] = { x: startX + ci * spacingX, y: baseY + ri * spacingY };
-      });
-    });
-    return { pos };
-  }, [columns]);
-
-  // Build edge list from parents within visible columns
-  const edges = useMemo(() => {
-    const list: Array<{ from: { key: string; x: number; y: number }; to: { key: string; x: number; y: number } }> = [];
-    if (!columns.length) return list;
-
-    // Map word -> column indices it appears in
-    const wordCols: Record<string, number[]> = {};
-    columns.forEach((col, ci) => {
-      for (const w of col) (wordCols[w] ||= []).push(ci);
-    });
-
-    // Use parents up to current step
-    const ps = current?.parentsSnapshot || {};
-    for (const [child, parentsSet] of Object.entries(ps)) {
-      const childCols = wordCols[child];
-      if (!childCols) continue;
-      // Child likely appears in some column; draw from any parent in previous columns
-      for (const ci of childCols) {
-        for (const parent of parentsSet) {
-          const pi = (wordCols[parent] || []).filter((x) => x < ci).pop();
-          if (pi === undefined) continue;
-          const fromKey = `${parent}@${pi}`;
-          const toKey = `${child}@${ci}`;
-          const from = positions.pos[fromKey];
-          const to = positions.pos[toKey];
-          if (!from || !to) continue;
-          list.push({ from: { key: fromKey, ...from }, to: { key: toKey, ...to } });
-        }
-      }
+  // A level still being expanded shows what it has discovered so far
+  const { columns, forwardColumns, distances } = useMemo(
+    () =>
+      frameColumns(frames, frameIndex, {
+        begin: beginWord,
+        end: endWord,
+        algorithm: playbackAlgorithm,
+        partial: currentExpansion ? partialNext : undefined,
+        keep: moves.insertDelete ? undefined : (w) => w.length === beginWord.length,
+      }),
+    [frames, frameIndex, currentExpansion, partialNext, beginWord, endWord, playbackAlgorithm, moves]
+  );
+
+  // Full word graph: every dictionary word of the right length, undiscovered ones in an extra last column.
+  // The force-directed layout always shows the raw graph.
+  const fullGraph = showFullGraph || graphLayout === "force" || lessonPicking;
+  const onLadderLength = (w: string) => moves.insertDelete || w.length === beginWord.length;
+  const graphColumns = useMemo(() => {
+    if (!fullGraph) return { columns, unreachedColumn: -1, distances };
+    const seen = new Set(columns.flat());
+    const unreached = words.filter((w) => onLadderLength(w) && !seen.has(w) && w !== beginWord.toLowerCase());
+    return {
+      columns: [...columns, unreached],
+      unreachedColumn: columns.length,
+      distances: distances && [...distances, (distances[distances.length - 1] ?? 0) + 1],
+    };
+  }, [fullGraph, columns, distances, words, beginWord, moves]);
+
+  // One-move links for the full word graph; other move sets need their own neighbor index
+  const linkWords = useMemo(() => {
+    if (!fullGraph || isLeetCodeMoves(moves)) return oneLetterLinks;
+    const graph = buildMoveGraph(beginWord.toLowerCase(), words, moves, costs);
+    return (list: Iterable<string>) => moveLinks(graph, list);
+  }, [fullGraph, beginWord, words, moves, costs]);
+
+  // Words on any shortest path (from the finished search), used to keep the solution readable when collapsing
+  const pathNodes = useMemo(
+    () => (solver.solution ? shortestPathNodes(solver.solution.finalParents, beginWord, endWord) : new Set<string>()),
+    [solver.solution, beginWord, endWord]
+  );
+
+  // Shortest paths through each word, by DP over the parent DAG; shown when hovering a node
+  const pathsThrough = useMemo(
+    () => (solver.solution ? countShortestPaths(solver.solution.finalParents, beginWord, endWord).through : undefined),
+    [solver.solution, beginWord, endWord]
+  );
+  const pathCount = solver.solution?.pathCount ?? 0;
+  const pathsCapped = !replaying && !!solver.solution && pathCount > solver.solution.allPaths.length;
+
+  // Words and links every shortest path needs, marked on the graph on request
+  const critical = useMemo(() => {
+    if (!showCritical || !solver.solution || replaying) return undefined;
+    const { words, edges } = criticalParts(solver.solution.finalParents, beginWord, endWord);
+    return { words: new Set(words), edges };
+  }, [showCritical, solver.solution, replaying, beginWord, endWord]);
+
+  // Optionally fold words that aren't on any shortest path into a "+N more" badge per column.
+  // Words the current step is highlighting stay visible.
+  const displayed = useMemo(() => {
+    if (!collapseOffPath) return { columns: graphColumns.columns, hidden: [] as number[] };
+    const keep = new Set(pathNodes);
+    for (const w of [beginWord.toLowerCase(), endWord.toLowerCase(), ...visibleMeeting, ...(currentDfs?.path ?? [])]) keep.add(w);
+    if (currentExpansion && !currentDfs) {
+      keep.add(currentExpansion.node);
+      for (const p of currentExpansion.probes) keep.add(p.word);
     }
+    return collapseColumns(graphColumns.columns, keep);
+  }, [collapseOffPath, graphColumns, pathNodes, beginWord, endWord, visibleMeeting, currentDfs, currentExpansion]);
+
+  // Force-directed positions depend only on the dictionary, so nodes stay put while playing.
+  // Large dictionaries are cut down to the begin/end words, shortest-path words, then the rest in order.
+  const forcePositions = useMemo(() => {
+    if (graphLayout !== "force") return null;
+    const candidates = Array.from(new Set([beginWord.toLowerCase(), ...words])).filter(onLadderLength);
+    const priority = new Set([beginWord.toLowerCase(), endWord.toLowerCase(), ...pathNodes]);
+    const placed =
+      candidates.length <= FORCE_LIMIT
+        ? candidates
+        : [...candidates.filter((w) => priority.has(w)), ...candidates.filter((w) => !priority.has(w))].slice(0, FORCE_LIMIT);
+    return { ...forceLayout(placed, linkWords(placed)), total: candidates.length };
+  }, [graphLayout, words, beginWord, endWord, pathNodes, linkWords, moves]);
 
-    return list;
-  }, [columns, positions, current]);
+  const layout = useMemo(
+    () => (forcePositions ? layoutFromWordPositions(displayed.columns, forcePositions.pos, forcePositions) : computeLayout(displayed.columns, displayed.hidden, graphColumns.distances)),
+    [displayed, forcePositions, graphColumns]
+  );
+
+  // Build edge list from the parents up to the current step, within the displayed columns.
+  // The full word graph adds every other one-letter edge, classified against the current BFS state.
+  const edges = useMemo(
+    () =>
+      fullGraph
+        ? buildWordGraphEdges(displayed.columns, visibleParents, layout.pos, forwardColumns, graphColumns.unreachedColumn, linkWords)
+        : buildEdges(displayed.columns, visibleParents, layout.pos, forwardColumns),
+    [fullGraph, displayed, visibleParents, layout, forwardColumns, graphColumns, linkWords]
+  );
+
+  // Unreachable target: both components side by side, joined by the suggested bridge words
+  const noSolution = solver.running ? null : solver.noSolution;
+  const componentView = useMemo(() => {
+    if (!noSolution) return null;
+    const graph = componentGraph(noSolution);
+    const layout = computeLayout(graph.columns, graph.hidden);
+    return { ...graph, layout, edges: buildEdges(graph.columns, graph.parents, layout.pos, graph.forwardColumns) };
+  }, [noSolution]);
+
+  // Paths appear in the order the backtracking DFS completes them
+  const visiblePaths = useMemo(
+    () => backtrackFrames.slice(0, dfsStep + 1).flatMap((f) => (f.completed ? [f.completed] : [])),
+    [backtrackFrames, dfsStep]
+  );
+
+  // ----- Answer checker -----
+  // Only a solution of the current inputs is checked against
+  const answer = useAnswerCheck(problem, solver.stale ? null : solver.solution);
 
-  // Highlight shortest paths when BFS found target
-  const solved = frames.length > 0 && frames[frames.length - 1].found;
-  const visiblePaths = solved ? allPaths : [];
+  // A replayed trace shows the marks for the paths that code returned
+  const marks = useMemo(() => {
+    if (replaying) return userCode.result!.check ? checkMarks(userCode.result!.check) : undefined;
+    return answer.check ? checkMarks(answer.check, answer.selected ?? undefined) : undefined;
+  }, [replaying, userCode.result, answer.check, answer.selected]);
 
-  const reset = () => {
-    setIsPlaying(false);
-    setStep(0);
+  // What the main canvas shows at this step; also what the SVG/PNG export draws
+  const canvas: GraphSnapshot = {
+    columns: displayed.columns,
+    edges,
+    layout,
+    forwardColumns,
+    beginWord: beginWord.toLowerCase(),
+    endWord: endWord.toLowerCase(),
+    solvedWords: new Set(visiblePaths.flat()),
+    meetingWords: new Set(visibleMeeting),
+    activePath: currentDfs?.path ?? [],
+    unreachedColumn: graphColumns.unreachedColumn,
   };
 
   // ----- Render -----
@@ -295,40 +509,85 @@ export default function WordLadderVisualizer() {
           <p className="text-sm text-slate-600 mt-1">Visualize layered BFS and backtracking to enumerate all shortest transformation sequences.</p>
         </header>
 
+        {share.notice && (
+          <div className="mb-4 flex items-start justify-between gap-3 rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <span>{share.notice}</span>
+            <button className="text-amber-700 hover:text-amber-900" onClick={share.dismissNotice}>
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Examples Section */}
         <section className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-2xl shadow p-4 md:p-6 mb-6 border border-blue-100">
           <h2 className="font-semibold text-lg mb-3 text-slate-800">📚 Try These Examples</h2>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
             {examples.map((example, idx) => (
-              <button
-                key={idx}
-                onClick={() => loadExample(example)}
-                className="bg-white hover:bg-blue-50 border border-slate-200 hover:border-blue-300 rounded-xl p-3 text-left transition-all hover:shadow-md group"
-              >
-                <div className="font-semibold text-sm text-slate-800 mb-1 group-hover:text-blue-600">
-                  {example.name}
-                </div>
-                <div className="text-xs text-slate-500 line-clamp-2">
-                  {example.description}
-                </div>
-                <div className="text-xs text-slate-400 mt-2 font-mono">
-                  {example.words.length} words
-                </div>
-              </button>
+              <div key={idx} className="relative">
+                <button
+                  onClick={() => loadExample(example)}
+                  className="w-full h-full bg-white hover:bg-blue-50 border border-slate-200 hover:border-blue-300 rounded-xl p-3 text-left transition-all hover:shadow-md group"
+                >
+                  <div className="font-semibold text-sm text-slate-800 mb-1 pr-12 group-hover:text-blue-600">
+                    {example.name}
+                  </div>
+                  <div className="text-xs text-slate-500 line-clamp-2">
+                    {example.description}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-2 font-mono">
+                    {example.words.length} words
+                  </div>
+                </button>
+                {/* Built-ins are read-only; a clone in My Examples can be edited */}
+                <button
+                  className="absolute top-2 right-2 text-[11px] px-1.5 py-0.5 rounded border bg-white text-slate-500 hover:bg-slate-100"
+                  onClick={() => cloneExample(example)}
+                  title="Copy into My Examples to edit it"
+                >
+                  Clone
+                </button>
+                {example.lesson && (
+                  <button
+                    className="absolute bottom-2 right-2 text-[11px] px-1.5 py-0.5 rounded border border-emerald-300 bg-emerald-50 text-emerald-700 hover:bg-emerald-100"
+                    onClick={() => startLesson(example)}
+                    title={`${example.lesson.questions.length} questions asked while this example plays back`}
+                  >
+                    🎓 Lesson
+                  </button>
+                )}
+              </div>
             ))}
           </div>
+          {/* Saves the words the solver uses, so blocked words stay out of the saved example */}
+          <LibraryPanel
+            library={library}
+            current={{ begin: beginWord, end: endWord, words }}
+            onLoad={loadExample}
+          />
+          <PuzzlePanel onLoad={loadExample} onSave={(example) => library.add({ ...example, tags: ["generated"] })} />
         </section>
 
         {/* Controls */}
         <section className="grid md:grid-cols-3 gap-4 mb-6">
           <div className="bg-white rounded-2xl shadow p-4 space-y-3 border">
-            <h2 className="font-semibold">Problem Setup</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold">Problem Setup</h2>
+              {!share.available && <span className="text-xs text-slate-500 ml-auto mr-2">Not in the URL: imported dictionary</span>}
+              <button
+                className="text-xs px-2 py-1 rounded-lg border hover:bg-slate-100 disabled:opacity-50"
+                onClick={share.copy}
+                disabled={!share.available}
+                title={importedDict ? "Share links can't include imported dictionaries" : undefined}
+              >
+                {share.copied ? "Link copied" : "Copy link"}
+              </button>
+            </div>
             <div className="flex gap-2">
               <label className="text-sm w-28 pt-2">Begin word</label>
               <input
                 className="flex-1 border rounded-xl px-3 py-2"
                 value={beginWord}
-                onChange={(e) => setBeginWord(e.target.value.trim().toLowerCase())}
+                onChange={(e) => problem.setBeginWord(e.target.value.trim().toLowerCase())}
               />
             </div>
             <div className="flex gap-2">
@@ -336,72 +595,296 @@ export default function WordLadderVisualizer() {
               <input
                 className="flex-1 border rounded-xl px-3 py-2"
                 value={endWord}
-                onChange={(e) => setEndWord(e.target.value.trim().toLowerCase())}
+                onChange={(e) => problem.setEndWord(e.target.value.trim().toLowerCase())}
               />
             </div>
             <div>
-              <label className="text-sm block mb-1">Word list (comma/space/newline separated)</label>
-              <textarea
-                rows={6}
-                className="w-full border rounded-xl px-3 py-2 font-mono text-xs"
-                value={wordListText}
-                onChange={(e) => setWordListText(e.target.value)}
-              />
-              <p className="text-xs text-slate-500 mt-1">Note: End word is auto-added if missing; words of different length are ignored.</p>
+              {importedDict ? (
+                <div className="border rounded-xl px-3 py-2 text-sm bg-slate-50 flex items-center justify-between gap-2">
+                  <span>
+                    Imported <span className="font-mono">{importedDict.name}</span> ({importedDict.words.length.toLocaleString()} words)
+                  </span>
+                  <button className="text-xs px-2 py-1 rounded-lg border hover:bg-slate-100" onClick={() => problem.setImportedDict(null)}>
+                    Use text list
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <label className="text-sm block mb-1">Word list (comma/space/newline separated)</label>
+                  <textarea
+                    rows={6}
+                    className="w-full border rounded-xl px-3 py-2 font-mono text-xs"
+                    value={problem.wordListText}
+                    onChange={(e) => problem.setWordListText(e.target.value)}
+                  />
+                </>
+              )}
+              <label className="mt-2 inline-block text-xs px-2 py-1 rounded-lg border hover:bg-slate-100 cursor-pointer">
+                {problem.importing ? "Reading…" : "Import dictionary file (.txt or .gz)"}
+                <input
+                  type="file"
+                  accept=".txt,.gz,text/plain,application/gzip"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importDictionary(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              {problem.importError && <p className="text-xs text-red-600 mt-1">Import failed: {problem.importError}</p>}
+              <label className="mt-2 flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={problem.strictLeetCode} onChange={(e) => problem.setStrictLeetCode(e.target.checked)} />
+                Strict LeetCode (don't auto-add a missing end word)
+              </label>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium mb-1">Diagnostics</h3>
+              {problem.diagnostics.length ? (
+                <ul className="space-y-1 text-xs">
+                  {problem.diagnostics.map((d) => (
+                    <li key={d.code} className={`rounded-lg border px-2 py-1 ${severityClass[d.severity]}`}>
+                      <span className="font-semibold uppercase mr-1">{d.severity}</span>
+                      {d.message}
+                      {d.words && (
+                        <div className="font-mono mt-0.5 break-words">
+                          {d.words.slice(0, DIAGNOSTIC_WORDS).join(", ")}
+                          {d.words.length > DIAGNOSTIC_WORDS && ` … +${(d.words.length - DIAGNOSTIC_WORDS).toLocaleString()} more`}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-emerald-700">No problems found.</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <label className="text-sm w-28 pt-2">Algorithm</label>
+              <select
+                className="flex-1 border rounded-xl px-3 py-2 bg-white"
+                value={searchAlgorithm}
+                onChange={(e) => problem.setAlgorithm(e.target.value as Algorithm)}
+              >
+                {(Object.keys(algorithmLabels) as Algorithm[]).map((a) => (
+                  <option key={a} value={a} disabled={a !== "dijkstra" && !isUniformCost(costs)}>
+                    {algorithmLabels[a]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <span className="text-sm w-28">Moves</span>
+              <div className="flex-1 grid grid-cols-2 gap-1 text-sm">
+                {(Object.keys(moveLabels) as Array<keyof MoveSet>).map((k) => (
+                  <label key={k} className="flex items-center gap-2">
+                    <input type="checkbox" checked={moves[k]} onChange={(e) => problem.setMoves({ ...moves, [k]: e.target.checked })} />
+                    {moveLabels[k]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <label className="text-sm w-28 pt-2">Move costs</label>
+              <div className="flex-1 space-y-1">
+                <select
+                  className="w-full border rounded-xl px-3 py-2 bg-white"
+                  value={problem.costKind}
+                  onChange={(e) => problem.setCostKind(e.target.value as CostModel["kind"])}
+                >
+                  {(Object.keys(costKindLabels) as Array<CostModel["kind"]>).map((k) => (
+                    <option key={k} value={k}>
+                      {costKindLabels[k]}
+                    </option>
+                  ))}
+                </select>
+                {problem.costKind !== "uniform" && (
+                  <input
+                    className="w-full border rounded-xl px-3 py-2 font-mono text-xs"
+                    value={problem.costText}
+                    placeholder={costPlaceholders[problem.costKind]}
+                    onChange={(e) => problem.setCostText(e.target.value)}
+                  />
+                )}
+                {problem.costError && <p className="text-xs text-red-600">Costs ignored: {problem.costError}</p>}
+                {searchAlgorithm === "dijkstra" && problem.algorithm !== "dijkstra" && (
+                  <p className="text-xs text-slate-500">Weighted moves need uniform-cost search, so it is used instead of BFS.</p>
+                )}
+              </div>
             </div>
           </div>
 
           <div className="bg-white rounded-2xl shadow p-4 space-y-4 border">
             <h2 className="font-semibold">Playback</h2>
+            {(solver.running || solver.analyzing) && (
+              <div className="text-xs text-slate-600 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>
+                    {solver.progress ? progressLabels[solver.progress.phase] : "Solving"}…
+                    {solver.progress && !solver.progress.total && ` ${solver.progress.done.toLocaleString()} so far`}
+                  </span>
+                  <button className="px-2 py-0.5 rounded-lg border hover:bg-slate-100" onClick={solver.cancel}>
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-1.5 rounded bg-slate-100 overflow-hidden">
+                  <div
+                    className={["h-1.5 rounded bg-sky-400", solver.progress?.total ? "" : "animate-pulse w-full"].join(" ")}
+                    style={solver.progress?.total ? { width: `${(solver.progress.done / solver.progress.total) * 100}%` } : undefined}
+                  />
+                </div>
+              </div>
+            )}
+            {solver.cancelled && (
+              <p className="text-xs text-amber-700">
+                Solving was cancelled{solver.solution ? "; the greyed-out graph is the previous solution" : ""}. Edit the inputs to run it again.
+              </p>
+            )}
+            {solver.error && <p className="text-xs text-red-600">Solver failed: {solver.error}</p>}
             <div className="flex flex-wrap items-center gap-2">
               <button
                 className="px-3 py-2 rounded-xl bg-slate-900 text-white hover:bg-slate-800"
-                onClick={() => setIsPlaying((p) => !p)}
+                onClick={playback.togglePlaying}
                 disabled={!frames.length}
               >
-                {isPlaying ? "Pause" : "Play"}
+                {playback.isPlaying ? "Pause" : "Play"}
               </button>
               <button
                 className="px-3 py-2 rounded-xl border hover:bg-slate-100"
-                onClick={() => setStep((s) => Math.max(0, s - 1))}
+                onClick={playback.back}
                 disabled={!frames.length || step === 0}
               >
                 Step ◀
               </button>
               <button
                 className="px-3 py-2 rounded-xl border hover:bg-slate-100"
-                onClick={() => setStep((s) => Math.min(frames.length - 1, s + 1))}
-                disabled={!frames.length || step >= frames.length - 1}
+                onClick={playback.forward}
+                disabled={!frames.length || step >= totalSteps - 1}
               >
                 Step ▶
               </button>
-              <button className="px-3 py-2 rounded-xl border hover:bg-slate-100" onClick={reset} disabled={!frames.length}>
+              <button className="px-3 py-2 rounded-xl border hover:bg-slate-100" onClick={playback.reset} disabled={!frames.length}>
                 Reset
               </button>
             </div>
             <div>
-              <label className="text-sm">Speed: {speedMs} ms/step</label>
+              <label className="text-sm">Speed: {playback.speedMs} ms/step</label>
               <input
                 type="range"
                 min={200}
                 max={2000}
                 step={50}
-                value={speedMs}
-                onChange={(e) => setSpeedMs(parseInt(e.target.value))}
+                value={playback.speedMs}
+                onChange={(e) => playback.setSpeedMs(parseInt(e.target.value))}
                 className="w-full"
               />
             </div>
+            <div>
+              <label className="text-sm block mb-1">Granularity</label>
+              <select
+                className="w-full border rounded-xl px-3 py-2 bg-white text-sm disabled:opacity-50"
+                value={stepGranularity}
+                disabled={searchAlgorithm === "dijkstra"}
+                title={searchAlgorithm === "dijkstra" ? "Uniform-cost search steps one distance at a time" : undefined}
+                onChange={(e) => problem.setGranularity(e.target.value as Granularity)}
+              >
+                {(Object.keys(granularityLabels) as Granularity[]).map((g) => (
+                  <option key={g} value={g}>
+                    {granularityLabels[g]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm block mb-1">Paths to enumerate</label>
+              <select
+                className="w-full border rounded-xl px-3 py-2 bg-white text-sm"
+                value={problem.maxPaths}
+                onChange={(e) => problem.setMaxPaths(parseInt(e.target.value))}
+                title="Backtracking stops after this many shortest paths; they are still all counted"
+              >
+                {PATH_CAP_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    Up to {n.toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="text-sm text-slate-600">
               {frames.length ? (
                 <>
-                  <div>Levels built: <span className="font-semibold">{frames.length}</span></div>
-                  <div>Current level: <span className="font-semibold">{current?.level ?? 0}</span></div>
                   <div>
-                    Frontier this level: <span className="font-mono">[{current?.frontier.join(", ")}]</span>
+                    {weighted ? "Distances settled" : "Levels built"}: <span className="font-semibold">{frames.length}</span>
                   </div>
                   <div>
-                    Discovered next: <span className="font-mono">[{current?.nextFrontier.join(", ")}]</span>
+                    Phase:{" "}
+                    <span className="font-semibold">
+                      {currentDfs ? `Backtracking (step ${dfsStep + 1} of ${backtrackFrames.length})` : replaying ? "Replaying your code's trace" : weighted ? "Uniform-cost search" : "BFS"}
+                    </span>
+                  </div>
+                  {weighted ? (
+                    <div>
+                      Current distance: <span className="font-semibold">{formatCost(current?.distance ?? 0)}</span>
+                    </div>
+                  ) : (
+                    <div>Current level: <span className="font-semibold">{current?.level ?? 0}</span></div>
+                  )}
+                  {playbackAlgorithm === "bidirectional" && (
+                    <div>
+                      Expanding: <span className="font-semibold">{current?.direction === "backward" ? "backward (from end)" : "forward (from begin)"}</span>
+                    </div>
+                  )}
+                  <div>
+                    {weighted ? "Settled at this distance" : "Frontier this level"}:{" "}
+                    <span className="font-mono">[{current?.frontier.join(", ")}]</span>
                   </div>
+                  {currentExpansion && !currentDfs && (
+                    <div>
+                      Expanding <span className="font-mono font-semibold">{currentExpansion.node}</span>
+                      {currentExpansion.pattern && (
+                        <>
+                          {" "}
+                          via {currentExpansion.pattern.includes("*") ? "bucket " : ""}
+                          <span className="font-mono font-semibold">{currentExpansion.pattern}</span>
+                        </>
+                      )}
+                      :{" "}
+                      {currentExpansion.probes.length ? (
+                        currentExpansion.probes.map((p, i) => (
+                          <span key={p.word}>
+                            {i > 0 && ", "}
+                            <span className={["font-mono", probeTextClass[p.kind]].join(" ")}>{p.word}</span>
+                            <span className="text-xs text-slate-400"> ({probeLabels[p.kind]})</span>
+                          </span>
+                        ))
+                      ) : (
+                        <span className="italic">no neighbors</span>
+                      )}
+                    </div>
+                  )}
+                  <div>
+                    {weighted ? "First reached" : "Discovered next"}: <span className="font-mono">[{(currentExpansion ? partialNext : current?.nextFrontier ?? []).join(", ")}]</span>
+                  </div>
+                  {playbackAlgorithm === "bidirectional" && (
+                    <div>
+                      Other frontier: <span className="font-mono">[{current?.oppositeFrontier.join(", ")}]</span>
+                    </div>
+                  )}
+                  {!!visibleMeeting.length && (
+                    <div>
+                      Frontiers meet at: <span className="font-mono text-amber-700">[{visibleMeeting.join(", ")}]</span>
+                    </div>
+                  )}
+                  {currentDfs && (
+                    <>
+                      <div>
+                        DFS {currentDfs.action}: <span className="font-mono text-fuchsia-700">{currentDfs.word}</span>
+                      </div>
+                      <div>
+                        Partial path: <span className="font-mono">[{currentDfs.path.join(" ← ")}]</span>
+                      </div>
+                    </>
+                  )}
                 </>
               ) : (
                 <div className="italic">Enter inputs to generate BFS layers.</div>
@@ -413,40 +896,563 @@ export default function WordLadderVisualizer() {
             <h2 className="font-semibold">Results</h2>
             {visiblePaths.length ? (
               <>
-                <p className="text-sm text-slate-600">All shortest sequences ({visiblePaths.length}):</p>
+                <p className="text-sm text-slate-600">
+                  {weighted
+                    ? `All minimum-cost sequences (${visiblePaths.length.toLocaleString()}, total cost ${formatCost(frames[frames.length - 1]?.distance ?? 0)}):`
+                    : `All shortest sequences (${visiblePaths.length.toLocaleString()}):`}
+                </p>
                 <div className="flex flex-wrap gap-2 max-h-56 overflow-auto">
-                  {visiblePaths.map((p, i) => (
+                  {visiblePaths.slice(0, pathsShown).map((p, i) => (
                     <span key={i} className="px-2 py-1 rounded-full bg-emerald-50 border border-emerald-200 text-emerald-900 text-xs">
                       {p.join(" → ")}
                     </span>
                   ))}
+                  {visiblePaths.length > pathsShown && (
+                    <button
+                      className="px-2 py-1 rounded-full border text-xs hover:bg-slate-100"
+                      onClick={() => setPathsShown((n) => n + PATH_PAGE)}
+                    >
+                      Show {Math.min(PATH_PAGE, visiblePaths.length - pathsShown)} more of {(visiblePaths.length - pathsShown).toLocaleString()}
+                    </button>
+                  )}
                 </div>
               </>
+            ) : noSolution ? (
+              <p className="text-sm text-slate-600">No ladder exists for this input; see the No Solution report below.</p>
             ) : (
-              <p className="text-sm text-slate-600">Shortest sequences appear once the target is discovered during BFS.</p>
+              <p className="text-sm text-slate-600">
+                Shortest sequences appear as the backtracking phase completes them, after BFS discovers the target.
+              </p>
+            )}
+            {pathsCapped && (
+              <p className="text-xs rounded-lg border border-amber-200 bg-amber-50 text-amber-800 px-2 py-1">
+                There are {pathCount.toLocaleString()} shortest paths (counted without listing them); only the first{" "}
+                {solver.solution!.allPaths.length.toLocaleString()} are enumerated, played back and exported. Raise "Paths to enumerate" to see
+                more.
+              </p>
+            )}
+            {solver.solution && !solver.stale && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-600">Export:</span>
+                <button
+                  className="px-2 py-1 rounded-lg border hover:bg-slate-100"
+                  onClick={() => exporter.paths(solver.solution!, "json")}
+                  title="Every shortest path, one JSON array per line"
+                >
+                  Paths (JSON)
+                </button>
+                <button
+                  className="px-2 py-1 rounded-lg border hover:bg-slate-100"
+                  onClick={() => exporter.paths(solver.solution!, "csv")}
+                >
+                  Paths (CSV)
+                </button>
+                <button
+                  className="px-2 py-1 rounded-lg border hover:bg-slate-100"
+                  onClick={() => exporter.parents(solver.solution!)}
+                  title="The discovered parent DAG for Graphviz; shortest-path edges are bold"
+                >
+                  Parent DAG (DOT)
+                </button>
+              </div>
+            )}
+            {frames.length > 0 && expandedCounts && (
+              <div className="pt-2 border-t">
+                <p className="text-sm text-slate-600 mb-1">Nodes expanded on this input:</p>
+                {(Object.keys(algorithmLabels) as Algorithm[]).map((a) => {
+                  const expanded = expandedCounts[a];
+                  const most = Math.max(1, ...Object.values(expandedCounts));
+                  return (
+                    <div key={a} className="text-xs mb-1">
+                      <div className="flex justify-between">
+                        <span className={a === searchAlgorithm ? "font-semibold" : ""}>{algorithmLabels[a]}</span>
+                        <span className="font-mono">{expanded}</span>
+                      </div>
+                      <div className="h-1.5 rounded bg-slate-100">
+                        <div
+                          className={["h-1.5 rounded", a === "bfs" ? "bg-slate-400" : "bg-violet-400"].join(" ")}
+                          style={{ width: `${(expanded / most) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
             )}
             <div className="pt-2 text-xs text-slate-500">
               <p>Visualization notes:</p>
               <ul className="list-disc ml-5 space-y-1">
                 <li>Columns represent BFS levels (layered search).</li>
                 <li>Edges show parent links captured during BFS for shortest-path backtracking.</li>
-                <li>Green rings highlight nodes that lie on at least one shortest path.</li>
+                <li>Green rings highlight nodes that lie on at least one shortest path found so far.</li>
+                <li>Finer granularity steps through each node expansion: blue = newly discovered, dashed indigo = extra parent, struck-through = already visited.</li>
+                <li>After the last level, playback backtracks from the end word; the partial path is outlined in fuchsia.</li>
+                <li>Bidirectional mode grows backward levels from the right (violet); amber marks where the frontiers meet.</li>
+                <li>Uniform-cost search places each column at its total move cost from the begin word rather than its BFS level.</li>
+                <li>The full word graph also draws same-level and back edges, which BFS probes but never records as parents.</li>
               </ul>
             </div>
           </div>
         </section>
 
-        {/* Graph Canvas */}
-        <section className="bg-white rounded-2xl shadow border p-4 md:p-6">
-          <h2 className="font-semibold mb-4">Layered Graph</h2>
-          <div className="relative w-full overflow-auto">
+        <TimelinePanel
+          step={step}
+          totalSteps={totalSteps}
+          frames={frames}
+          expansionSteps={expansionSteps}
+          backtrackFrames={backtrackFrames}
+          granularity={playbackGranularity}
+          end={endWord}
+          onSeek={setStep}
+          onTogglePlay={playback.togglePlaying}
+        />
+
+        {/* Answer checker */}
+        <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mb-6 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="font-semibold">Check My Answer</h2>
+            {answer.text && (
+              <button className="text-xs px-2 py-1 rounded-lg border hover:bg-slate-100" onClick={answer.clear}>
+                Clear
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            Paste the paths your own solution returns for this input, as a JSON array (e.g. [["hit","hot","cog"]]). They are compared
+            with the paths found here.
+          </p>
+          <textarea
+            className="w-full border rounded-lg p-2 h-24 font-mono text-xs"
+            value={answer.text}
+            onChange={(e) => answer.edit(e.target.value)}
+            placeholder='[["hit","hot","dot","dog","cog"]]'
+          />
+          {answer.error && <p className="text-sm text-red-600">Can't read the answer: {answer.error}</p>}
+          {answer.text.trim() && !solver.solution && <p className="text-sm text-slate-600">Waiting for the solver…</p>}
+          {answer.check && (
+            <div className="space-y-2 text-sm">
+              <p className={answer.check.missingCount || answer.check.paths.some((p) => !p.correct) ? "text-red-700" : "text-emerald-700 font-medium"}>
+                {answer.check.paths.filter((p) => p.correct).length} of {answer.check.paths.length} submitted path
+                {answer.check.paths.length === 1 ? "" : "s"} correct
+                {answer.check.missingCount ? `, ${describeMissing(answer.check)}` : ""}
+                {!answer.check.missingCount && answer.check.paths.every((p) => p.correct) ? " — every shortest path, nothing extra." : "."}
+              </p>
+              <ul className="space-y-1 max-h-64 overflow-auto">
+                {answer.check.paths.map((p, i) => (
+                  <li key={i}>
+                    <button
+                      className={[
+                        "w-full text-left px-2 py-1 rounded-lg border text-xs",
+                        p.correct ? "border-emerald-200 bg-emerald-50" : "border-red-200 bg-red-50",
+                        answer.selected === i ? "ring-2 ring-slate-400" : "",
+                      ].join(" ")}
+                      onClick={() => answer.setSelected(answer.selected === i ? null : i)}
+                      title={p.correct ? undefined : "Show only this path's marks on the graph"}
+                    >
+                      <span className="font-mono">
+                        {i + 1}. {p.path.join(" → ")}
+                      </span>
+                      <span className={p.correct ? "text-emerald-700" : "text-red-700"}>
+                        {" — "}
+                        {p.correct ? "correct" : p.issues.length ? p.issues.map((issue) => describeIssue(issue)).join("; ") : "not an expected path"}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {answer.check.missing.length > 0 && (
+                <div>
+                  <p className="text-xs text-slate-600 mb-1">Missing:</p>
+                  <div className="flex flex-wrap gap-2 max-h-32 overflow-auto">
+                    {answer.check.missing.map((p, i) => (
+                      <span key={i} className="px-2 py-1 rounded-full bg-sky-50 border border-sky-200 text-sky-900 text-xs">
+                        {p.join(" → ")}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                {(Object.keys(markLabels) as CheckMarkKind[]).map((kind) => (
+                  <span key={kind} className="flex items-center gap-1">
+                    <svg width={28} height={8}>
+                      <line x1={0} y1={4} x2={28} y2={4} stroke={markStroke[kind].color} strokeWidth={3} strokeDasharray={markStroke[kind].dash} />
+                    </svg>
+                    {markLabels[kind]}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500">
+                Marks are drawn on the graph below{answer.selected !== null ? " for the selected path only" : ""}. Words the graph doesn't show yet
+                (step to the end, or turn on the full word graph) and words outside the word list are only listed here.
+              </p>
+            </div>
+          )}
+        </section>
+
+        {/* Learner's code */}
+        <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mb-6 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="font-semibold">Run My Code</h2>
+            <div className="flex items-center gap-2 text-sm">
+              {userCode.running ? (
+                <button className="px-3 py-1.5 rounded-xl border border-red-300 text-red-700 hover:bg-red-50" onClick={userCode.cancel}>
+                  Cancel
+                </button>
+              ) : (
+                <button className="px-3 py-1.5 rounded-xl bg-slate-900 text-white hover:bg-slate-700" onClick={userCode.run}>
+                  Run
+                </button>
+              )}
+              <button
+                className="px-3 py-1.5 rounded-xl border hover:bg-slate-100"
+                onClick={userCode.reset}
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Your findLadders(beginWord, endWord, wordList) runs on the current input in a sandboxed worker (stopped after{" "}
+            {USER_CODE_TIMEOUT_MS / 1000} s). Queue, VisitedSet and ParentsMap record what it does so Playback can replay it and compare it
+            level by level with layered BFS.
+          </p>
+          <textarea
+            className="w-full border rounded-lg p-2 h-72 font-mono text-xs"
+            value={userCode.code}
+            spellCheck={false}
+            onChange={(e) => userCode.setCode(e.target.value)}
+          />
+          {userCode.running && <p className="text-sm text-slate-600">Running…</p>}
+          {userCode.error && <p className="text-sm text-red-600">{userCode.error}</p>}
+          {userCode.result && (
+            <div className="space-y-2 text-sm">
+              {userCode.stale && <p className="text-amber-700">The input changed since this run; run it again to replay or compare.</p>}
+              {userCode.result.error && <p className="text-red-600">Your code failed: {userCode.result.error}</p>}
+              <p className="text-slate-600">
+                Expanded {userCode.result.trace.expansions.toLocaleString()} word{userCode.result.trace.expansions === 1 ? "" : "s"} over{" "}
+                {userCode.result.trace.frames.length} level{userCode.result.trace.frames.length === 1 ? "" : "s"} (layered BFS expands{" "}
+                {userCode.result.reference.frames.reduce((n, f) => n + f.frontier.length, 0).toLocaleString()} over{" "}
+                {userCode.result.reference.frames.length}).
+                {userCode.result.trace.reexpanded.length > 0 && (
+                  <span className="text-amber-700"> Expanded more than once: {userCode.result.trace.reexpanded.slice(0, DIFF_ITEMS).join(", ")}.</span>
+                )}
+              </p>
+              {userCode.result.check && (
+                <p className={userCode.result.check.missingCount || userCode.result.check.paths.some((p) => !p.correct) ? "text-red-700" : "text-emerald-700"}>
+                  Returned {userCode.result.check.paths.length} path{userCode.result.check.paths.length === 1 ? "" : "s"}:{" "}
+                  {userCode.result.check.paths.filter((p) => p.correct).length} correct, {describeMissing(userCode.result.check)}
+                  {userCode.result.check.paths.filter((p) => !p.correct).length > 0 &&
+                    `, ${userCode.result.check.paths.filter((p) => !p.correct).length} wrong (${userCode.result.check.paths
+                      .filter((p) => !p.correct)
+                      .slice(0, 3)
+                      .map((p) => `${p.path.join(" → ")}: ${p.issues.map(describeIssue).join("; ") || "not an expected path"}`)
+                      .join(" | ")})`}
+                  .
+                </p>
+              )}
+              {userCode.result.trace.expansions > 0 &&
+                (userCode.result.diffs.length ? (
+                  <ul className="text-xs space-y-1">
+                    {userCode.result.diffs.slice(0, DIFF_ITEMS).map((d) => (
+                      <li key={d.level} className="px-2 py-1 rounded-lg border border-amber-200 bg-amber-50">
+                        <span className="font-semibold">Level {d.level}:</span> {describeLevelDiff(d)}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-emerald-700">Every level discovers the same words and parent links as layered BFS.</p>
+                ))}
+              {userCode.result.trace.expansions === 0 && !userCode.result.error && (
+                <p className="text-xs text-slate-500">Nothing was traced: use Queue.shift() or trace.expand() so expansions can be replayed.</p>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={userCode.replay}
+                  disabled={userCode.stale || !userCode.result.trace.frames.length}
+                  onChange={(e) => userCode.setReplay(e.target.checked)}
+                />
+                Replay my code's trace in Playback and on the graph
+              </label>
+              {userCode.result.logs.length > 0 && (
+                <pre className="text-xs bg-slate-50 border rounded-lg p-2 max-h-40 overflow-auto">{userCode.result.logs.join("\n")}</pre>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* No Solution report */}
+        {noSolution && componentView && (
+          <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mb-6 space-y-3">
+            <h2 className="font-semibold">No Solution: why the end word can't be reached</h2>
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              <div className="rounded-xl border border-sky-200 bg-sky-50 p-3">
+                <p className="font-medium">Reachable from "{beginWord}"</p>
+                <p className="text-slate-600 text-xs">
+                  {describeComponent(noSolution.beginLevels)}
+                </p>
+              </div>
+              <div className="rounded-xl border border-violet-200 bg-violet-50 p-3">
+                <p className="font-medium">Component containing "{endWord}"</p>
+                <p className="text-slate-600 text-xs">
+                  {noSolution.endInDictionary
+                    ? describeComponent(noSolution.endLevels)
+                    : "The end word isn't in the word list, so it has to be added as well."}
+                </p>
+              </div>
+            </div>
+            {noSolution.bridge ? (
+              <div className="text-sm space-y-1">
+                <p>
+                  Fewest words to add: <span className="font-semibold">{noSolution.bridge.added.length}</span> (
+                  <span className="font-mono">{noSolution.bridge.added.join(", ")}</span>)
+                </p>
+                <p className="text-xs text-slate-600">
+                  Connecting ladder:{" "}
+                  {noSolution.bridge.ladder.map((w, i) => (
+                    <span key={w}>
+                      {i > 0 && " → "}
+                      <span className={noSolution.bridge!.added.includes(w) ? "font-semibold text-amber-700" : ""}>{w}</span>
+                    </span>
+                  ))}
+                </p>
+                <button
+                  className="text-xs px-2 py-1 rounded-lg border hover:bg-slate-100"
+                  onClick={() => editing.addToDictionary(noSolution.bridge!.added)}
+                >
+                  Add {noSolution.bridge.added.length === 1 ? "this word" : "these words"} to the {importedDict ? "imported dictionary" : "word list"}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-600">
+                No connection was found within {noSolution.candidatesSearched.toLocaleString()} candidate words.
+              </p>
+            )}
             <Graph
-              columns={columns}
-              edges={edges}
-              positions={positions.pos}
+              columns={componentView.columns}
+              edges={componentView.edges}
+              layout={componentView.layout}
+              forwardColumns={componentView.forwardColumns}
               beginWord={beginWord.toLowerCase()}
               endWord={endWord.toLowerCase()}
-              solvedWords={new Set(visiblePaths.flat())}
+              solvedWords={new Set(noSolution.bridge?.ladder)}
+              meetingWords={new Set(noSolution.bridge?.added)}
+              activePath={[]}
+            />
+            <p className="text-xs text-slate-500">
+              Begin's component grows from the left, the end word's from the right (violet); suggested words are shaded amber.
+            </p>
+          </section>
+        )}
+
+        {lesson.example && (
+          <LessonPanel
+            name={lesson.example.name}
+            session={lesson}
+            inSync={lessonInSync}
+            onRestart={() => startLesson(lesson.example!)}
+            onExit={lesson.exit}
+          />
+        )}
+
+        {/* Graph Canvas */}
+        <section className="bg-white rounded-2xl shadow border p-4 md:p-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="font-semibold">{fullGraph ? "Word Graph" : "Layered Graph"}</h2>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                Layout
+                <select
+                  className="border rounded-lg px-2 py-1"
+                  value={graphLayout}
+                  onChange={(e) => setGraphLayout(e.target.value as GraphLayoutMode)}
+                >
+                  <option value="layered">Layered (BFS levels)</option>
+                  <option value="force">Force-directed</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={fullGraph}
+                  disabled={graphLayout === "force"}
+                  onChange={(e) => setShowFullGraph(e.target.checked)}
+                />
+                Show full word graph
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={collapseOffPath} onChange={(e) => setCollapseOffPath(e.target.checked)} />
+                Collapse words not on a shortest path
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={accessible} onChange={(e) => setAccessible(e.target.checked)} />
+                Accessible mode (colorblind-safe palette and markers)
+              </label>
+              <div className="flex items-center gap-1">
+                <button className="px-2 py-1 rounded-lg border hover:bg-slate-100" onClick={() => exporter.image(canvas, "svg")} title="Download this step of the graph">
+                  SVG
+                </button>
+                <button className="px-2 py-1 rounded-lg border hover:bg-slate-100" onClick={() => exporter.image(canvas, "png")} title="Download this step of the graph">
+                  PNG
+                </button>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500 mb-2">
+            Scroll to zoom, drag to pan. Focus the graph to walk its links with the arrow keys.
+            {fullGraph && graphLayout === "layered" && " Words the search hasn't reached yet sit in the last column."}
+            {forcePositions &&
+              forcePositions.total > FORCE_LIMIT &&
+              ` The force-directed layout places ${FORCE_LIMIT.toLocaleString()} of ${forcePositions.total.toLocaleString()} words.`}
+            {" "}Exported images show the whole graph at the current step.
+          </p>
+          {exporter.error && <p className="text-xs text-red-600 mb-2">{exporter.error}</p>}
+
+          {/* Editing the problem from the graph */}
+          <div className="rounded-xl border bg-slate-50 p-3 mb-3 space-y-2 text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">
+                Click a word to
+                <select className="border rounded-lg px-2 py-1 bg-white" value={editing.tool} onChange={(e) => editing.setTool(e.target.value as GraphTool)}>
+                  {(Object.keys(graphToolLabels) as GraphTool[]).map((t) => (
+                    <option key={t} value={t}>
+                      {graphToolLabels[t]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-1">
+                <button
+                  className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100 disabled:opacity-50"
+                  disabled={!editing.canUndo}
+                  onClick={editing.undo}
+                  title="Undo the last graph edit (Ctrl+Z)"
+                >
+                  Undo
+                </button>
+                <button
+                  className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100 disabled:opacity-50"
+                  disabled={!editing.canRedo}
+                  onClick={editing.redo}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  Redo
+                </button>
+              </div>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={showCritical} onChange={(e) => setShowCritical(e.target.checked)} />
+                Mark critical words
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className="border rounded-lg px-2 py-1 bg-white font-mono text-xs flex-1 min-w-[12rem]"
+                value={editing.addText}
+                onChange={(e) => editing.setAddText(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && editing.addWords()}
+                placeholder="Words to add, e.g. cot, hog"
+              />
+              <button
+                className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100 disabled:opacity-50"
+                disabled={!editing.additions.some((p) => p.status !== "in-list")}
+                onClick={editing.addWords}
+              >
+                Add
+              </button>
+            </div>
+            {editing.additions.length > 0 && (
+              <ul className="text-xs space-y-0.5">
+                {editing.additions.map((p) => (
+                  <li key={p.word} className={p.shortens ? "text-emerald-700" : p.status === "new" && p.level !== null ? "text-slate-700" : "text-slate-400"}>
+                    <span className="font-mono">{p.word}</span> {describeAttach(p)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {problem.blocked.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs">
+                <span className="text-slate-600">Blocked:</span>
+                {problem.blocked.map((w) => (
+                  <button
+                    key={w}
+                    className="px-2 py-0.5 rounded-full border border-slate-300 bg-white font-mono line-through hover:no-underline"
+                    onClick={() => editing.unblock(w)}
+                    title="Unblock"
+                  >
+                    {w}
+                  </button>
+                ))}
+                <button className="px-2 py-0.5 text-slate-500 hover:text-slate-800" onClick={editing.unblockAll}>
+                  Unblock all
+                </button>
+              </div>
+            )}
+            {critical && (
+              <p className="text-xs text-slate-600">
+                {critical.words.size || critical.edges.length ? (
+                  <>
+                    Every shortest path goes through{" "}
+                    <span className="font-mono text-rose-700">{Array.from(critical.words).join(", ") || "no single word"}</span>
+                    {critical.edges.length > 0 && (
+                      <>
+                        {" "}
+                        and the links <span className="font-mono text-rose-700">{critical.edges.map(([a, b]) => `${a}→${b}`).join(", ")}</span>
+                      </>
+                    )}
+                    . Removing or blocking any of these words leaves no ladder of this length (a longer one may remain). Critical words are
+                    underlined and critical links shaded in red.
+                  </>
+                ) : (
+                  "No single word or link is on every shortest path."
+                )}
+              </p>
+            )}
+          </div>
+
+          {fullGraph && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 mb-2">
+              {(Object.keys(edgeLabels) as EdgeKind[]).map((kind) => (
+                <span key={kind} className="flex items-center gap-1">
+                  <svg width={28} height={8}>
+                    <line
+                      x1={0}
+                      y1={4}
+                      x2={28}
+                      y2={4}
+                      stroke={edgeStrokeFor(kind, accessible).color}
+                      strokeWidth={edgeStrokeFor(kind, accessible).width + 0.5}
+                      strokeDasharray={edgeStrokeFor(kind, accessible).dash}
+                    />
+                  </svg>
+                  {edgeLabels[kind]}
+                </span>
+              ))}
+            </div>
+          )}
+          {accessible && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 mb-2">
+              {Object.values(nodeMarkers).map((m) => (
+                <span key={m.icon}>
+                  <span aria-hidden="true">{m.icon}</span> {m.label}
+                </span>
+              ))}
+            </div>
+          )}
+          <p aria-live="polite" className={accessible ? "text-sm rounded-lg border bg-slate-50 px-3 py-2 mb-2" : "sr-only"}>
+            {narration}
+          </p>
+          {/* The previous solution stays up while the current inputs are solved, greyed out */}
+          <div className={solver.stale && !replaying ? "opacity-40 grayscale" : undefined} aria-busy={solver.stale && !replaying}>
+            <Graph
+              {...canvas}
+              accessible={accessible}
+              expanding={currentDfs ? undefined : currentExpansion}
+              marks={lessonInSync && lesson.marks ? lesson.marks : marks}
+              pathsThrough={replaying ? undefined : pathsThrough}
+              critical={critical}
+              picked={lessonInSync && lesson.current ? new Set(lesson.picks) : undefined}
+              onWordClick={lessonPicking ? lesson.togglePick : editing.tool === "pan" ? undefined : editing.clickWord}
             />
           </div>
         </section>
@@ -454,29 +1460,41 @@ export default function WordLadderVisualizer() {
         {/* Debug / Details */}
         <section className="mt-6 grid md:grid-cols-2 gap-4">
           <div className="bg-white rounded-2xl shadow p-4 border">
-            <h3 className="font-semibold mb-2">Visited (end of current level)</h3>
+            <h3 className="font-semibold mb-2">{currentExpansion ? "Visited (start of current level)" : "Visited (end of current level)"}</h3>
             <div className="text-sm font-mono flex flex-wrap gap-1">
-              {current?.visitedSnapshot.map((w) => (
+              {visitedNow.slice(0, DETAIL_LIMIT).map((w) => (
                 <span key={w} className="px-2 py-0.5 rounded bg-slate-100 border">
                   {w}
                 </span>
               ))}
+              {visitedNow.length > DETAIL_LIMIT && (
+                <span className="px-2 py-0.5 text-slate-500">+{(visitedNow.length - DETAIL_LIMIT).toLocaleString()} more</span>
+              )}
             </div>
           </div>
           <div className="bg-white rounded-2xl shadow p-4 border">
             <h3 className="font-semibold mb-2">Parents Map (partial)</h3>
             <div className="text-xs font-mono max-h-64 overflow-auto">
-              {Object.entries(current?.parentsSnapshot || {}).map(([child, ps]) => (
-                <div key={child} className="mb-1">
-                  <span className="text-slate-700">{child}</span>
-                  <span> ← </span>
-                  <span className="text-slate-500">{Array.from(ps).join(", ")}</span>
-                </div>
-              ))}
+              {Object.entries(visibleParents)
+                .slice(0, DETAIL_LIMIT)
+                .map(([child, ps]) => (
+                  <div key={child} className="mb-1">
+                    <span className="text-slate-700">{child}</span>
+                    <span> ← </span>
+                    <span className="text-slate-500">{Array.from(ps).join(", ")}</span>
+                  </div>
+                ))}
+              {Object.keys(visibleParents).length > DETAIL_LIMIT && (
+                <div className="text-slate-500">+{(Object.keys(visibleParents).length - DETAIL_LIMIT).toLocaleString()} more</div>
+              )}
             </div>
           </div>
         </section>
 
+        <ComparePanel input={problem.solverInput} />
+
+        <BenchmarkPanel input={isLeetCodeMoves(moves) ? { begin: beginWord, end: endWord, words } : null} />
+
         <footer className="text-xs text-slate-500 mt-6">
           Inspired by LeetCode 126. Word Ladder II. This visualization focuses on layered BFS with backtracking to enumerate all shortest sequences.
         </footer>
@@ -484,74 +1502,3 @@ export default function WordLadderVisualizer() {
     </div>
   );
 }
-
-function Graph({
-  columns,
-  edges,
-  positions,
-  beginWord,
-  endWord,
-  solvedWords,
-}: {
-  columns: string[][];
-  edges: Array<{ from: { key: string; x: number; y: number }; to: { key: string; x: number; y: number } }>;
-  positions: Record<string, { x: number; y: number }>;
-  beginWord: string;
-  endWord: string;
-  solvedWords: Set<string>;
-}) {
-  // Compute canvas size from positions
-  const { width, height } = useMemo(() => {
-    let maxX = 0,
-      maxY = 0,
-      minY = Infinity;
-    for (const p of Object.values(positions)) {
-      maxX = Math.max(maxX, p.x);
-      maxY = Math.max(maxY, p.y);
-      minY = Math.min(minY, p.y);
-    }
-    // Ensure proper padding at top and bottom
-    const bottomPadding = 80;
-    return { width: maxX + 160, height: Math.max(300, maxY + bottomPadding) };
-  }, [positions]);
-
-  return (
-    <div className="relative">
-      <svg width={width} height={height} className="block">
-        {/* Edges */}
-        {edges.map((e, idx) => {
-          const path = `M ${e.from.x} ${e.from.y} C ${e.from.x + 40} ${e.from.y}, ${e.to.x - 40} ${e.to.y}, ${e.to.x} ${e.to.y}`;
-          return <path key={idx} d={path} stroke="#94a3b8" strokeWidth={1.5} fill="none" />;
-        })}
-      </svg>
-      {/* Nodes on top for readability */}
-      {columns.map((col, ci) => (
-        <div key={ci} className="absolute" style={{ left: 0, top: 0 }}>
-          {col.map((w) => {
-            const key = `${w}@${ci}`;
-            const p = positions[key];
-            if (!p) return null;
-            const isSource = ci === 0 && w === beginWord;
-            const isTarget = w === endWord;
-            const inSolution = solvedWords.has(w);
-            return (
-              <div
-                key={key}
-                className={[
-                  "absolute -translate-x-1/2 -translate-y-1/2 px-3 py-1 rounded-xl border shadow-sm text-sm bg-white",
-                  isSource ? "border-sky-300 ring-1 ring-sky-200" : "border-slate-200",
-                  isTarget ? "font-semibold" : "",
-                  inSolution ? "ring-2 ring-emerald-400" : "",
-                ].join(" ")}
-                style={{ left: p.x, top: p.y }}
-                title={w}
-              >
-                {w}
-              </div>
-            );
-          })}
-        </div>
-      ))}
-    </div>
-  );
-}
@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from "react";
+import { BenchmarkInput, BenchmarkResult, LENGTH_SWEEP_SIZE, NeighborStrategy, SIZE_SWEEP_LENGTH } from "./benchmark";
+import type { BenchmarkRequest, BenchmarkResponse } from "./benchmark.worker";
+
+const strategyLabels: Record<NeighborStrategy, string> = {
+  buckets: "Pattern buckets",
+  naive: "Naive 26-letter substitution",
+};
+
+const strategyColors: Record<NeighborStrategy, string> = {
+  buckets: "#4f46e5",
+  naive: "#ea580c",
+};
+
+type Metric = { label: string; value: (r: BenchmarkResult) => number };
+
+const timeMetric: Metric = { label: "index + BFS (ms)", value: (r) => r.indexMs + r.bfsMs };
+// Dictionary probes for the naive strategy, bucket entries scanned for the buckets
+const examinedMetric: Metric = { label: "words examined per expansion", value: (r) => (r.expanded ? r.candidates / r.expanded : 0) };
+
+const formatMs = (ms: number) => (ms < 10 ? ms.toFixed(2) : ms.toFixed(0));
+
+// Measures the solver on the current input and on generated dictionaries, in a worker
+export default function BenchmarkPanel({ input }: { input: BenchmarkInput | null }) {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+  useEffect(() => stop, []);
+
+  const run = () => {
+    stop();
+    setResults([]);
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    const worker = new Worker(new URL("./benchmark.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<BenchmarkResponse>) => {
+      const msg = e.data;
+      if (msg.type === "result") {
+        setResults((rs) => [...rs, msg.result]);
+        setProgress({ done: msg.done, total: msg.total });
+      } else {
+        stop();
+        setProgress(null);
+        if (msg.type === "error") setError(msg.message);
+      }
+    };
+    worker.postMessage({ current: input, seed: 1 } satisfies BenchmarkRequest);
+  };
+
+  const cancel = () => {
+    stop();
+    setProgress(null);
+  };
+
+  const current = results.filter((r) => r.series === "current");
+  const bySize = results.filter((r) => r.series === "size");
+  const byLength = results.filter((r) => r.series === "length");
+  const series = (rs: BenchmarkResult[], x: (r: BenchmarkResult) => number, metric: Metric) =>
+    (Object.keys(strategyLabels) as NeighborStrategy[]).map((s) => ({
+      label: strategyLabels[s],
+      color: strategyColors[s],
+      points: rs.filter((r) => r.strategy === s).map((r) => [x(r), metric.value(r)] as [number, number]),
+    }));
+
+  return (
+    <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mt-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">Benchmark</h2>
+        <div className="flex items-center gap-2 text-sm">
+          {progress && (
+            <span className="text-xs text-slate-500">
+              {progress.done} / {progress.total || "…"} runs
+            </span>
+          )}
+          {progress ? (
+            <button className="px-3 py-1.5 rounded-xl border border-red-300 text-red-700 hover:bg-red-50" onClick={cancel}>
+              Cancel
+            </button>
+          ) : (
+            <button className="px-3 py-1.5 rounded-xl bg-slate-900 text-white hover:bg-slate-700" onClick={run}>
+              Run benchmark
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        Times bucket building, BFS and backtracking (median of 3 runs) with single-letter moves on the current input, then on generated
+        connected dictionaries of growing size N (L = {SIZE_SWEEP_LENGTH}) and word length L (N = {LENGTH_SWEEP_SIZE.toLocaleString()}).
+        Pattern buckets read L buckets per expanded word and scan their words; the naive strategy tries all 25 other letters at each of the
+        L positions, i.e. 25·L dictionary lookups. Both expand the same nodes, so the difference is the cost per expansion.
+      </p>
+      {error && <p className="text-sm text-red-600">Benchmark failed: {error}</p>}
+
+      {current.length > 0 && (
+        <div className="overflow-auto">
+          <table className="text-xs w-full">
+            <thead className="text-left text-slate-500">
+              <tr>
+                <th className="pr-3 py-1 font-medium">Current input</th>
+                <th className="pr-3 font-medium">N</th>
+                <th className="pr-3 font-medium">L</th>
+                <th className="pr-3 font-medium">Index (ms)</th>
+                <th className="pr-3 font-medium">BFS (ms)</th>
+                <th className="pr-3 font-medium">Backtrack (ms)</th>
+                <th className="pr-3 font-medium">Expanded</th>
+                <th className="pr-3 font-medium">Lookups</th>
+                <th className="pr-3 font-medium">Words examined</th>
+                <th className="pr-3 font-medium">Paths</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {current.map((r) => (
+                <tr key={r.strategy} className="border-t">
+                  <td className="pr-3 py-1 font-sans">{strategyLabels[r.strategy]}</td>
+                  <td className="pr-3">{r.n.toLocaleString()}</td>
+                  <td className="pr-3">{r.length}</td>
+                  <td className="pr-3">{formatMs(r.indexMs)}</td>
+                  <td className="pr-3">{formatMs(r.bfsMs)}</td>
+                  <td className="pr-3">{r.enumerated ? formatMs(r.backtrackMs) : "skipped"}</td>
+                  <td className="pr-3">{r.expanded.toLocaleString()}</td>
+                  <td className="pr-3">{r.lookups.toLocaleString()}</td>
+                  <td className="pr-3">{r.candidates.toLocaleString()}</td>
+                  <td className="pr-3">{r.paths.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(bySize.length > 0 || byLength.length > 0) && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <LineChart title={`Time vs N (L = ${SIZE_SWEEP_LENGTH})`} xLabel="N" yLabel={timeMetric.label} series={series(bySize, (r) => r.n, timeMetric)} />
+          <LineChart
+            title={`Time vs L (N = ${LENGTH_SWEEP_SIZE.toLocaleString()})`}
+            xLabel="L"
+            yLabel={timeMetric.label}
+            series={series(byLength, (r) => r.length, timeMetric)}
+          />
+          <LineChart
+            title="Words examined per expansion vs N"
+            xLabel="N"
+            yLabel={examinedMetric.label}
+            series={series(bySize, (r) => r.n, examinedMetric)}
+          />
+          <LineChart
+            title="Words examined per expansion vs L"
+            xLabel="L"
+            yLabel={examinedMetric.label}
+            series={series(byLength, (r) => r.length, examinedMetric)}
+          />
+        </div>
+      )}
+      {bySize.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Expanded nodes grow with N in both strategies. The naive strategy always examines 25·L candidate words per expansion, however
+          large N is; the buckets only hold real words, so they examine far fewer, growing as the dictionary gets denser.
+        </p>
+      )}
+    </section>
+  );
+}
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 200;
+const MARGIN = { left: 48, right: 12, top: 12, bottom: 32 };
+
+type Series = { label: string; color: string; points: Array<[number, number]> };
+
+// Minimal line chart: linear axes from 0, four ticks each
+function LineChart({ title, xLabel, yLabel, series }: { title: string; xLabel: string; yLabel: string; series: Series[] }) {
+  const all = series.flatMap((s) => s.points);
+  const maxX = Math.max(1, ...all.map(([x]) => x));
+  const maxY = Math.max(1e-9, ...all.map(([, y]) => y));
+  const plotW = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const sx = (x: number) => MARGIN.left + (x / maxX) * plotW;
+  const sy = (y: number) => MARGIN.top + plotH - (y / maxY) * plotH;
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  const tick = (v: number) => (v >= 100 ? Math.round(v).toLocaleString() : Number(v.toPrecision(2)).toString());
+
+  return (
+    <figure className="rounded-xl border p-2">
+      <figcaption className="text-xs font-medium mb-1">{title}</figcaption>
+      <svg width="100%" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="block">
+        {ticks.map((t) => (
+          <g key={t} className="text-[9px]" fill="#64748b">
+            <line x1={MARGIN.left} x2={CHART_WIDTH - MARGIN.right} y1={sy(t * maxY)} y2={sy(t * maxY)} stroke="#f1f5f9" />
+            <text x={MARGIN.left - 4} y={sy(t * maxY)} textAnchor="end" dominantBaseline="central">
+              {tick(t * maxY)}
+            </text>
+            <text x={sx(t * maxX)} y={CHART_HEIGHT - MARGIN.bottom + 12} textAnchor="middle">
+              {tick(t * maxX)}
+            </text>
+          </g>
+        ))}
+        <line x1={MARGIN.left} x2={MARGIN.left} y1={MARGIN.top} y2={MARGIN.top + plotH} stroke="#94a3b8" />
+        <line x1={MARGIN.left} x2={CHART_WIDTH - MARGIN.right} y1={MARGIN.top + plotH} y2={MARGIN.top + plotH} stroke="#94a3b8" />
+        <text x={MARGIN.left + plotW / 2} y={CHART_HEIGHT - 4} textAnchor="middle" className="text-[10px]" fill="#475569">
+          {xLabel}
+        </text>
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline points={s.points.map(([x, y]) => `${sx(x)},${sy(y)}`).join(" ")} fill="none" stroke={s.color} strokeWidth={2} />
+            {s.points.map(([x, y]) => (
+              <circle key={x} cx={sx(x)} cy={sy(y)} r={2.5} fill={s.color}>
+                <title>{`${xLabel} = ${x.toLocaleString()}: ${tick(y)} ${yLabel}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 text-[11px] text-slate-600">
+        <span className="text-slate-500">{yLabel}:</span>
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </figure>
+  );
+}
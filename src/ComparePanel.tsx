@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { onlyIn, RunDiff, RunState, runStateAt, runSteps, variantInput } from "./comparison";
+import { parseWordList } from "./dictionaryFile";
+import Graph from "./Graph";
+import { buildEdges, computeLayout, frameColumns } from "./layout";
+import type { Algorithm, LadderInput, LadderSolution, VisitedRule } from "./solver";
+import { useSolver } from "./useSolver";
+
+const algorithmLabels: Record<Algorithm, string> = {
+  bfs: "BFS",
+  bidirectional: "Bidirectional",
+  dijkstra: "Uniform-cost",
+};
+
+const visitedRuleLabels: Record<VisitedRule, string> = {
+  level: "Mark visited after each level",
+  discovery: "Mark visited on discovery (bug)",
+};
+
+// One side's settings as typed; word lists are parsed when solving
+type SideDraft = { algorithm: Algorithm; visitedRule: VisitedRule; addText: string; removeText: string };
+
+const plain: SideDraft = { algorithm: "bfs", visitedRule: "level", addText: "", removeText: "" };
+
+const presets: Array<{ label: string; sides: [SideDraft, SideDraft] }> = [
+  { label: "Visited after the level vs on discovery", sides: [plain, { ...plain, visitedRule: "discovery" }] },
+  { label: "BFS vs bidirectional", sides: [plain, { ...plain, algorithm: "bidirectional" }] },
+  { label: "Same settings on both sides", sides: [plain, plain] },
+];
+
+const sideNames = ["A", "B"] as const;
+const DIFF_PATHS_SHOWN = 5;
+
+// Two runs of the current problem, each with its own settings and extra or removed words, played back
+// with one shared step cursor; orange marks what one run has at that step that the other doesn't
+export default function ComparePanel({ input }: { input: LadderInput }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mt-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">Compare Two Runs</h2>
+        <button className="px-3 py-1 rounded-xl border text-sm hover:bg-slate-100" onClick={() => setOpen((o) => !o)}>
+          {open ? "Hide" : "Show"}
+        </button>
+      </div>
+      {open ? (
+        <Comparison input={input} />
+      ) : (
+        <p className="text-sm text-slate-500">
+          Solve the current problem twice, e.g. with one extra word or with the visited-on-discovery bug, and step through both runs side by side.
+        </p>
+      )}
+    </section>
+  );
+}
+
+function Comparison({ input }: { input: LadderInput }) {
+  const [sides, setSides] = useState<[SideDraft, SideDraft]>(presets[0].sides);
+  const [step, setStep] = useState(0);
+
+  const toInput = (d: SideDraft) =>
+    variantInput(input, { algorithm: d.algorithm, visitedRule: d.visitedRule, addWords: parseWordList(d.addText), removeWords: parseWordList(d.removeText) });
+  const inputA = useMemo(() => toInput(sides[0]), [input, sides[0]]);
+  const inputB = useMemo(() => toInput(sides[1]), [input, sides[1]]);
+  const a = useSolver(inputA);
+  const b = useSolver(inputB);
+  useEffect(() => setStep(0), [inputA, inputB]);
+
+  // A run kept from older inputs isn't drawn against the new ones
+  const runs = a.solution && b.solution && !a.stale && !b.stale ? ([a.solution, b.solution] as const) : null;
+  const total = runs ? Math.max(runSteps(runs[0]), runSteps(runs[1])) : 0;
+  const states = useMemo(() => runs && ([runStateAt(runs[0], step), runStateAt(runs[1], step)] as const), [runs?.[0], runs?.[1], step]);
+  const diffs = useMemo(() => states && ([onlyIn(states[0], states[1]), onlyIn(states[1], states[0])] as const), [states]);
+
+  const setSide = (i: 0 | 1, patch: Partial<SideDraft>) =>
+    setSides((s) => (i === 0 ? [{ ...s[0], ...patch }, s[1]] : [s[0], { ...s[1], ...patch }]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-500">Presets:</span>
+        {presets.map((p) => (
+          <button key={p.label} className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={() => setSides(p.sides)}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {sides.map((side, i) => (
+          <div key={i} className="rounded-xl border p-3 space-y-2 text-sm">
+            <div className="font-semibold">Run {sideNames[i]}</div>
+            <div className="flex flex-wrap gap-2">
+              <select
+                className="border rounded-lg px-2 py-1 bg-white"
+                value={side.algorithm}
+                onChange={(e) => setSide(i as 0 | 1, { algorithm: e.target.value as Algorithm })}
+              >
+                {(Object.keys(algorithmLabels) as Algorithm[]).map((alg) => (
+                  <option key={alg} value={alg}>
+                    {algorithmLabels[alg]}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="border rounded-lg px-2 py-1 bg-white disabled:opacity-50"
+                value={side.visitedRule}
+                disabled={side.algorithm !== "bfs"}
+                title={side.algorithm !== "bfs" ? "Only plain BFS has this option" : undefined}
+                onChange={(e) => setSide(i as 0 | 1, { visitedRule: e.target.value as VisitedRule })}
+              >
+                {(Object.keys(visitedRuleLabels) as VisitedRule[]).map((r) => (
+                  <option key={r} value={r}>
+                    {visitedRuleLabels[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                className="border rounded-lg px-2 py-1 font-mono"
+                value={side.addText}
+                onChange={(e) => setSide(i as 0 | 1, { addText: e.target.value })}
+                placeholder="Extra words"
+              />
+              <input
+                className="border rounded-lg px-2 py-1 font-mono"
+                value={side.removeText}
+                onChange={(e) => setSide(i as 0 | 1, { removeText: e.target.value })}
+                placeholder="Words to leave out"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button className="px-3 py-1 rounded-xl border hover:bg-slate-100" onClick={() => setStep((s) => Math.max(0, s - 1))} disabled={step === 0}>
+          Step ◀
+        </button>
+        <button
+          className="px-3 py-1 rounded-xl border hover:bg-slate-100"
+          onClick={() => setStep((s) => Math.min(total - 1, s + 1))}
+          disabled={step >= total - 1}
+        >
+          Step ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, total - 1)}
+          value={step}
+          onChange={(e) => setStep(parseInt(e.target.value))}
+          className="flex-1 min-w-[8rem]"
+          aria-label="Comparison step"
+        />
+        <span className="text-slate-600">
+          Step {total ? step + 1 : 0} of {total}
+        </span>
+      </div>
+
+      {a.error || b.error ? (
+        <p className="text-sm text-red-600">Solver failed: {a.error ?? b.error}</p>
+      ) : !runs || !states || !diffs ? (
+        <p className="text-sm text-slate-500">Solving both runs…</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {([0, 1] as const).map((i) => (
+            <RunView
+              key={i}
+              name={sideNames[i]}
+              solution={runs[i]}
+              input={i === 0 ? inputA : inputB}
+              state={states[i]}
+              diff={diffs[i]}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RunView({ name, solution, input, state, diff }: { name: string; solution: LadderSolution; input: LadderInput; state: RunState; diff: RunDiff }) {
+  const { frames, backtrackFrames, pathCount } = solution;
+  const algorithm = input.algorithm ?? "bfs";
+  const canvas = useMemo(() => {
+    const { columns, forwardColumns, distances } = frameColumns(frames, state.frameIndex, {
+      begin: input.begin,
+      end: input.end,
+      algorithm,
+      keep: input.moves?.insertDelete ? undefined : (w) => w.length === input.begin.length,
+    });
+    const layout = computeLayout(columns, [], distances);
+    return { columns, forwardColumns, layout, edges: buildEdges(columns, state.parents, layout.pos, forwardColumns) };
+  }, [frames, state, input, algorithm]);
+  const onlyHere = useMemo(() => ({ words: new Set(diff.words), edges: diff.edges }), [diff]);
+
+  const phase = state.dfs
+    ? `backtracking step ${backtrackFrames.indexOf(state.dfs) + 1} of ${backtrackFrames.length}`
+    : frames.length
+      ? `level ${frames[state.frameIndex].level}`
+      : "no levels";
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="text-sm">
+        <span className="font-semibold">Run {name}</span> <span className="text-slate-500">· {phase}</span>
+        <div className="text-slate-600">
+          {state.visited.size.toLocaleString()} words visited · {state.paths.length.toLocaleString()} of {pathCount.toLocaleString()} shortest path
+          {pathCount === 1 ? "" : "s"} completed
+        </div>
+        <div className={diff.words.length || diff.edges.length || diff.paths.length ? "text-orange-700" : "text-slate-400"}>
+          Only in this run: {diff.words.length} words, {diff.edges.length} parent links, {diff.paths.length} paths
+        </div>
+      </div>
+      <Graph
+        columns={canvas.columns}
+        edges={canvas.edges}
+        layout={canvas.layout}
+        forwardColumns={canvas.forwardColumns}
+        beginWord={input.begin.toLowerCase()}
+        endWord={input.end.toLowerCase()}
+        solvedWords={new Set(state.paths.flat())}
+        meetingWords={new Set(frames[state.frameIndex]?.meeting)}
+        activePath={state.dfs?.path ?? []}
+        onlyHere={onlyHere}
+      />
+      {diff.paths.length > 0 && (
+        <ul className="text-xs font-mono space-y-0.5">
+          {diff.paths.slice(0, DIFF_PATHS_SHOWN).map((p) => (
+            <li key={p.join(">")} className="text-orange-700">
+              {p.join(" → ")}
+            </li>
+          ))}
+          {diff.paths.length > DIFF_PATHS_SHOWN && <li className="text-slate-500">+{diff.paths.length - DIFF_PATHS_SHOWN} more</li>}
+        </ul>
+      )}
+    </div>
+  );
+}
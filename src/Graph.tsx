@@ -0,0 +1,500 @@
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { edgePath, edgeStrokeFor, GraphEdge, GraphLayout, nodeKey, Point, wordOf } from "./layout";
+import type { CheckMarkKind, CheckMarks } from "./answerCheck";
+import { listWords } from "./narration";
+import type { ExpansionStep, ProbeKind } from "./solver";
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 2.5;
+const CULL_MARGIN = 120; // graph units rendered beyond each edge of the viewport
+const FOCUS_MARGIN = 40; // screen pixels; a focused word closer to the edge is panned to the centre
+
+type View = { x: number; y: number; scale: number }; // screen = graph * scale + (x, y)
+
+type Palette = "default" | "safe";
+type NodeTone = "active" | "expanding" | "meeting" | "source" | "backward" | "solution" | "visiting";
+
+// Node styles per palette; "safe" uses Okabe–Ito colors, which stay distinct with color vision deficiencies
+const nodeTones: Record<Palette, Record<NodeTone, string>> = {
+  default: {
+    active: "bg-fuchsia-100",
+    expanding: "bg-blue-100",
+    meeting: "bg-amber-50",
+    source: "border-sky-300 ring-1 ring-sky-200",
+    backward: "border-violet-300",
+    solution: "ring-2 ring-emerald-400",
+    visiting: "outline outline-2 outline-offset-2 outline-fuchsia-500",
+  },
+  safe: {
+    active: "bg-[#fbe1d2]",
+    expanding: "bg-[#d3e7f5]",
+    meeting: "bg-[#fcefcc]",
+    source: "border-2 border-[#E69F00]",
+    backward: "border-[#CC79A7]",
+    solution: "ring-2 ring-[#0072B2]",
+    visiting: "outline outline-2 outline-offset-2 outline-dashed outline-[#D55E00]",
+  },
+};
+
+// Shapes that mark node roles without relying on color, shown with the accessible palette
+export const nodeMarkers = {
+  source: { icon: "▶", label: "begin word" },
+  target: { icon: "⚑", label: "end word" },
+  solution: { icon: "★", label: "on a shortest path" },
+  visiting: { icon: "↩", label: "on the backtracking path" },
+} as const;
+
+const activePathColor: Record<Palette, string> = { default: "#c026d3", safe: "#D55E00" };
+
+const clampScale = (s: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, s));
+
+export default function Graph({
+  columns,
+  edges,
+  layout,
+  forwardColumns,
+  beginWord,
+  endWord,
+  solvedWords,
+  meetingWords,
+  activePath,
+  expanding,
+  unreachedColumn = -1,
+  marks,
+  pathsThrough,
+  critical,
+  onlyHere,
+  picked,
+  onWordClick,
+  accessible = false,
+}: {
+  columns: string[][];
+  edges: GraphEdge[];
+  layout: GraphLayout;
+  forwardColumns: number; // columns at or beyond this index were discovered from the end word
+  beginWord: string;
+  endWord: string;
+  solvedWords: Set<string>;
+  meetingWords: Set<string>;
+  activePath: string[]; // partial backtracking path, from endWord towards beginWord
+  expanding?: ExpansionStep; // node expansion to highlight in the fine-grained modes
+  unreachedColumn?: number; // column holding words the search hasn't discovered (full graph view)
+  marks?: CheckMarks; // steps and words flagged by the answer checker
+  pathsThrough?: Map<string, number>; // shortest paths through each word, shown on hover
+  critical?: { words: Set<string>; edges: Array<[string, string]> }; // on every shortest path
+  onlyHere?: { words: Set<string>; edges: Array<[string, string]> }; // missing from the run this one is compared with
+  picked?: Set<string>; // words the learner has picked in a lesson
+  onWordClick?: (word: string) => void; // set when clicking edits the graph; dragging then starts off the nodes
+  accessible?: boolean; // colorblind-safe palette and role markers
+}) {
+  const { pos: positions, badges, width, height, edgeStyle } = layout;
+
+  // ----- Zoom / pan -----
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const [viewport, setViewport] = useState({ width: 800, height: 0 });
+  const viewportHeight = Math.min(600, Math.max(300, height));
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const measure = () => setViewport({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+
+    // Zoom around the cursor; registered natively so the page doesn't scroll at the same time
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const cx = e.clientX - rect.left;
+      const cy = e.clientY - rect.top;
+      setView((v) => {
+        const scale = clampScale(v.scale * Math.exp(-e.deltaY * 0.0015));
+        const k = scale / v.scale;
+        return { scale, x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k };
+      });
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      el.removeEventListener("wheel", onWheel);
+    };
+  }, []);
+
+  const zoomBy = (factor: number) =>
+    setView((v) => {
+      const scale = clampScale(v.scale * factor);
+      const cx = viewport.width / 2;
+      const cy = viewport.height / 2;
+      return { scale, x: cx - (cx - v.x) * (scale / v.scale), y: cy - (cy - v.y) * (scale / v.scale) };
+    });
+  const fit = () => {
+    const scale = clampScale(Math.min(1, viewport.width / width, viewport.height / height));
+    setView({ scale, x: (viewport.width - width * scale) / 2, y: (viewport.height - height * scale) / 2 });
+  };
+
+  // Only render what intersects the viewport (in graph coordinates, with a margin)
+  const visible = {
+    left: -view.x / view.scale - CULL_MARGIN,
+    top: -view.y / view.scale - CULL_MARGIN,
+    right: (viewport.width - view.x) / view.scale + CULL_MARGIN,
+    bottom: ((viewport.height || viewportHeight) - view.y) / view.scale + CULL_MARGIN,
+  };
+  const inView = (p: Point) => p.x >= visible.left && p.x <= visible.right && p.y >= visible.top && p.y <= visible.bottom;
+  const edgeInView = (a: Point, b: Point) =>
+    Math.min(a.x, b.x) <= visible.right &&
+    Math.max(a.x, b.x) >= visible.left &&
+    Math.min(a.y, b.y) <= visible.bottom &&
+    Math.max(a.y, b.y) >= visible.top;
+
+  // ----- Highlights -----
+  // Parent -> child links along the partial backtracking path
+  const activeEdges = useMemo(() => {
+    const set = new Set<string>();
+    for (let i = 0; i + 1 < activePath.length; i++) set.add(`${activePath[i + 1]}>${activePath[i]}`);
+    return set;
+  }, [activePath]);
+  const visiting = new Set(activePath);
+  const activeWord = activePath[activePath.length - 1];
+
+  // Neighbor probes of the node being expanded, styled by how BFS treats each one
+  const probeKinds = new Map((expanding?.probes ?? []).map((p) => [p.word, p.kind] as const));
+  const wordPositions = useMemo(() => {
+    const map: Record<string, Point> = {};
+    columns.forEach((col, ci) => col.forEach((w) => (map[w] ||= positions[nodeKey(w, ci)])));
+    return map;
+  }, [columns, positions]);
+
+  // ----- Palette and role markers -----
+  const palette: Palette = accessible ? "safe" : "default";
+  const tones = nodeTones[palette];
+  const nodeLabel = (w: string, ci: number) => {
+    if (!accessible) return w;
+    const icons = [
+      ci === 0 && w === beginWord && nodeMarkers.source.icon,
+      w === endWord && nodeMarkers.target.icon,
+      solvedWords.has(w) && nodeMarkers.solution.icon,
+      visiting.has(w) && nodeMarkers.visiting.icon,
+    ]
+      .filter(Boolean)
+      .join("");
+    if (!icons) return w;
+    return (
+      <>
+        <span aria-hidden="true" className="mr-1">
+          {icons}
+        </span>
+        {w}
+      </>
+    );
+  };
+
+  // ----- Keyboard navigation -----
+  // Arrow keys walk the drawn edges (left/right) and the words of a column (up/down); the focused
+  // word is described in a live region since the node layer itself is hidden from screen readers.
+  const [focusKey, setFocusKey] = useState<string | null>(null);
+  const nodeIndex = useMemo(() => {
+    const map = new Map<string, { column: number; row: number }>();
+    columns.forEach((col, column) => col.forEach((w, row) => map.set(nodeKey(w, column), { column, row })));
+    return map;
+  }, [columns]);
+  const links = useMemo(() => {
+    const map = new Map<string, string[]>();
+    const link = (a: string, b: string) => map.set(a, [...(map.get(a) ?? []), b]);
+    for (const e of edges) {
+      link(e.from.key, e.to.key);
+      link(e.to.key, e.from.key);
+    }
+    return map;
+  }, [edges]);
+  const focused = focusKey && nodeIndex.has(focusKey) && positions[focusKey] ? focusKey : null;
+
+  const moveFocus = (key: string | undefined) => {
+    const p = key && positions[key];
+    if (!key || !p) return;
+    setFocusKey(key);
+    const sx = p.x * view.scale + view.x;
+    const sy = p.y * view.scale + view.y;
+    const vh = viewport.height || viewportHeight;
+    if (sx < FOCUS_MARGIN || sx > viewport.width - FOCUS_MARGIN || sy < FOCUS_MARGIN || sy > vh - FOCUS_MARGIN) {
+      setView((v) => ({ ...v, x: viewport.width / 2 - p.x * v.scale, y: vh / 2 - p.y * v.scale }));
+    }
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey || e.target !== e.currentTarget) return;
+    const endColumn = columns.map((col) => col.includes(endWord)).lastIndexOf(true);
+    const jumps: Record<string, string | undefined> = {
+      Home: nodeKey(beginWord, 0),
+      End: endColumn >= 0 ? nodeKey(endWord, endColumn) : undefined,
+    };
+    if (e.key in jumps) {
+      moveFocus(jumps[e.key]);
+    } else if (e.key.startsWith("Arrow")) {
+      if (!focused) moveFocus(jumps.Home);
+      else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        const from = positions[focused];
+        const sign = e.key === "ArrowLeft" ? -1 : 1;
+        const next = (links.get(focused) ?? [])
+          .filter((k) => positions[k] && (positions[k].x - from.x) * sign > 0)
+          .sort((a, b) => Math.abs(positions[a].y - from.y) - Math.abs(positions[b].y - from.y))[0];
+        moveFocus(next);
+      } else {
+        const { column, row } = nodeIndex.get(focused)!;
+        const w = columns[column][row + (e.key === "ArrowUp" ? -1 : 1)];
+        if (w !== undefined) moveFocus(nodeKey(w, column));
+      }
+    } else if ((e.key === "Enter" || e.key === " ") && focused && onWordClick) {
+      onWordClick(wordOf(focused));
+    } else return;
+    e.preventDefault();
+  };
+
+  let focusText = "";
+  if (focused) {
+    const { column, row } = nodeIndex.get(focused)!;
+    const w = wordOf(focused);
+    const roles = [
+      column === 0 && w === beginWord && nodeMarkers.source.label,
+      w === endWord && nodeMarkers.target.label,
+      solvedWords.has(w) && nodeMarkers.solution.label,
+      visiting.has(w) && nodeMarkers.visiting.label,
+      column === unreachedColumn && "not discovered",
+    ].filter(Boolean);
+    const x = positions[focused].x;
+    const linked = (keep: (dx: number) => boolean) =>
+      listWords((links.get(focused) ?? []).filter((k) => positions[k] && keep(positions[k].x - x)).map(wordOf));
+    const paths = pathsThrough?.get(w) ?? 0;
+    focusText = [
+      `${w}${roles.length ? `, ${roles.join(", ")}` : ""}.`,
+      `Column ${column + 1} of ${columns.length}, word ${row + 1} of ${columns[column].length}.`,
+      `Links left: ${linked((dx) => dx < 0)}. Links right: ${linked((dx) => dx > 0)}.`,
+      pathsThrough ? `${paths.toLocaleString()} shortest path${paths === 1 ? "" : "s"} through this word.` : "",
+    ].join(" ");
+  }
+
+  const totalNodes = columns.reduce((n, col) => n + col.length, 0);
+  let renderedNodes = 0;
+  const nodeElements = columns.flatMap((col, ci) =>
+    col.map((w) => {
+      const key = nodeKey(w, ci);
+      const p = positions[key];
+      if (!p || !inView(p)) return null;
+      renderedNodes++;
+      const isSource = ci === 0 && w === beginWord;
+      const isTarget = w === endWord;
+      const inSolution = solvedWords.has(w);
+      const isUnreached = ci === unreachedColumn;
+      const isBackward = ci >= forwardColumns && !isUnreached;
+      return (
+        <div
+          key={key}
+          className={[
+            nodeBoxClass,
+            "shadow-sm",
+            w === activeWord ? tones.active : w === expanding?.node ? tones.expanding : meetingWords.has(w) ? tones.meeting : "bg-white",
+            isSource ? tones.source : isBackward ? tones.backward : "border-slate-200",
+            isUnreached && !isTarget ? "border-dashed text-slate-400" : "",
+            isTarget ? "font-semibold" : "",
+            inSolution ? tones.solution : "",
+            visiting.has(w) ? tones.visiting : "",
+            probeKinds.has(w) ? probeNodeClass[probeKinds.get(w)!] : "",
+            marks?.words.has(w) ? markNodeClass[marks.words.get(w)!] : "",
+            critical?.words.has(w) ? "underline decoration-rose-500 decoration-2 underline-offset-2" : "",
+            picked?.has(w) ? "ring-2 ring-yellow-400" : "",
+            onlyHere?.words.has(w) ? "underline decoration-wavy decoration-orange-500 decoration-2 underline-offset-4" : "",
+            onWordClick && !isSource && !isTarget ? "cursor-pointer hover:border-red-400" : "",
+          ].join(" ")}
+          style={{ left: p.x, top: p.y }}
+          data-word={w}
+          onClick={onWordClick && (() => onWordClick(w))}
+          title={pathsThrough ? `${w}: ${(pathsThrough.get(w) ?? 0).toLocaleString()} shortest path${pathsThrough.get(w) === 1 ? "" : "s"} through this word` : w}
+        >
+          {nodeLabel(w, ci)}
+        </div>
+      );
+    })
+  );
+
+  return (
+    <div
+      ref={viewportRef}
+      className="relative w-full overflow-hidden rounded-xl border bg-slate-50/50 cursor-grab active:cursor-grabbing touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-900"
+      style={{ height: viewportHeight }}
+      tabIndex={0}
+      role="application"
+      aria-roledescription="word graph"
+      aria-label={`Word graph from ${beginWord} to ${endWord}. Arrow keys move between linked words, Home and End jump to the begin and end words${onWordClick ? ", Enter picks the focused word" : ""}.`}
+      onKeyDown={onKeyDown}
+      onPointerDown={(e) => {
+        if ((e.target as HTMLElement).closest(onWordClick ? "button, [data-word]" : "button")) return;
+        drag.current = { x: e.clientX, y: e.clientY };
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }}
+      onPointerMove={(e) => {
+        const start = drag.current;
+        if (!start) return;
+        drag.current = { x: e.clientX, y: e.clientY };
+        setView((v) => ({ ...v, x: v.x + e.clientX - start.x, y: v.y + e.clientY - start.y }));
+      }}
+      onPointerUp={() => (drag.current = null)}
+      onPointerCancel={() => (drag.current = null)}
+    >
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{ width, height, transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        aria-hidden="true"
+      >
+        <svg width={width} height={height} className="block">
+          {/* Critical links, shaded under the edges */}
+          {critical?.edges.map(([a, b]) => {
+            const from = wordPositions[a];
+            const to = wordPositions[b];
+            if (!from || !to || !edgeInView(from, to)) return null;
+            return <line key={`critical:${a}>${b}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#f43f5e" strokeWidth={8} strokeOpacity={0.3} />;
+          })}
+          {onlyHere?.edges.map(([a, b]) => {
+            const from = wordPositions[a];
+            const to = wordPositions[b];
+            if (!from || !to || !edgeInView(from, to)) return null;
+            return <line key={`only:${a}>${b}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#f97316" strokeWidth={8} strokeOpacity={0.35} />;
+          })}
+          {/* Edges */}
+          {edges.map((e) => {
+            if (!edgeInView(e.from, e.to)) return null;
+            const key = `${e.from.key}>${e.to.key}`;
+            const path = edgePath(e.from, e.to, edgeStyle);
+            if (activeEdges.has(`${wordOf(e.from.key)}>${wordOf(e.to.key)}`)) {
+              return <path key={key} d={path} stroke={activePathColor[palette]} strokeWidth={3} fill="none" />;
+            }
+            const style = edgeStrokeFor(e.kind, accessible);
+            return <path key={key} d={path} stroke={style.color} strokeWidth={style.width} strokeDasharray={style.dash} fill="none" />;
+          })}
+          {/* Probes from the node being expanded */}
+          {expanding &&
+            expanding.probes.map((p) => {
+              const from = wordPositions[expanding.node];
+              const to = wordPositions[p.word];
+              if (!from || !to) return null;
+              const style = probeStroke[p.kind];
+              return (
+                <line
+                  key={p.word}
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  stroke={accessible ? safeProbeColors[p.kind] : style.color}
+                  strokeWidth={2}
+                  strokeDasharray={style.dash}
+                />
+              );
+            })}
+          {/* Answer checker marks, drawn straight between words since they needn't follow a graph edge */}
+          {marks?.edges.map((m) => {
+            const from = wordPositions[m.from];
+            const to = wordPositions[m.to];
+            if (!from || !to || !edgeInView(from, to)) return null;
+            const style = markStroke[m.kind];
+            return (
+              <line
+                key={`mark:${m.from}>${m.to}`}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke={style.color}
+                strokeWidth={style.width}
+                strokeDasharray={style.dash}
+                strokeOpacity={0.85}
+              />
+            );
+          })}
+        </svg>
+        {/* Nodes on top for readability */}
+        {nodeElements}
+        {badges.map(
+          (b) =>
+            inView(b) && (
+              <div
+                key={`badge@${b.column}`}
+                className="absolute -translate-x-1/2 -translate-y-1/2 px-3 py-1 rounded-xl border border-dashed border-slate-300 bg-slate-50 text-xs text-slate-500 whitespace-nowrap"
+                style={{ left: b.x, top: b.y }}
+                title={`${b.count} words in this level are not on any shortest path`}
+              >
+                +{b.count.toLocaleString()} more
+              </div>
+            )
+        )}
+        {/* Keyboard focus, drawn as its own box so it doesn't fight the node's outline and ring styles */}
+        {focused && (
+          <div
+            className={[nodeBoxClass, "pointer-events-none border-transparent text-transparent outline outline-[3px] outline-offset-4 outline-slate-900", wordOf(focused) === endWord ? "font-semibold" : ""].join(" ")}
+            style={{ left: positions[focused].x, top: positions[focused].y }}
+          >
+            {nodeLabel(wordOf(focused), nodeIndex.get(focused)!.column)}
+          </div>
+        )}
+      </div>
+      <div className="sr-only" aria-live="polite">
+        {focusText}
+      </div>
+
+      {/* Zoom controls */}
+      <div className="absolute right-2 top-2 flex items-center gap-1 text-xs">
+        <span className="px-2 py-1 rounded-lg bg-white/80 border text-slate-500">
+          {Math.round(view.scale * 100)}% · {renderedNodes.toLocaleString()}/{totalNodes.toLocaleString()} nodes drawn
+        </span>
+        <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={() => zoomBy(1 / 1.25)} title="Zoom out">
+          −
+        </button>
+        <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={() => zoomBy(1.25)} title="Zoom in">
+          +
+        </button>
+        <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={fit}>
+          Fit
+        </button>
+        <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={() => setView({ x: 0, y: 0, scale: 1 })}>
+          100%
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const nodeBoxClass = "absolute -translate-x-1/2 -translate-y-1/2 px-3 py-1 rounded-xl border text-sm whitespace-nowrap";
+
+const probeStroke: Record<ProbeKind, { color: string; dash?: string }> = {
+  discovered: { color: "#2563eb" },
+  "extra-parent": { color: "#6366f1", dash: "6 3" },
+  skipped: { color: "#cbd5e1", dash: "2 4" },
+  meet: { color: "#f59e0b" },
+};
+
+const safeProbeColors: Record<ProbeKind, string> = {
+  discovered: "#0072B2",
+  "extra-parent": "#CC79A7",
+  skipped: "#cbd5e1",
+  meet: "#E69F00",
+};
+
+const probeNodeClass: Record<ProbeKind, string> = {
+  discovered: "outline outline-2 outline-offset-2 outline-blue-500",
+  "extra-parent": "outline outline-2 outline-offset-2 outline-dashed outline-indigo-500",
+  skipped: "opacity-50 line-through",
+  meet: "outline outline-2 outline-offset-2 outline-amber-500",
+};
+
+export const markStroke: Record<CheckMarkKind, { color: string; width: number; dash?: string }> = {
+  error: { color: "#dc2626", width: 3.5 },
+  extra: { color: "#ea580c", width: 3, dash: "7 4" },
+  missing: { color: "#0284c7", width: 3, dash: "2 4" },
+};
+
+const markNodeClass: Record<CheckMarkKind, string> = {
+  error: "outline outline-2 outline-offset-2 outline-red-600 bg-red-50",
+  extra: "outline outline-2 outline-offset-2 outline-dashed outline-orange-500",
+  missing: "outline outline-2 outline-offset-2 outline-dotted outline-sky-600",
+};
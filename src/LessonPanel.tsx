@@ -0,0 +1,120 @@
+import type { LessonSession } from "./useLesson";
+
+// Asks the current lesson question above the graph; picks are made by clicking words on the graph
+export default function LessonPanel({
+  name,
+  session,
+  inSync,
+  onRestart,
+  onExit,
+}: {
+  name: string;
+  session: LessonSession;
+  inSync: boolean; // the inputs and playback mode are still the lesson's
+  onRestart: () => void;
+  onExit: () => void;
+}) {
+  const { lesson, questions, index, current, feedback, picks, score } = session;
+  const answered = feedback ? index + 1 : index;
+
+  return (
+    <section className="bg-white rounded-2xl shadow border border-emerald-200 p-4 md:p-6 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">🎓 Lesson: {name}</h2>
+        <div className="flex items-center gap-2 text-sm">
+          {questions.length > 0 && (
+            <span className="text-slate-600">
+              Score: <span className="font-semibold">{score}</span> / {answered}
+            </span>
+          )}
+          <button className="px-3 py-1 rounded-xl border hover:bg-slate-100" onClick={onRestart}>
+            Restart
+          </button>
+          <button className="px-3 py-1 rounded-xl border hover:bg-slate-100" onClick={onExit}>
+            Exit
+          </button>
+        </div>
+      </div>
+      {lesson && index === 0 && !feedback && <p className="text-sm text-slate-600">{lesson.intro}</p>}
+      {session.error && <p className="text-sm text-red-600">{session.error}</p>}
+      {!inSync && !session.finished && (
+        <p className="text-sm text-amber-700">The inputs or playback options changed since this lesson started. Restart it to carry on.</p>
+      )}
+
+      {current && inSync && (
+        <div className="space-y-2 text-sm">
+          <div className="text-xs text-slate-500">
+            Question {index + 1} of {questions.length}
+          </div>
+          <p className="font-medium">{current.prompt}</p>
+          {Array.isArray(current.answer) ? (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-slate-500">Picked:</span>
+              {picks.length ? (
+                picks.map((w) => (
+                  <button
+                    key={w}
+                    className="px-2 py-0.5 rounded-lg border border-yellow-400 bg-yellow-50 font-mono disabled:opacity-70"
+                    onClick={() => session.togglePick(w)}
+                    disabled={!session.picking}
+                    title="Click to unpick"
+                  >
+                    {w}
+                  </button>
+                ))
+              ) : (
+                <span className="text-slate-400">click words on the graph below</span>
+              )}
+            </div>
+          ) : (
+            <input
+              type="number"
+              min={0}
+              className="w-32 border rounded-lg px-2 py-1"
+              value={session.countText}
+              disabled={!!feedback}
+              onChange={(e) => session.setCountText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && session.submit()}
+              aria-label="Number of shortest paths"
+            />
+          )}
+
+          {feedback ? (
+            <div className={["rounded-xl border px-3 py-2 space-y-1", feedback.correct ? "border-emerald-300 bg-emerald-50" : "border-red-300 bg-red-50"].join(" ")}>
+              <div className="font-semibold">{feedback.correct ? "✓ Correct" : "✗ Not quite"}</div>
+              {!feedback.correct &&
+                (Array.isArray(current.answer) ? (
+                  <div>
+                    {feedback.missing.length > 0 && <div>Missed: {feedback.missing.join(", ")}</div>}
+                    {feedback.extra.length > 0 && <div>Not in the answer: {feedback.extra.join(", ")}</div>}
+                    <div>Answer: {current.answer.join(", ") || "none"}</div>
+                  </div>
+                ) : (
+                  <div>The answer is {current.answer.toLocaleString()}.</div>
+                ))}
+              {current.question.explanation && <p className="text-slate-700">{current.question.explanation}</p>}
+              <button className="px-3 py-1 rounded-xl bg-slate-900 text-white hover:bg-slate-800" onClick={session.next}>
+                {index + 1 < questions.length ? "Next question" : "See my score"}
+              </button>
+            </div>
+          ) : (
+            <button
+              className="px-3 py-1 rounded-xl bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+              onClick={session.submit}
+              disabled={!Array.isArray(current.answer) && !session.countText.trim()}
+            >
+              Check
+            </button>
+          )}
+        </div>
+      )}
+
+      {session.finished && (
+        <p className="text-sm">
+          Lesson complete: <span className="font-semibold">{score}</span> of {questions.length} correct.
+          {score === questions.length ? " Well done!" : " Restart to try the questions again."}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,234 @@
+import { useRef, useState } from "react";
+import { LibraryExample, parseTags, serializeLibrary } from "./exampleLibrary";
+import type { WordLadderExample } from "./examples";
+import { downloadFile } from "./exportFormats";
+import type { ExampleLibrary } from "./useExampleLibrary";
+
+type Draft = { name: string; description: string; tags: string; replaceWords: boolean };
+
+const inputClass = "w-full border rounded-lg px-2 py-1 text-sm bg-white";
+
+// "My Examples": saves the current inputs, and lists, edits, tags, imports and exports the user's library
+export default function LibraryPanel({
+  library,
+  current,
+  onLoad,
+}: {
+  library: ExampleLibrary;
+  current: { begin: string; end: string; words: string[] };
+  onLoad: (example: WordLadderExample) => void;
+}) {
+  const [saving, setSaving] = useState<Draft | null>(null);
+  const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const { examples } = library;
+  const tags = Array.from(new Set(examples.flatMap((e) => e.tags))).sort();
+  const shown = tagFilter && tags.includes(tagFilter) ? examples.filter((e) => e.tags.includes(tagFilter)) : examples;
+
+  const startSaving = () =>
+    setSaving({ name: `${current.begin} → ${current.end}`, description: "", tags: "", replaceWords: false });
+
+  const saveCurrent = (draft: Draft) => {
+    if (!draft.name.trim()) return;
+    library.add({ ...current, name: draft.name.trim(), description: draft.description.trim(), tags: parseTags(draft.tags) });
+    setSaving(null);
+  };
+
+  const saveEdit = (example: LibraryExample, draft: Draft) => {
+    if (!draft.name.trim()) return;
+    library.update(example.id, {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tags: parseTags(draft.tags),
+      ...(draft.replaceWords ? current : {}),
+    });
+    setEditing(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const count = library.importText(await file.text());
+      setNotice({ text: `Imported ${count} example${count === 1 ? "" : "s"} from ${file.name}.`, error: false });
+    } catch (err) {
+      setNotice({ text: `Can't import ${file.name}: ${(err as Error).message}`, error: true });
+    }
+  };
+
+  const remove = (example: LibraryExample) => {
+    if (window.confirm(`Delete "${example.name}" from your examples?`)) library.remove(example.id);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-blue-100 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-sm text-slate-800">⭐ My Examples ({examples.length})</h3>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={startSaving}>
+            Save current inputs
+          </button>
+          <button className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100" onClick={() => fileRef.current?.click()}>
+            Import…
+          </button>
+          <button
+            className="px-2 py-1 rounded-lg border bg-white hover:bg-slate-100 disabled:opacity-50"
+            disabled={!examples.length}
+            onClick={() => downloadFile("word-ladder-examples.json", serializeLibrary(examples), "application/json")}
+            title="Download the whole library as a JSON file"
+          >
+            Export
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+      {library.error && <p className="text-sm text-red-600">{library.error}</p>}
+      {notice && <p className={["text-sm", notice.error ? "text-red-600" : "text-slate-600"].join(" ")}>{notice.text}</p>}
+
+      {saving && (
+        <DraftForm
+          draft={saving}
+          onChange={setSaving}
+          onSubmit={() => saveCurrent(saving)}
+          onCancel={() => setSaving(null)}
+          submitLabel={`Save (${current.words.length} words)`}
+        />
+      )}
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <span className="text-slate-500">Tags:</span>
+          {[null, ...tags].map((t) => (
+            <button
+              key={t ?? ""}
+              className={["px-2 py-0.5 rounded-full border", t === tagFilter ? "bg-indigo-600 text-white border-indigo-600" : "bg-white hover:bg-slate-100"].join(" ")}
+              onClick={() => setTagFilter(t)}
+            >
+              {t ?? "all"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {examples.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Nothing saved yet. Save the current inputs, clone a built-in example or save a generated puzzle; your examples are kept in this
+          browser.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {shown.map((example) =>
+            editing?.id === example.id ? (
+              <DraftForm
+                key={example.id}
+                draft={editing.draft}
+                onChange={(draft) => setEditing({ id: example.id, draft })}
+                onSubmit={() => saveEdit(example, editing.draft)}
+                onCancel={() => setEditing(null)}
+                submitLabel="Save changes"
+                canReplaceWords
+              />
+            ) : (
+              <div key={example.id} className="bg-white border border-indigo-200 rounded-xl p-3 text-left flex flex-col gap-1">
+                <button className="text-left group" onClick={() => onLoad(example)}>
+                  <div className="font-semibold text-sm text-slate-800 group-hover:text-blue-600">{example.name}</div>
+                  {example.description && <div className="text-xs text-slate-500 line-clamp-2">{example.description}</div>}
+                  <div className="text-xs text-slate-400 mt-1 font-mono">
+                    {example.begin} → {example.end} · {example.words.length} words
+                  </div>
+                </button>
+                <div className="flex flex-wrap items-center gap-1 text-[11px]">
+                  {example.tags.map((t) => (
+                    <span key={t} className="px-1.5 rounded-full bg-indigo-50 text-indigo-700">
+                      {t}
+                    </span>
+                  ))}
+                  <span className="flex-1" />
+                  <button
+                    className="px-1.5 py-0.5 rounded border hover:bg-slate-100"
+                    onClick={() =>
+                      setEditing({
+                        id: example.id,
+                        draft: { name: example.name, description: example.description, tags: example.tags.join(", "), replaceWords: false },
+                      })
+                    }
+                  >
+                    Edit
+                  </button>
+                  <button className="px-1.5 py-0.5 rounded border text-red-700 hover:bg-red-50" onClick={() => remove(example)}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DraftForm({
+  draft,
+  onChange,
+  onSubmit,
+  onCancel,
+  submitLabel,
+  canReplaceWords = false,
+}: {
+  draft: Draft;
+  onChange: (draft: Draft) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  submitLabel: string;
+  canReplaceWords?: boolean;
+}) {
+  return (
+    <form
+      className="bg-white border rounded-xl p-3 space-y-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+    >
+      <input className={inputClass} value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="Name" />
+      <input
+        className={inputClass}
+        value={draft.description}
+        onChange={(e) => onChange({ ...draft, description: e.target.value })}
+        placeholder="Description"
+      />
+      <input
+        className={inputClass}
+        value={draft.tags}
+        onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+        placeholder="Tags, comma separated"
+      />
+      {canReplaceWords && (
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={draft.replaceWords} onChange={(e) => onChange({ ...draft, replaceWords: e.target.checked })} />
+          Replace its words with the current inputs
+        </label>
+      )}
+      <div className="flex gap-2 text-xs">
+        <button type="submit" className="px-2 py-1 rounded-lg bg-slate-900 text-white hover:bg-slate-700 disabled:opacity-50" disabled={!draft.name.trim()}>
+          {submitLabel}
+        </button>
+        <button type="button" className="px-2 py-1 rounded-lg border hover:bg-slate-100" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import type { WordLadderExample } from "./examples";
+import type { PuzzleRequest, PuzzleResponse } from "./puzzle.worker";
+import { Difficulty, DIFFICULTY_PRESETS, GeneratedPuzzle, generatePuzzle, MAX_PUZZLE_PATHS, MAX_PUZZLE_WORDS, PuzzleSpec } from "./puzzleGenerator";
+
+const difficultyLabels: Record<Difficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+type Field = { key: keyof Omit<PuzzleSpec, "seed">; label: string; min: number; max: number };
+
+const fields: Field[] = [
+  { key: "wordLength", label: "Word length", min: 2, max: 8 },
+  { key: "ladderLength", label: "Ladder length (words)", min: 2, max: 16 },
+  { key: "paths", label: "Shortest paths", min: 1, max: MAX_PUZZLE_PATHS },
+  { key: "dictionarySize", label: "Dictionary size", min: 1, max: MAX_PUZZLE_WORDS },
+];
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+// Generates reproducible puzzles in a worker; the parent loads them or keeps them next to the built-in examples
+export default function PuzzlePanel({
+  onLoad,
+  onSave,
+}: {
+  onLoad: (example: WordLadderExample) => void;
+  onSave: (example: WordLadderExample) => void;
+}) {
+  const [spec, setSpec] = useState<PuzzleSpec>({ ...DIFFICULTY_PRESETS.medium, seed: 1 });
+  const [puzzle, setPuzzle] = useState<GeneratedPuzzle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setGenerating(false);
+  };
+  useEffect(() => stop, []);
+
+  const preset = (Object.keys(DIFFICULTY_PRESETS) as Difficulty[]).find((d) =>
+    fields.every((f) => DIFFICULTY_PRESETS[d][f.key] === spec[f.key])
+  );
+
+  const finish = (msg: PuzzleResponse) => {
+    if (msg.type === "done") {
+      setPuzzle(msg.puzzle);
+      setError(null);
+      onLoad(msg.puzzle);
+    } else {
+      setPuzzle(null);
+      setError(msg.message);
+    }
+  };
+
+  const generate = (next: PuzzleSpec) => {
+    stop();
+    setSpec(next);
+    setSaved(false);
+    // Without worker support (e.g. some test environments) generate inline
+    if (typeof Worker === "undefined") {
+      try {
+        finish({ type: "done", puzzle: generatePuzzle(next) });
+      } catch (err) {
+        finish({ type: "error", message: (err as Error).message });
+      }
+      return;
+    }
+    const worker = new Worker(new URL("./puzzle.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<PuzzleResponse>) => {
+      if (workerRef.current !== worker) return;
+      stop();
+      finish(e.data);
+    };
+    setGenerating(true);
+    worker.postMessage({ spec: next } satisfies PuzzleRequest);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-blue-100 space-y-3">
+      <h3 className="font-semibold text-sm text-slate-800">🎲 Generate a Puzzle</h3>
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <div>
+          <label className="text-xs block mb-1 text-slate-600">Difficulty</label>
+          <select
+            className="border rounded-xl px-3 py-2 bg-white text-sm"
+            value={preset ?? "custom"}
+            onChange={(e) => {
+              const d = e.target.value as Difficulty | "custom";
+              if (d !== "custom") setSpec({ ...DIFFICULTY_PRESETS[d], seed: spec.seed });
+            }}
+          >
+            {(Object.keys(difficultyLabels) as Difficulty[]).map((d) => (
+              <option key={d} value={d}>
+                {difficultyLabels[d]}
+              </option>
+            ))}
+            <option value="custom" disabled>
+              Custom
+            </option>
+          </select>
+        </div>
+        {fields.map((f) => (
+          <div key={f.key}>
+            <label className="text-xs block mb-1 text-slate-600">{f.label}</label>
+            <input
+              type="number"
+              className="w-24 border rounded-xl px-3 py-2 bg-white"
+              min={f.min}
+              max={f.max}
+              value={spec[f.key]}
+              onChange={(e) => setSpec({ ...spec, [f.key]: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="text-xs block mb-1 text-slate-600">Seed</label>
+          <input
+            type="number"
+            className="w-28 border rounded-xl px-3 py-2 bg-white font-mono"
+            value={spec.seed}
+            onChange={(e) => setSpec({ ...spec, seed: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <button
+          className="px-3 py-2 rounded-xl bg-slate-900 text-white hover:bg-slate-700 disabled:opacity-50"
+          onClick={() => generate(spec)}
+          disabled={generating}
+        >
+          {generating ? "Generating…" : "Generate"}
+        </button>
+        <button
+          className="px-3 py-2 rounded-xl border bg-white hover:bg-slate-100 disabled:opacity-50"
+          onClick={() => generate({ ...spec, seed: randomSeed() })}
+          disabled={generating}
+          title="Generate with a new random seed"
+        >
+          New seed
+        </button>
+        {generating && (
+          <button className="px-3 py-2 rounded-xl border bg-white hover:bg-slate-100" onClick={stop}>
+            Cancel
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">Can't generate this puzzle: {error}</p>}
+      {puzzle && (
+        <div className="flex flex-wrap items-center gap-3 text-sm bg-white rounded-xl border p-3">
+          <div className="flex-1 min-w-[12rem]">
+            <div className="font-semibold text-slate-800">{puzzle.name}</div>
+            <div className="text-xs text-slate-500">{puzzle.description}</div>
+          </div>
+          <button className="px-3 py-1.5 rounded-xl border hover:bg-slate-100" onClick={() => onLoad(puzzle)}>
+            Load again
+          </button>
+          <button
+            className="px-3 py-1.5 rounded-xl border hover:bg-slate-100 disabled:opacity-50"
+            disabled={saved}
+            onClick={() => {
+              onSave({ name: puzzle.name, begin: puzzle.begin, end: puzzle.end, words: puzzle.words, description: puzzle.description });
+              setSaved(true);
+            }}
+          >
+            {saved ? "Saved to examples" : "Save as example"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useMemo } from "react";
+import type { BFSFrame, DFSFrame, ExpansionStep, Granularity } from "./solver";
+import { adjacentEvent, frameStartSteps, frameStats, timelineEvents, TimelineEventKind } from "./timeline";
+
+const eventLabels: Record<TimelineEventKind, string> = {
+  "target-found": "Target found",
+  "largest-frontier": "Largest frontier",
+  "backtrack-start": "Backtracking starts",
+  "first-path": "First path completed",
+  "last-path": "Last path completed",
+};
+
+const eventColors: Record<TimelineEventKind, string> = {
+  "target-found": "#f59e0b",
+  "largest-frontier": "#0ea5e9",
+  "backtrack-start": "#c026d3",
+  "first-path": "#16a34a",
+  "last-path": "#15803d",
+};
+
+const CHART_HEIGHT = 48;
+
+const shortcuts: Array<[string, string]> = [
+  ["Space", "play / pause"],
+  ["← →", "step"],
+  ["Shift+← →", "10 steps"],
+  ["PgUp PgDn", "previous / next level"],
+  ["[ ]", "previous / next event"],
+  ["Home End", "first / last step"],
+];
+
+// Scrubber over the whole playback: event markers, a per-level chart of frontier size and visited words,
+// and keyboard shortcuts for stepping and seeking
+export default function TimelinePanel({
+  step,
+  totalSteps,
+  frames,
+  expansionSteps,
+  backtrackFrames,
+  granularity,
+  end,
+  onSeek,
+  onTogglePlay,
+}: {
+  step: number;
+  totalSteps: number;
+  frames: BFSFrame[];
+  expansionSteps: ExpansionStep[];
+  backtrackFrames: DFSFrame[];
+  granularity: Granularity;
+  end: string;
+  onSeek: (step: number) => void;
+  onTogglePlay: () => void;
+}) {
+  const bfsSteps = granularity === "level" ? frames.length : expansionSteps.length;
+  const starts = useMemo(() => frameStartSteps({ frames, expansionSteps, granularity }), [frames, expansionSteps, granularity]);
+  const stats = useMemo(() => frameStats(frames), [frames]);
+  const events = useMemo(
+    () => timelineEvents({ frames, expansionSteps, backtrackFrames, granularity, end: end.toLowerCase() }),
+    [frames, expansionSteps, backtrackFrames, granularity, end]
+  );
+
+  const last = Math.max(0, totalSteps - 1);
+  const seek = (s: number | null) => {
+    if (s !== null) onSeek(Math.max(0, Math.min(last, s)));
+  };
+
+  // Level boundaries, plus the start of backtracking
+  const sections = backtrackFrames.length ? [...starts, bfsSteps] : starts;
+
+  useEffect(() => {
+    if (!totalSteps) return;
+    const onKey = (e: KeyboardEvent) => {
+      // Skip keys already handled, e.g. arrows moving the focus around the graph
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select") || target.isContentEditable) return;
+      switch (e.key) {
+        case " ":
+          // A focused button handles Space itself
+          if (target.closest("button")) return;
+          onTogglePlay();
+          break;
+        case "ArrowLeft":
+          seek(step - (e.shiftKey ? 10 : 1));
+          break;
+        case "ArrowRight":
+          seek(step + (e.shiftKey ? 10 : 1));
+          break;
+        case "Home":
+          seek(0);
+          break;
+        case "End":
+          seek(last);
+          break;
+        case "PageUp":
+          seek(Math.max(0, ...sections.filter((s) => s < step)));
+          break;
+        case "PageDown":
+          seek(Math.min(last, ...sections.filter((s) => s > step)));
+          break;
+        case "[":
+          seek(adjacentEvent(events, step, -1));
+          break;
+        case "]":
+          seek(adjacentEvent(events, step, 1));
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  if (!totalSteps) return null;
+
+  // The chart spans one unit per step, so level bars line up with the scrubber below
+  const maxFrontier = Math.max(1, ...stats.map((s) => s.frontier));
+  const maxVisited = Math.max(1, ...stats.map((s) => s.visited));
+  const frameEnd = (i: number) => (i + 1 < starts.length ? starts[i + 1] : bfsSteps);
+  const y = (v: number, max: number) => CHART_HEIGHT - (v / max) * (CHART_HEIGHT - 4);
+  const visitedLine = stats
+    .flatMap((s, i) => [`${starts[i]},${y(s.visited, maxVisited)}`, `${frameEnd(i)},${y(s.visited, maxVisited)}`])
+    .join(" ");
+  const percent = (s: number) => `${((s + 0.5) / totalSteps) * 100}%`;
+
+  return (
+    <section className="bg-white rounded-2xl shadow border p-4 md:p-6 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-semibold">Timeline</h2>
+        <span className="text-sm text-slate-600">
+          Step {(step + 1).toLocaleString()} of {totalSteps.toLocaleString()}
+        </span>
+      </div>
+
+      <div>
+        <svg
+          width="100%"
+          height={CHART_HEIGHT}
+          viewBox={`0 0 ${totalSteps} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="block cursor-pointer"
+          onClick={(e) => {
+            const box = e.currentTarget.getBoundingClientRect();
+            seek(Math.floor(((e.clientX - box.left) / box.width) * totalSteps));
+          }}
+        >
+          {backtrackFrames.length > 0 && <rect x={bfsSteps} y={0} width={totalSteps - bfsSteps} height={CHART_HEIGHT} fill="#fdf4ff" />}
+          {stats.map((s, i) => (
+            <rect
+              key={i}
+              x={starts[i]}
+              y={y(s.frontier, maxFrontier)}
+              width={Math.max(0, frameEnd(i) - starts[i])}
+              height={CHART_HEIGHT - y(s.frontier, maxFrontier)}
+              fill="#bae6fd"
+              stroke="#fff"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>{`Level ${frames[i].level}: ${s.frontier.toLocaleString()} on the frontier, ${s.visited.toLocaleString()} visited`}</title>
+            </rect>
+          ))}
+          <polyline points={visitedLine} fill="none" stroke="#4f46e5" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          <line x1={step + 0.5} x2={step + 0.5} y1={0} y2={CHART_HEIGHT} stroke="#0f172a" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        <div className="relative h-4">
+          {events.map((ev) => (
+            <button
+              key={ev.kind}
+              className="absolute top-0 -translate-x-1/2 w-2.5 h-2.5 rotate-45 rounded-sm border border-white hover:scale-125"
+              style={{ left: percent(ev.step), background: eventColors[ev.kind] }}
+              title={`${eventLabels[ev.kind]} (step ${ev.step + 1}): ${ev.detail}`}
+              aria-label={`Jump to ${eventLabels[ev.kind].toLowerCase()}, step ${ev.step + 1}`}
+              onClick={() => seek(ev.step)}
+            />
+          ))}
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={Math.min(step, last)}
+          onChange={(e) => seek(parseInt(e.target.value))}
+          className="w-full"
+          aria-label="Playback step"
+        />
+
+        <div className="flex flex-wrap gap-x-3 text-[11px] text-slate-600">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-2 bg-sky-200" />
+            frontier size (max {maxFrontier.toLocaleString()})
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5 bg-indigo-600" />
+            words visited (max {maxVisited.toLocaleString()})
+          </span>
+          {backtrackFrames.length > 0 && (
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-2 bg-fuchsia-50 border border-fuchsia-200" />
+              backtracking
+            </span>
+          )}
+        </div>
+      </div>
+
+      {events.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-500">Jump to:</span>
+          {events.map((ev) => (
+            <button
+              key={ev.kind}
+              className={["px-2 py-1 rounded-lg border flex items-center gap-1", ev.step === step ? "bg-slate-100" : "bg-white hover:bg-slate-100"].join(" ")}
+              onClick={() => seek(ev.step)}
+              title={ev.detail}
+            >
+              <span className="inline-block w-2 h-2 rotate-45" style={{ background: eventColors[ev.kind] }} />
+              {eventLabels[ev.kind]}
+              <span className="text-slate-400">#{ev.step + 1}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[11px] text-slate-500">
+        {shortcuts.map(([keys, action], i) => (
+          <span key={keys}>
+            {i > 0 && " · "}
+            <kbd className="px-1 rounded border bg-slate-50 font-mono">{keys}</kbd> {action}
+          </span>
+        ))}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { checkAnswer, checkMarks, parseSubmittedPaths } from "./answerCheck";
+import { buildMoveGraph } from "./moves";
+import { solveWordLadder } from "./solver";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+// Built over the submitted words too, so steps into unknown words are still judged
+const graph = buildMoveGraph(input.begin, [...input.words, "hat", "cat"]);
+const checkInput = {
+  begin: "hit",
+  end: "cog",
+  expected: solveWordLadder(input).allPaths,
+  pathCount: 2,
+  dictionary: new Set(input.words),
+  stepCost: (from: string, to: string) => graph.moves(from).find((m) => m.word === to)?.cost,
+};
+
+describe("parseSubmittedPaths", () => {
+  it("accepts a JSON array of word arrays, lowercasing words", () => {
+    expect(parseSubmittedPaths('[["HIT","hot"]]')).toEqual([["hit", "hot"]]);
+    expect(parseSubmittedPaths("[]")).toEqual([]);
+  });
+
+  it("explains malformed input", () => {
+    expect(() => parseSubmittedPaths("[[hit]]")).toThrow(/not valid JSON/);
+    expect(() => parseSubmittedPaths('{"a":1}')).toThrow(/JSON array of paths/);
+    expect(() => parseSubmittedPaths('[["hit"], "hot"]')).toThrow(/path 2 is not an array/);
+    expect(() => parseSubmittedPaths("[[]]")).toThrow(/path 1 is empty/);
+  });
+});
+
+describe("checkAnswer", () => {
+  it("accepts the expected paths in any order", () => {
+    const check = checkAnswer([...checkInput.expected].reverse(), checkInput);
+    expect(check.paths.every((p) => p.correct)).toBe(true);
+    expect(check.missing).toEqual([]);
+  });
+
+  it("reports missing and duplicate paths", () => {
+    const first = checkInput.expected[0];
+    const check = checkAnswer([first, first], checkInput);
+    expect(check.paths[0]).toEqual({ path: first, correct: true, issues: [] });
+    expect(check.paths[1].issues).toEqual([{ kind: "duplicate", of: 0 }]);
+    expect(check.missing).toEqual([checkInput.expected[1]]);
+  });
+
+  it("flags invalid steps, unknown words and wrong endpoints", () => {
+    const check = checkAnswer(
+      [
+        ["hit", "hot", "dog", "cog"],
+        ["hit", "hat", "cat", "cog"],
+        ["hot", "dot", "dog"],
+      ],
+      checkInput
+    );
+    expect(check.paths[0].issues).toEqual([{ kind: "invalid-step", index: 1, from: "hot", to: "dog" }]);
+    expect(check.paths[1].issues).toEqual([
+      { kind: "unknown-word", index: 1, word: "hat" },
+      { kind: "unknown-word", index: 2, word: "cat" },
+      { kind: "invalid-step", index: 2, from: "cat", to: "cog" },
+    ]);
+    expect(check.paths[2].issues).toEqual([
+      { kind: "wrong-begin", word: "hot" },
+      { kind: "wrong-end", word: "dog" },
+    ]);
+    expect(check.paths.some((p) => p.correct)).toBe(false);
+  });
+
+  it("flags valid ladders that aren't shortest", () => {
+    const check = checkAnswer([["hit", "hot", "dot", "lot", "log", "cog"]], checkInput);
+    expect(check.paths[0].issues).toEqual([{ kind: "not-shortest", cost: 5, shortest: 4 }]);
+  });
+
+  it("accepts shortest ladders left out of a capped expected list", () => {
+    const [listed, unlisted] = checkInput.expected;
+    const check = checkAnswer([unlisted], { ...checkInput, expected: [listed] });
+    expect(check.paths[0]).toEqual({ path: unlisted, correct: true, issues: [] });
+    expect(check.missingCount).toBe(1);
+  });
+
+  it("counts missing paths from pathCount when the expected list is capped", () => {
+    const [listed] = checkInput.expected;
+    const check = checkAnswer([listed], { ...checkInput, expected: [listed], pathCount: 2 });
+    expect(check.missing).toEqual([]);
+    expect(check.missingCount).toBe(1);
+    expect(check.compared).toBe(1);
+    const full = checkAnswer(checkInput.expected, checkInput);
+    expect([full.missingCount, full.compared]).toEqual([0, undefined]);
+  });
+});
+
+describe("checkMarks", () => {
+  const check = checkAnswer([["hit", "hot", "dog", "cog"], checkInput.expected[0]], checkInput);
+
+  it("marks invalid steps as errors over the rest of a wrong path, and missing paths' steps", () => {
+    const { edges } = checkMarks(check);
+    expect(edges).toContainEqual({ from: "hot", to: "dog", kind: "error" });
+    expect(edges).toContainEqual({ from: "dog", to: "cog", kind: "extra" });
+    expect(edges).toContainEqual({ from: "lot", to: "log", kind: "missing" });
+    // A step shared by a wrong path and a missing one is shown once, as the more serious mark
+    expect(edges.filter((e) => e.from === "hit" && e.to === "hot")).toEqual([{ from: "hit", to: "hot", kind: "extra" }]);
+  });
+
+  it("can limit the marks to one submitted path", () => {
+    expect(checkMarks(check, 1).edges).toEqual([]);
+    expect(checkMarks(check, 0).edges.map((e) => e.kind)).toEqual(["error", "extra", "extra"]);
+  });
+});
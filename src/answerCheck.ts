@@ -0,0 +1,136 @@
+// "Check my answer": compares a pasted list of paths (e.g. the output of a student's Word Ladder II
+// solution) with the paths the solver found, and explains what is wrong with each one.
+import { COST_EPSILON } from "./solver";
+
+export type PathIssue =
+  | { kind: "wrong-begin"; word: string } // first word isn't the begin word
+  | { kind: "wrong-end"; word: string } // last word isn't the end word
+  | { kind: "unknown-word"; index: number; word: string } // not in the dictionary
+  | { kind: "invalid-step"; index: number; from: string; to: string } // path[index] -> path[index + 1] isn't one move
+  | { kind: "not-shortest"; cost: number; shortest: number } // valid, but longer (or costlier) than the best ladder
+  | { kind: "duplicate"; of: number }; // same path as submitted path #of (0-based)
+
+export interface CheckedPath {
+  path: string[];
+  correct: boolean; // a shortest ladder, submitted once
+  issues: PathIssue[]; // why an incorrect path is wrong; empty if nothing more specific is known
+}
+
+export interface AnswerCheck {
+  paths: CheckedPath[];
+  missing: string[][]; // expected paths that weren't submitted (only the enumerated ones when the solver capped them)
+  missingCount: number; // shortest paths that weren't submitted, counted from pathCount
+  compared?: number; // set when the solver capped the expected paths: how many were compared
+}
+
+export interface AnswerCheckInput {
+  begin: string;
+  end: string;
+  expected: string[][]; // allPaths from the solver, possibly capped at maxPaths
+  pathCount: number; // every shortest path, counted by the solver
+  dictionary: Set<string>; // words a path may use besides the begin word
+  // Undefined when `to` isn't one move from `from`. Judged on the words alone, whether or not
+  // they are in the dictionary, so unknown words don't also show up as invalid steps.
+  stepCost: (from: string, to: string) => number | undefined;
+}
+
+// Parse a JSON array of paths (arrays of words). Words are lowercased like the rest of the app.
+// Throws an Error describing the first problem.
+export function parseSubmittedPaths(text: string): string[][] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`not valid JSON (${(err as Error).message})`);
+  }
+  if (!Array.isArray(data)) throw new Error("expected a JSON array of paths, e.g. [[\"hit\",\"hot\",\"cog\"]]");
+  return data.map((path, i) => {
+    if (!Array.isArray(path) || !path.every((w) => typeof w === "string")) {
+      throw new Error(`path ${i + 1} is not an array of words`);
+    }
+    if (!path.length) throw new Error(`path ${i + 1} is empty`);
+    return path.map((w: string) => w.toLowerCase());
+  });
+}
+
+export function checkAnswer(submitted: string[][], input: AnswerCheckInput): AnswerCheck {
+  const { begin, end, expected, pathCount, dictionary, stepCost } = input;
+  const costOf = (path: string[]) => path.slice(1).reduce((sum, w, i) => sum + (stepCost(path[i], w) ?? NaN), 0);
+  const shortest = expected.length ? costOf(expected[0]) : Infinity;
+
+  const firstSeen = new Map<string, number>();
+  const paths = submitted.map((path, i): CheckedPath => {
+    const key = JSON.stringify(path);
+    const issues: PathIssue[] = [];
+    if (firstSeen.has(key)) issues.push({ kind: "duplicate", of: firstSeen.get(key)! });
+    else firstSeen.set(key, i);
+
+    if (path[0] !== begin) issues.push({ kind: "wrong-begin", word: path[0] });
+    if (path[path.length - 1] !== end) issues.push({ kind: "wrong-end", word: path[path.length - 1] });
+    path.forEach((w, index) => {
+      if (index > 0 && !dictionary.has(w)) issues.push({ kind: "unknown-word", index, word: w });
+    });
+    for (let index = 0; index + 1 < path.length; index++) {
+      if (stepCost(path[index], path[index + 1]) === undefined) {
+        issues.push({ kind: "invalid-step", index, from: path[index], to: path[index + 1] });
+      }
+    }
+    // Only a ladder that is otherwise valid can be judged on its length
+    if (!issues.length) {
+      const cost = costOf(path);
+      if (cost > shortest + COST_EPSILON) issues.push({ kind: "not-shortest", cost, shortest });
+    }
+    // A valid ladder of the shortest cost is one of the solutions, listed or not
+    return { path, correct: !issues.length && shortest < Infinity, issues };
+  });
+
+  const submittedKeys = new Set(submitted.map((p) => JSON.stringify(p)));
+  return {
+    paths,
+    missing: expected.filter((p) => !submittedKeys.has(JSON.stringify(p))),
+    // Correct paths are distinct shortest ladders, listed or not
+    missingCount: Math.max(0, pathCount - paths.filter((p) => p.correct).length),
+    ...(expected.length < pathCount && { compared: expected.length }),
+  };
+}
+
+// ----- Graph marks -----
+
+export type CheckMarkKind = "error" | "extra" | "missing";
+
+export interface CheckMarks {
+  edges: Array<{ from: string; to: string; kind: CheckMarkKind }>;
+  words: Map<string, CheckMarkKind>;
+}
+
+const markRank: Record<CheckMarkKind, number> = { error: 0, extra: 1, missing: 2 };
+
+// What to draw on the graph: invalid steps and bad words as errors, the steps of other wrong paths
+// as extra, and the steps of expected paths nobody submitted as missing. `only` limits the marks
+// to one submitted path (by index).
+export function checkMarks(check: AnswerCheck, only?: number): CheckMarks {
+  const edges = new Map<string, { from: string; to: string; kind: CheckMarkKind }>();
+  const words = new Map<string, CheckMarkKind>();
+  const mark = (kind: CheckMarkKind, from: string, to?: string) => {
+    if (to !== undefined) {
+      const prev = edges.get(`${from}>${to}`);
+      if (!prev || markRank[kind] < markRank[prev.kind]) edges.set(`${from}>${to}`, { from, to, kind });
+      return;
+    }
+    const prev = words.get(from);
+    if (prev === undefined || markRank[kind] < markRank[prev]) words.set(from, kind);
+  };
+
+  check.paths.forEach(({ path, correct, issues }, i) => {
+    if (correct || (only !== undefined && i !== only)) return;
+    for (const issue of issues) {
+      if (issue.kind === "wrong-begin" || issue.kind === "wrong-end" || issue.kind === "unknown-word") mark("error", issue.word);
+      if (issue.kind === "invalid-step") mark("error", issue.from, issue.to);
+    }
+    for (let j = 0; j + 1 < path.length; j++) mark("extra", path[j], path[j + 1]);
+  });
+  if (only === undefined) {
+    for (const path of check.missing) for (let j = 0; j + 1 < path.length; j++) mark("missing", path[j], path[j + 1]);
+  }
+  return { edges: Array.from(edges.values()), words };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { benchmark, benchmarkPlan, BENCHMARK_LENGTHS, BENCHMARK_SIZES, generateDictionary } from "./benchmark";
+import { seededRandom } from "./random";
+import { solveWordLadder } from "./solver";
+
+const classic = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+describe("generateDictionary", () => {
+  it("is reproducible from its seed", () => {
+    expect(generateDictionary(200, 4, 7)).toEqual(generateDictionary(200, 4, 7));
+    expect(generateDictionary(200, 4, 7)).not.toEqual(generateDictionary(200, 4, 8));
+    expect(seededRandom(1)()).toBe(seededRandom(1)());
+  });
+
+  it("builds a connected dictionary whose end word is the farthest from begin", () => {
+    const input = generateDictionary(300, 4, 3);
+    expect(input.words).toHaveLength(299);
+    expect(new Set(input.words).size).toBe(299);
+    expect(input.words.every((w) => /^[a-z]{4}$/.test(w))).toBe(true);
+    const { frames, allPaths } = solveWordLadder(input);
+    expect(allPaths.length).toBeGreaterThan(0);
+    // Ending on the last level means BFS expanded every word nearer than the end
+    expect(frames[frames.length - 1].nextFrontier).toContain(input.end);
+  });
+
+  it("caps the size at what the word length allows", () => {
+    expect(generateDictionary(1000, 2, 1).words.length).toBeLessThan(26 ** 2 / 2);
+  });
+});
+
+describe("benchmark", () => {
+  const tick = () => {
+    let t = 0;
+    return () => (t += 1);
+  };
+
+  it("counts the same work for both strategies, except the lookups", () => {
+    const buckets = benchmark(classic, "buckets", "current", 1, tick());
+    const naive = benchmark(classic, "naive", "current", 1, tick());
+    for (const r of [buckets, naive]) {
+      expect(r).toMatchObject({ n: 6, length: 3, expanded: 6, paths: 2, enumerated: true });
+    }
+    expect(buckets.lookups).toBe(3 * 6); // L buckets per expansion
+    expect(naive.lookups).toBe(25 * 3 * 6); // 25 other letters at each of L positions
+    expect(buckets.candidates).toBeLessThan(naive.candidates);
+  });
+
+  it("keeps the median time of each phase", () => {
+    const r = benchmark(classic, "buckets", "current", 3, tick());
+    expect([r.indexMs, r.bfsMs, r.backtrackMs]).toEqual([1, 1, 1]);
+  });
+});
+
+describe("benchmarkPlan", () => {
+  it("runs the current input, then the size and length sweeps", () => {
+    const plan = benchmarkPlan(classic);
+    expect(plan.map((p) => p.series)).toEqual([
+      "current",
+      ...BENCHMARK_SIZES.map(() => "size"),
+      ...BENCHMARK_LENGTHS.map(() => "length"),
+    ]);
+    expect(benchmarkPlan(null)).toHaveLength(plan.length - 1);
+  });
+});
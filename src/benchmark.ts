@@ -0,0 +1,155 @@
+// Measures the solver's phases on the current input and on generated dictionaries of growing size
+// and word length, for the pattern-bucket neighbor index and for naive 26-letter substitution.
+import { seededRandom } from "./random";
+import { backtrackPaths, buildFrames, buildPatternBuckets, countExpanded, countShortestPaths, getNeighbors, parentsAt, patternKey } from "./solver";
+
+export type NeighborStrategy = "buckets" | "naive";
+
+export interface BenchmarkInput {
+  begin: string;
+  end: string;
+  words: string[];
+}
+
+export interface BenchmarkResult {
+  series: "current" | "size" | "length"; // which sweep the run belongs to
+  strategy: NeighborStrategy;
+  n: number; // dictionary words of the begin word's length
+  length: number; // word length L
+  indexMs: number; // building the buckets, or the dictionary Set for the naive strategy
+  bfsMs: number;
+  backtrackMs: number; // 0 when enumeration was skipped
+  expanded: number; // nodes expanded by BFS
+  lookups: number; // bucket reads, or dictionary Set lookups for the naive strategy
+  candidates: number; // words examined across those lookups
+  paths: number; // shortest paths (counted even when enumeration is skipped)
+  enumerated: boolean; // false when there were more than MAX_BENCHMARK_PATHS paths
+}
+
+export const BENCHMARK_SIZES = [500, 1000, 2000, 4000, 8000, 16000];
+export const BENCHMARK_LENGTHS = [3, 4, 5, 6, 7, 8];
+export const SIZE_SWEEP_LENGTH = 5; // word length of the size sweep
+export const LENGTH_SWEEP_SIZE = 5000; // dictionary size of the length sweep
+export const BENCHMARK_REPEATS = 3; // each run is repeated and the median time kept
+export const MAX_BENCHMARK_PATHS = 100_000; // more paths than this are counted but not enumerated
+
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+
+// A connected dictionary of `size` words of length `length`: every new word changes one letter of
+// a word already in it. Begin is the first word and end the word farthest from it, so BFS explores
+// (nearly) the whole dictionary and timings scale with its size.
+export function generateDictionary(size: number, length: number, seed = 1): BenchmarkInput {
+  const random = seededRandom(seed);
+  const letter = () => ALPHABET[Math.floor(random() * 26)];
+  const first = Array.from({ length }, letter).join("");
+  const words = [first];
+  const seen = new Set(words);
+  const target = Math.min(size, Math.floor(26 ** length / 2)); // short words can't fill large dictionaries
+  for (let attempts = 0; words.length < target && attempts < target * 50; attempts++) {
+    const base = words[Math.floor(random() * words.length)];
+    const i = Math.floor(random() * length);
+    const w = base.slice(0, i) + letter() + base.slice(i + 1);
+    if (seen.has(w)) continue;
+    seen.add(w);
+    words.push(w);
+  }
+
+  let frontier = [first];
+  let end = first;
+  const reached = new Set(frontier);
+  while (frontier.length) {
+    end = frontier[frontier.length - 1];
+    const next: string[] = [];
+    for (const w of frontier) {
+      for (let i = 0; i < length; i++) {
+        for (const c of ALPHABET) {
+          const v = w.slice(0, i) + c + w.slice(i + 1);
+          if (seen.has(v) && !reached.has(v)) {
+            reached.add(v);
+            next.push(v);
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+  return { begin: first, end, words: words.slice(1) };
+}
+
+const median = (xs: number[]) => [...xs].sort((a, b) => a - b)[Math.floor(xs.length / 2)];
+
+function runOnce(input: BenchmarkInput, strategy: NeighborStrategy, now: () => number) {
+  const begin = input.begin.toLowerCase();
+  const end = input.end.toLowerCase();
+  const words = input.words.map((w) => w.toLowerCase()).filter((w) => w.length === begin.length);
+  let lookups = 0;
+  let candidates = 0;
+
+  let t = now();
+  let neighbors: (w: string) => string[];
+  if (strategy === "buckets") {
+    const buckets = buildPatternBuckets(begin, words);
+    neighbors = (w) => {
+      lookups += w.length;
+      for (let i = 0; i < w.length; i++) candidates += buckets[patternKey(w, i)]?.length ?? 0;
+      return getNeighbors(buckets, w);
+    };
+  } else {
+    const dictionary = new Set(words);
+    neighbors = (w) => {
+      const out: string[] = [];
+      for (let i = 0; i < w.length; i++) {
+        for (const c of ALPHABET) {
+          if (c === w[i]) continue;
+          const v = w.slice(0, i) + c + w.slice(i + 1);
+          lookups++;
+          candidates++;
+          if (dictionary.has(v)) out.push(v);
+        }
+      }
+      return out;
+    };
+  }
+  const indexMs = now() - t;
+
+  t = now();
+  const frames = begin.length === end.length ? buildFrames(begin, end, neighbors) : [];
+  const bfsMs = now() - t;
+
+  const parents = parentsAt(frames, frames.length - 1);
+  const paths = countShortestPaths(parents, begin, end).total;
+  const enumerated = paths <= MAX_BENCHMARK_PATHS;
+  t = now();
+  if (enumerated) backtrackPaths(parents, begin, end);
+  const backtrackMs = enumerated ? now() - t : 0;
+
+  return { n: words.length, length: begin.length, indexMs, bfsMs, backtrackMs, expanded: countExpanded(frames), lookups, candidates, paths, enumerated };
+}
+
+// Time one strategy on one input, keeping the median of each phase over `repeats` runs
+export function benchmark(
+  input: BenchmarkInput,
+  strategy: NeighborStrategy,
+  series: BenchmarkResult["series"],
+  repeats = BENCHMARK_REPEATS,
+  now: () => number = () => performance.now()
+): BenchmarkResult {
+  const runs = Array.from({ length: repeats }, () => runOnce(input, strategy, now));
+  return {
+    ...runs[0],
+    series,
+    strategy,
+    indexMs: median(runs.map((r) => r.indexMs)),
+    bfsMs: median(runs.map((r) => r.bfsMs)),
+    backtrackMs: median(runs.map((r) => r.backtrackMs)),
+  };
+}
+
+// Every run of the dashboard, in the order they are performed
+export function benchmarkPlan(current: BenchmarkInput | null, seed = 1) {
+  const plan: Array<{ input: BenchmarkInput; series: BenchmarkResult["series"] }> = [];
+  if (current) plan.push({ input: current, series: "current" });
+  for (const size of BENCHMARK_SIZES) plan.push({ input: generateDictionary(size, SIZE_SWEEP_LENGTH, seed), series: "size" });
+  for (const length of BENCHMARK_LENGTHS) plan.push({ input: generateDictionary(LENGTH_SWEEP_SIZE, length, seed), series: "length" });
+  return plan;
+}
@@ -0,0 +1,32 @@
+// Runs the benchmark suite off the main thread, posting each measurement as soon as it is taken
+import { benchmark, BenchmarkInput, benchmarkPlan, BenchmarkResult, NeighborStrategy } from "./benchmark";
+
+export type BenchmarkRequest = { current: BenchmarkInput | null; seed: number };
+
+export type BenchmarkResponse =
+  | { type: "result"; result: BenchmarkResult; done: number; total: number }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as {
+  postMessage(message: BenchmarkResponse): void;
+  onmessage: ((e: MessageEvent<BenchmarkRequest>) => void) | null;
+};
+
+const strategies: NeighborStrategy[] = ["buckets", "naive"];
+
+ctx.onmessage = (e) => {
+  try {
+    const plan = benchmarkPlan(e.data.current, e.data.seed);
+    const total = plan.length * strategies.length;
+    let done = 0;
+    for (const { input, series } of plan) {
+      for (const strategy of strategies) {
+        ctx.postMessage({ type: "result", result: benchmark(input, strategy, series), done: ++done, total });
+      }
+    }
+    ctx.postMessage({ type: "done" });
+  } catch (err) {
+    ctx.postMessage({ type: "error", message: (err as Error).message });
+  }
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { CliIO, exitCodes, parseCliArgs, runCli } from "./cli";
+
+const dictionary = "hot\ndot\ndog\nlot\nlog\ncog\n";
+
+// In-memory host: one dictionary file, captured output and written files
+function run(args: string[]) {
+  const out = { stdout: "", stderr: "", files: new Map<string, string>() };
+  const io: CliIO = {
+    readFile: async (path) => {
+      if (path !== "words.txt") throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      return new Blob([dictionary]);
+    },
+    writeFile: async (path, text) => void out.files.set(path, text),
+    stdout: (text) => (out.stdout += text),
+    stderr: (text) => (out.stderr += text),
+  };
+  return runCli(args, io).then((code) => ({ code, ...out }));
+}
+
+describe("parseCliArgs", () => {
+  it("reads positional words, flags and --flag=value", () => {
+    const options = parseCliArgs(["hit", "cog", "--dict=words.txt", "-a", "bidirectional", "--json", "--show", "paths,stats", "--max-paths", "5"]);
+    expect(options).toMatchObject({
+      begin: "hit",
+      end: "cog",
+      dictionary: "words.txt",
+      algorithm: "bidirectional",
+      format: "json",
+      sections: ["paths", "stats"],
+      maxPaths: 5,
+    });
+  });
+
+  it("names the argument it can't use", () => {
+    expect(() => parseCliArgs(["hit", "cog", "-w", "hot", "--algorithm", "dfs"])).toThrow(/--algorithm must be one of bfs, bidirectional, dijkstra/);
+    expect(() => parseCliArgs(["hit", "cog", "-w", "hot", "--max-paths", "-1"])).toThrow(/whole number/);
+    expect(() => parseCliArgs(["hit", "cog", "-w", "hot", "--verbose"])).toThrow(/unknown option --verbose/);
+    expect(() => parseCliArgs(["hit", "-w", "hot"])).toThrow(/expected a begin and an end word, got 1 argument$/);
+    expect(() => parseCliArgs(["hit", "cog"])).toThrow(/no dictionary/);
+  });
+});
+
+describe("runCli", () => {
+  it("prints paths, trace and stats, and exits with the solved code", async () => {
+    const { code, stdout } = await run(["hit", "cog", "-d", "words.txt"]);
+    expect(code).toBe(exitCodes.solved);
+    expect(stdout).toContain("hit → cog (bfs): 2 shortest paths, 4 steps each");
+    expect(stdout).toContain("  hit → hot → dot → dog → cog\n");
+    expect(stdout).toContain("  Level 2: expanding dot, lot; discovered dog, log.\n");
+    expect(stdout).toMatch(/Nodes expanded +6\n/);
+  });
+
+  it("reports JSON with only the sections asked for", async () => {
+    const { stdout } = await run(["hit", "cog", "-w", "hot,dot,dog,lot,log,cog", "--json", "--show", "trace"]);
+    const report = JSON.parse(stdout);
+    expect(report).toMatchObject({ status: "solved", pathCount: 2, pathLength: 4 });
+    expect(report.paths).toBeUndefined();
+    expect(report.trace[1]).toMatchObject({ level: 1, frontier: ["hot"], discovered: ["dot", "lot"], found: false });
+  });
+
+  it("reports the path length and the unlisted count with --max-paths 0", async () => {
+    const { stdout } = await run(["hit", "cog", "-d", "words.txt", "--max-paths", "0", "--show", "paths"]);
+    expect(stdout).toContain("hit → cog (bfs): 2 shortest paths, 4 steps each");
+    expect(stdout).toContain("  … 2 more paths not listed (--max-paths)\n");
+
+    const json = JSON.parse((await run(["hit", "cog", "-d", "words.txt", "--max-paths", "0", "--json"])).stdout);
+    expect(json).toMatchObject({ pathCount: 2, pathLength: 4, paths: [] });
+  });
+
+  it("tells no path apart from invalid input", async () => {
+    const strict = await run(["hit", "xyz", "-d", "words.txt", "--strict"]);
+    expect(strict.code).toBe(exitCodes["no-path"]);
+    expect(strict.stdout).toContain("hit → xyz (bfs): no ladder");
+
+    const mismatch = await run(["hit", "cogs", "-d", "words.txt", "--json"]);
+    expect(mismatch.code).toBe(exitCodes["invalid-input"]);
+    expect(JSON.parse(mismatch.stdout).diagnostics[0].code).toBe("length-mismatch");
+
+    const missing = await run(["hit", "cog", "-d", "nope.txt"]);
+    expect(missing.code).toBe(exitCodes["invalid-input"]);
+    expect(missing.stderr).toContain("can't read dictionary nope.txt: ENOENT");
+  });
+
+  it("writes the final layered graph as SVG", async () => {
+    const { files } = await run(["hit", "cog", "-d", "words.txt", "--svg", "graph.svg", "--show", "stats"]);
+    const svg = files.get("graph.svg")!;
+    expect(svg.startsWith("<svg ")).toBe(true);
+    for (const w of ["hit", "hot", "dot", "lot", "dog", "log", "cog"]) expect(svg).toContain(`>${w}</text>`);
+  });
+});
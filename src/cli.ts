@@ -0,0 +1,349 @@
+// Headless command line for scripts and grading servers: solves a ladder with the app's solver and
+// prints the shortest paths, the level-by-level trace and statistics as text or JSON, optionally
+// writing the final layered graph as SVG. Node specifics (files, stdout, the exit code) are supplied
+// by bin/word-ladder.mjs, so everything here runs in tests as is.
+import { Diagnostic, diagnoseInput } from "./diagnostics";
+import { readDictionaryFile, splitWordList } from "./dictionaryFile";
+import { graphToSvg, GraphSnapshot } from "./exportFormats";
+import { buildEdges, collapseColumns, computeLayout, frameColumns } from "./layout";
+import { narrateStep } from "./narration";
+import { explainNoSolution } from "./noSolution";
+import { Algorithm, backtrackPaths, countExpanded, DEFAULT_MAX_PATHS, LadderSolution, shortestPathNodes, solveWordLadder, visitedAt } from "./solver";
+
+export type CliStatus = "solved" | "no-path" | "invalid-input";
+export type CliSection = "paths" | "trace" | "stats";
+export type CliFormat = "text" | "json";
+
+export const exitCodes: Record<CliStatus, number> = { solved: 0, "no-path": 1, "invalid-input": 2 };
+
+const ALGORITHMS: Algorithm[] = ["bfs", "bidirectional", "dijkstra"];
+const SECTIONS: CliSection[] = ["paths", "trace", "stats"];
+const FORMATS: CliFormat[] = ["text", "json"];
+
+export const USAGE = `Usage: word-ladder <begin> <end> (--dict <file> | --words <list>) [options]
+
+  -d, --dict <file>        dictionary file, one word per line (may be gzipped)
+  -w, --words <list>       words separated by commas or spaces, added to the dictionary
+  -a, --algorithm <name>   ${ALGORITHMS.join(" | ")} (default bfs)
+      --strict             LeetCode 126 semantics: don't add a missing end word
+  -f, --format <format>    ${FORMATS.join(" | ")} (default text); --json is short for --format json
+      --show <sections>    comma-separated ${SECTIONS.join(", ")} (default all)
+      --max-paths <n>      paths to list before stopping (default ${DEFAULT_MAX_PATHS}); all are counted
+      --svg <file>         write the final layered graph as SVG
+      --collapse           fold words not on a shortest path into "+N more" in the SVG
+  -h, --help               show this help
+
+Exit codes: ${exitCodes.solved} solved, ${exitCodes["no-path"]} no path, ${exitCodes["invalid-input"]} invalid input.
+`;
+
+export interface CliOptions {
+  begin: string;
+  end: string;
+  dictionary?: string; // path of the word list file
+  words: string[]; // from --words
+  algorithm: Algorithm;
+  strict: boolean;
+  format: CliFormat;
+  sections: CliSection[];
+  maxPaths: number;
+  svg?: string; // where to write the final graph
+  collapse: boolean;
+  help: boolean;
+}
+
+// What the CLI needs from its host; bin/word-ladder.mjs passes Node's file system and streams
+export interface CliIO {
+  readFile: (path: string) => Promise<Blob>;
+  writeFile: (path: string, text: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+function oneOf<T extends string>(flag: string, value: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) throw new Error(`${flag} must be one of ${allowed.join(", ")}, got "${value}"`);
+  return value as T;
+}
+
+// Throws on anything it doesn't understand, with a message naming the offending argument
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    begin: "",
+    end: "",
+    words: [],
+    algorithm: "bfs",
+    strict: false,
+    format: "text",
+    sections: SECTIONS,
+    maxPaths: DEFAULT_MAX_PATHS,
+    collapse: false,
+    help: false,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const eq = args[i].startsWith("--") ? args[i].indexOf("=") : -1;
+    const flag = eq >= 0 ? args[i].slice(0, eq) : args[i];
+    const value = () => {
+      const v = eq >= 0 ? args[i].slice(eq + 1) : args[++i];
+      if (v === undefined) throw new Error(`${flag} needs a value`);
+      return v;
+    };
+    switch (flag) {
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "-d":
+      case "--dict":
+        options.dictionary = value();
+        break;
+      case "-w":
+      case "--words":
+        options.words.push(...splitWordList(value()));
+        break;
+      case "-a":
+      case "--algorithm":
+        options.algorithm = oneOf(flag, value(), ALGORITHMS);
+        break;
+      case "--strict":
+        options.strict = true;
+        break;
+      case "-f":
+      case "--format":
+        options.format = oneOf(flag, value(), FORMATS);
+        break;
+      case "--json":
+        options.format = "json";
+        break;
+      case "--show":
+        options.sections = value()
+          .split(",")
+          .map((s) => oneOf(flag, s.trim(), SECTIONS));
+        break;
+      case "--max-paths": {
+        const raw = value();
+        const n = Number(raw);
+        if (!raw.trim() || !Number.isInteger(n) || n < 0) throw new Error(`${flag} must be a whole number, got "${raw}"`);
+        options.maxPaths = n;
+        break;
+      }
+      case "--svg":
+        options.svg = value();
+        break;
+      case "--collapse":
+        options.collapse = true;
+        break;
+      default:
+        if (flag.startsWith("-")) throw new Error(`unknown option ${flag}`);
+        positional.push(flag);
+    }
+  }
+
+  if (options.help) return options;
+  if (positional.length !== 2) throw new Error(`expected a begin and an end word, got ${positional.length} argument${positional.length === 1 ? "" : "s"}`);
+  [options.begin, options.end] = positional;
+  if (!options.dictionary && !options.words.length) throw new Error("no dictionary: pass --dict <file> or --words <list>");
+  return options;
+}
+
+export interface TraceLevel {
+  level: number;
+  direction: "forward" | "backward";
+  distance?: number; // dijkstra only
+  frontier: string[];
+  discovered: string[];
+  meeting: string[];
+  found: boolean;
+  narration: string;
+}
+
+export interface LadderStats {
+  dictionaryWords: number; // after de-duplication, including an added end word
+  levels: number;
+  nodesExpanded: number;
+  wordsVisited: number;
+  wordsOnShortestPaths: number;
+  pathsListed: number;
+}
+
+// The JSON output; text output prints the same fields
+export interface LadderReport {
+  status: CliStatus;
+  begin: string;
+  end: string;
+  algorithm: Algorithm;
+  diagnostics: Diagnostic[];
+  pathCount: number; // counted without enumerating, so it can exceed the paths listed
+  pathLength?: number; // steps in each shortest path
+  paths?: string[][];
+  bridge?: string[]; // no path: words whose addition would connect begin and end
+  trace?: TraceLevel[];
+  stats?: LadderStats;
+}
+
+export function ladderReport(options: CliOptions, words: string[], solution: LadderSolution, diagnostics: Diagnostic[]): LadderReport {
+  const begin = options.begin.toLowerCase();
+  const end = options.end.toLowerCase();
+  const { frames, finalParents, allPaths, pathCount } = solution;
+  const report: LadderReport = {
+    status: pathCount ? "solved" : "no-path",
+    begin,
+    end,
+    algorithm: options.algorithm,
+    diagnostics,
+    pathCount,
+  };
+  // With --max-paths 0 nothing is listed, so take the length from a single backtracked path
+  const shortest = allPaths[0] ?? (pathCount ? backtrackPaths(finalParents, begin, end, undefined, 1)[0] : undefined);
+  if (shortest) report.pathLength = shortest.length - 1;
+  if (!pathCount) {
+    const bridge = explainNoSolution({ begin, end, words })?.bridge;
+    if (bridge) report.bridge = bridge.added;
+  }
+
+  if (options.sections.includes("paths")) report.paths = allPaths;
+  if (options.sections.includes("trace")) {
+    report.trace = frames.map((f) => ({
+      level: f.level,
+      direction: f.direction,
+      ...(f.distance !== undefined && { distance: f.distance }),
+      frontier: f.frontier,
+      discovered: f.nextFrontier,
+      meeting: f.meeting,
+      found: f.found,
+      narration: narrateStep({ frame: f, end }),
+    }));
+  }
+  if (options.sections.includes("stats")) {
+    report.stats = {
+      dictionaryWords: words.length,
+      levels: frames.length,
+      nodesExpanded: countExpanded(frames),
+      wordsVisited: frames.length ? visitedAt(frames, frames.length - 1).size : 0,
+      wordsOnShortestPaths: pathCount ? shortestPathNodes(finalParents, begin, end).size : 0,
+      pathsListed: allPaths.length,
+    };
+  }
+  return report;
+}
+
+const statLabels: Record<keyof LadderStats, string> = {
+  dictionaryWords: "Dictionary words",
+  levels: "Levels",
+  nodesExpanded: "Nodes expanded",
+  wordsVisited: "Words visited",
+  wordsOnShortestPaths: "Words on shortest paths",
+  pathsListed: "Paths listed",
+};
+
+export function formatReport(report: LadderReport): string {
+  const plural = (n: number, word: string) => `${n.toLocaleString("en-US")} ${word}${n === 1 ? "" : "s"}`;
+  const lines: string[] = [];
+  const { stats, paths, pathCount } = report;
+  if (report.status === "solved") {
+    lines.push(`${report.begin} → ${report.end} (${report.algorithm}): ${plural(pathCount, "shortest path")}${report.pathLength === undefined ? "" : `, ${plural(report.pathLength, "step")} each`}`);
+  } else {
+    lines.push(`${report.begin} → ${report.end} (${report.algorithm}): no ladder`);
+    if (report.bridge) lines.push(`Adding ${report.bridge.join(", ")} to the dictionary would connect them.`);
+  }
+
+  if (paths && (paths.length || pathCount)) {
+    lines.push("", "Paths:", ...paths.map((p) => `  ${p.join(" → ")}`));
+    if (pathCount > paths.length) lines.push(`  … ${plural(pathCount - paths.length, "more path")} not listed (--max-paths)`);
+  }
+  if (report.trace) lines.push("", "Trace:", ...report.trace.map((t) => `  ${t.narration}`));
+  if (stats) {
+    const width = Math.max(...Object.values(statLabels).map((l) => l.length));
+    lines.push("", "Stats:", ...(Object.keys(statLabels) as Array<keyof LadderStats>).map((k) => `  ${statLabels[k].padEnd(width)}  ${stats[k].toLocaleString("en-US")}`));
+  }
+  return lines.join("\n") + "\n";
+}
+
+// The layered graph after the last level, laid out like the app's canvas at the end of the search
+export function finalGraph(options: Pick<CliOptions, "begin" | "end" | "algorithm" | "collapse">, solution: LadderSolution): GraphSnapshot {
+  const begin = options.begin.toLowerCase();
+  const end = options.end.toLowerCase();
+  const { frames, finalParents, allPaths } = solution;
+  const { columns, forwardColumns, distances } = frameColumns(frames, frames.length - 1, {
+    begin,
+    end,
+    algorithm: options.algorithm,
+    keep: (w) => w.length === begin.length,
+  });
+  const shown = options.collapse
+    ? collapseColumns(columns, new Set([begin, end, ...shortestPathNodes(finalParents, begin, end)]))
+    : { columns, hidden: [] };
+  const layout = computeLayout(shown.columns, shown.hidden, distances);
+  return {
+    columns: shown.columns,
+    edges: buildEdges(shown.columns, finalParents, layout.pos, forwardColumns),
+    layout,
+    forwardColumns,
+    beginWord: begin,
+    endWord: end,
+    solvedWords: new Set(allPaths.flat()),
+    meetingWords: new Set(frames.flatMap((f) => f.meeting)),
+    activePath: [],
+  };
+}
+
+// Runs one command line and returns its exit code
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  const fail = (message: string) => {
+    io.stderr(`word-ladder: ${message}\n`);
+    return exitCodes["invalid-input"];
+  };
+
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args);
+  } catch (err) {
+    return fail(`${(err as Error).message}\n\n${USAGE}`);
+  }
+  if (options.help) {
+    io.stdout(USAGE);
+    return exitCodes.solved;
+  }
+
+  const tokens = [...options.words];
+  if (options.dictionary) {
+    try {
+      tokens.push(...(await readDictionaryFile(await io.readFile(options.dictionary))));
+    } catch (err) {
+      return fail(`can't read dictionary ${options.dictionary}: ${(err as Error).message}`);
+    }
+  }
+
+  // A missing end word under --strict is a valid input with no answer, like LeetCode's []
+  const diagnostics = diagnoseInput({ begin: options.begin, end: options.end, tokens, strict: options.strict });
+  const invalid = diagnostics.filter((d) => d.severity === "error" && d.code !== "end-missing");
+  if (invalid.length) {
+    if (options.format === "json") {
+      io.stdout(JSON.stringify({ status: "invalid-input", begin: options.begin, end: options.end, diagnostics }, null, 2) + "\n");
+      return exitCodes["invalid-input"];
+    }
+    return fail(invalid.map((d) => d.message).join("\n"));
+  }
+
+  // Same word set as the app: lowercased, de-duplicated, and with the end word unless strict
+  const words = new Set(tokens.map((w) => w.toLowerCase()));
+  if (!options.strict) words.add(options.end.toLowerCase());
+  const list = Array.from(words);
+  const solution = solveWordLadder({ begin: options.begin, end: options.end, words: list, algorithm: options.algorithm, maxPaths: options.maxPaths });
+  const report = ladderReport(options, list, solution, diagnostics);
+
+  if (options.format === "json") io.stdout(JSON.stringify(report, null, 2) + "\n");
+  else {
+    for (const d of diagnostics) io.stderr(`${d.severity}: ${d.message}\n`);
+    io.stdout(formatReport(report));
+  }
+
+  if (options.svg) {
+    try {
+      await io.writeFile(options.svg, graphToSvg(finalGraph(options, solution)));
+    } catch (err) {
+      return fail(`can't write ${options.svg}: ${(err as Error).message}`);
+    }
+  }
+  return exitCodes[report.status];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { onlyIn, runStateAt, runSteps, RunVariant, variantInput } from "./comparison";
+import { solveWordLadder } from "./solver";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+const plain: RunVariant = { algorithm: "bfs", visitedRule: "level", addWords: [], removeWords: [] };
+
+describe("variantInput", () => {
+  it("adds and removes words and always plays back by level", () => {
+    const v = variantInput({ ...input, granularity: "node" }, { ...plain, addWords: ["Cot", "hot"], removeWords: ["LOG"] });
+    expect(v.words).toEqual(["hot", "dot", "dog", "lot", "cog", "cot"]);
+    expect(v.granularity).toBe("level");
+  });
+});
+
+describe("runStateAt", () => {
+  const solution = solveWordLadder(input);
+
+  it("shows the levels built so far, then the paths backtracking has completed", () => {
+    const level = runStateAt(solution, 1);
+    expect(Array.from(level.visited).sort()).toEqual(["dot", "hit", "hot", "lot"]);
+    expect(level.paths).toEqual([]);
+    expect(level.dfs).toBeUndefined();
+
+    const end = runStateAt(solution, runSteps(solution) - 1);
+    expect(end.frameIndex).toBe(solution.frames.length - 1);
+    expect(end.paths).toHaveLength(2);
+  });
+
+  it("stays on the last step past the end of a shorter run", () => {
+    expect(runStateAt(solution, 1000)).toEqual(runStateAt(solution, runSteps(solution) - 1));
+  });
+});
+
+describe("onlyIn", () => {
+  it("finds the parent link and the path the visited-on-discovery bug loses", () => {
+    const correct = solveWordLadder(input);
+    const buggy = solveWordLadder({ ...input, visitedRule: "discovery" });
+    const a = runStateAt(correct, 1000);
+    const b = runStateAt(buggy, 1000);
+    expect(onlyIn(a, b)).toEqual({ words: [], edges: [["log", "cog"]], paths: [["hit", "hot", "lot", "log", "cog"]] });
+    expect(onlyIn(b, a)).toEqual({ words: [], edges: [], paths: [] });
+  });
+
+  it("reports the words only one run has reached", () => {
+    const shorter = solveWordLadder({ ...input, words: [...input.words, "cot"] });
+    // cot reaches cog a level early
+    const diff = onlyIn(runStateAt(shorter, 2), runStateAt(solveWordLadder(input), 2));
+    expect(diff.words).toEqual(["cog", "cot"]);
+  });
+});
@@ -0,0 +1,61 @@
+// Two solver runs side by side: the input each side solves, its state at the shared step, and what one
+// run has at that step that the other hasn't. Both sides play back one level per step, then backtracking.
+import { Algorithm, DFSFrame, LadderInput, LadderSolution, Parents, parentsAt, VisitedRule, visitedAt } from "./solver";
+
+// How one side differs from the current problem
+export interface RunVariant {
+  algorithm: Algorithm;
+  visitedRule: VisitedRule;
+  addWords: string[];
+  removeWords: string[];
+}
+
+export function variantInput(base: LadderInput, { algorithm, visitedRule, addWords, removeWords }: RunVariant): LadderInput {
+  const removed = new Set(removeWords.map((w) => w.toLowerCase()));
+  const words = Array.from(new Set([...base.words, ...addWords].map((w) => w.toLowerCase()))).filter((w) => !removed.has(w));
+  return { ...base, words, algorithm, visitedRule, granularity: "level" };
+}
+
+export const runSteps = ({ frames, backtrackFrames }: LadderSolution) => frames.length + backtrackFrames.length;
+
+export interface RunState {
+  frameIndex: number;
+  visited: Set<string>;
+  parents: Parents;
+  paths: string[][]; // completed by backtracking so far
+  dfs?: DFSFrame; // current backtracking step
+}
+
+// A run that is shorter than the shared cursor stays on its last step
+export function runStateAt(solution: LadderSolution, step: number): RunState {
+  const { frames, backtrackFrames } = solution;
+  const at = Math.max(0, Math.min(step, runSteps(solution) - 1));
+  const frameIndex = Math.min(at, frames.length - 1);
+  const dfsStep = at - frames.length;
+  return {
+    frameIndex,
+    visited: visitedAt(frames, frameIndex),
+    parents: parentsAt(frames, frameIndex),
+    paths: backtrackFrames.slice(0, Math.max(0, dfsStep + 1)).flatMap((f) => (f.completed ? [f.completed] : [])),
+    dfs: dfsStep >= 0 ? backtrackFrames[dfsStep] : undefined,
+  };
+}
+
+export interface RunDiff {
+  words: string[];
+  edges: Array<[parent: string, child: string]>;
+  paths: string[][];
+}
+
+// Visited words, parent links and completed paths `run` has that `other` hasn't
+export function onlyIn(run: RunState, other: RunState): RunDiff {
+  const words = Array.from(run.visited)
+    .filter((w) => !other.visited.has(w))
+    .sort();
+  const edges: Array<[string, string]> = [];
+  for (const [child, ps] of Object.entries(run.parents)) {
+    for (const p of ps) if (!other.parents[child]?.has(p)) edges.push([p, child]);
+  }
+  const otherPaths = new Set(other.paths.map((p) => p.join(">")));
+  return { words, edges, paths: run.paths.filter((p) => !otherPaths.has(p.join(">"))) };
+}
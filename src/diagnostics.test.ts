@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { diagnoseInput, DiagnosticsInput } from "./diagnostics";
+
+const base: DiagnosticsInput = { begin: "hit", end: "cog", tokens: ["hot", "dot", "dog", "lot", "log", "cog"], strict: false };
+const codes = (input: Partial<DiagnosticsInput>) => diagnoseInput({ ...base, ...input }).map((d) => `${d.severity}:${d.code}`);
+
+describe("diagnoseInput", () => {
+  it("finds nothing wrong with a clean LeetCode input", () => {
+    expect(diagnoseInput(base)).toEqual([]);
+  });
+
+  it("reports a begin/end length mismatch and begin equal to end as errors", () => {
+    expect(codes({ end: "cogs" })).toEqual(["error:length-mismatch", "info:end-missing"]);
+    expect(codes({ begin: "cog" })).toEqual(["error:begin-equals-end"]);
+    expect(codes({ begin: "" })).toEqual(["error:empty-word"]);
+  });
+
+  it("lists ignored words, invalid characters and duplicates", () => {
+    const result = diagnoseInput({ ...base, tokens: [...base.tokens, "Hot", "h0t", "hots", "dog"] });
+    expect(result.map((d) => [d.code, d.words])).toEqual([
+      ["invalid-characters", ["h0t"]],
+      ["ignored-words", ["hots"]],
+      ["duplicates", ["hot ×2", "dog ×2"]],
+    ]);
+  });
+
+  it("accepts other lengths when moves can insert or delete letters", () => {
+    expect(codes({ end: "cogs", tokens: [...base.tokens, "cogs", "hits"], lengthChanges: true })).toEqual([]);
+  });
+
+  it("treats a missing end word as an error only in strict mode", () => {
+    const tokens = base.tokens.filter((w) => w !== "cog");
+    expect(codes({ tokens })).toEqual(["info:end-missing"]);
+    expect(codes({ tokens, strict: true })).toEqual(["error:end-missing"]);
+  });
+
+  it("orders errors before warnings before notes", () => {
+    expect(codes({ end: "c0gs", tokens: ["hot", "hot"] })).toEqual([
+      "error:length-mismatch",
+      "warning:invalid-characters",
+      "info:duplicates",
+      "info:end-missing",
+    ]);
+  });
+});
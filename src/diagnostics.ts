@@ -0,0 +1,108 @@
+// Input checks reported by the Problem Setup panel. The solver itself stays lenient (it ignores
+// words of other lengths and returns no frames for unusable input); these say why.
+
+export type Severity = "error" | "warning" | "info";
+
+export type DiagnosticCode =
+  | "empty-word"
+  | "length-mismatch"
+  | "begin-equals-end"
+  | "invalid-characters"
+  | "ignored-words"
+  | "duplicates"
+  | "end-missing";
+
+export interface Diagnostic {
+  severity: Severity;
+  code: DiagnosticCode;
+  message: string;
+  words?: string[]; // offending words, when there are any to list
+}
+
+export interface DiagnosticsInput {
+  begin: string;
+  end: string;
+  tokens: string[]; // word list entries as typed, before lowercasing and de-duplication
+  strict: boolean; // LeetCode 126 semantics: a missing end word means no answer
+  lengthChanges?: boolean; // insertion/deletion moves connect words of different lengths
+}
+
+const severityOrder: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+const VALID_WORD = /^[a-z]+$/;
+
+export function diagnoseInput({ begin, end, tokens, strict, lengthChanges = false }: DiagnosticsInput): Diagnostic[] {
+  const list: Diagnostic[] = [];
+  const b = begin.trim().toLowerCase();
+  const e = end.trim().toLowerCase();
+  const words = tokens.map((w) => w.toLowerCase());
+
+  if (!b || !e) {
+    list.push({ severity: "error", code: "empty-word", message: `The ${!b ? "begin" : "end"} word is empty.` });
+  } else if (b.length !== e.length && !lengthChanges) {
+    list.push({
+      severity: "error",
+      code: "length-mismatch",
+      message: `Begin word "${b}" has ${b.length} letters but end word "${e}" has ${e.length}; no ladder can connect them.`,
+    });
+  } else if (b === e) {
+    list.push({
+      severity: "error",
+      code: "begin-equals-end",
+      message: "Begin and end words are the same; LeetCode 126 requires them to differ.",
+    });
+  }
+
+  const invalid = Array.from(new Set([b, e, ...words].filter((w) => w && !VALID_WORD.test(w))));
+  if (invalid.length) {
+    list.push({
+      severity: "warning",
+      code: "invalid-characters",
+      message: `Found ${invalid.length} word${plural(invalid.length)} with characters other than a–z.`,
+      words: invalid,
+    });
+  }
+
+  if (b && !lengthChanges) {
+    const ignored = Array.from(new Set(words.filter((w) => w.length !== b.length)));
+    if (ignored.length) {
+      list.push({
+        severity: "warning",
+        code: "ignored-words",
+        message: `${ignored.length} word${plural(ignored.length)} without ${b.length} letters will be ignored.`,
+        words: ignored,
+      });
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const w of words) counts.set(w, (counts.get(w) ?? 0) + 1);
+  const duplicates = Array.from(counts).filter(([, n]) => n > 1);
+  if (duplicates.length) {
+    list.push({
+      severity: "info",
+      code: "duplicates",
+      message: `${duplicates.length} word${plural(duplicates.length)} listed more than once; duplicates are dropped.`,
+      words: duplicates.map(([w, n]) => `${w} ×${n}`),
+    });
+  }
+
+  if (e && !counts.has(e)) {
+    list.push(
+      strict
+        ? {
+            severity: "error",
+            code: "end-missing",
+            message: `End word "${e}" is not in the word list, so there is no answer (strict LeetCode mode).`,
+          }
+        : {
+            severity: "info",
+            code: "end-missing",
+            message: `End word "${e}" is not in the word list and was added automatically.`,
+          }
+    );
+  }
+
+  return list.sort((x, y) => severityOrder[x.severity] - severityOrder[y.severity]);
+}
+
+const plural = (n: number) => (n === 1 ? "" : "s");
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { parseWordList, readDictionaryFile } from "./dictionaryFile";
+
+describe("parseWordList", () => {
+  it("splits on newlines, commas and spaces, lowercasing and de-duplicating", () => {
+    expect(parseWordList("Hot, dot\r\ndog  lot\n\nhot")).toEqual(["hot", "dot", "dog", "lot"]);
+  });
+});
+
+describe("readDictionaryFile", () => {
+  const text = "hot\ndot\ndog\nlot\nlog\ncog\n";
+  const gzip = (s: string) => new Response(new Blob([s]).stream().pipeThrough(new CompressionStream("gzip"))).blob();
+
+  it("reads plain-text files", async () => {
+    expect(await readDictionaryFile(new Blob([text]))).toEqual(["hot", "dot", "dog", "lot", "log", "cog"]);
+  });
+
+  it("detects and decompresses gzipped files", async () => {
+    expect(await readDictionaryFile(await gzip(text))).toEqual(["hot", "dot", "dog", "lot", "log", "cog"]);
+  });
+});
@@ -0,0 +1,22 @@
+// Word list parsing shared by the textarea and imported dictionary files
+
+// Split on newlines, commas or whitespace, keeping every token as typed (blanks dropped)
+export const splitWordList = (text: string): string[] => text.split(/\r?\n|,|\s+/).filter(Boolean);
+
+// Lowercase and drop duplicates
+export function parseWordList(text: string): string[] {
+  return Array.from(new Set(splitWordList(text).map((w) => w.toLowerCase())));
+}
+
+const isGzip = (bytes: Uint8Array) => bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+// Read a plain-text dictionary (one word per line), transparently un-gzipping it when needed
+export async function readDictionaryFile(file: Blob): Promise<string[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isGzip(bytes)) return parseWordList(new TextDecoder().decode(bytes));
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("this browser can't decompress gzip files; please import the plain-text list");
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return parseWordList(await new Response(stream).text());
+}
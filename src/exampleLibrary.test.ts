@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { examples } from "./examples";
+import {
+  backupLibrary,
+  LIBRARY_STORAGE_KEY,
+  LIBRARY_VERSION,
+  LibraryExample,
+  mergeLibrary,
+  parseLibrary,
+  parseTags,
+  readLibrary,
+  serializeLibrary,
+  writeLibrary,
+} from "./exampleLibrary";
+
+const saved: LibraryExample = {
+  id: "a",
+  name: "Mine",
+  begin: "hit",
+  end: "cog",
+  words: ["hot", "cog"],
+  description: "",
+  tags: ["homework"],
+};
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => void items.set(k, v), items };
+};
+
+describe("parseLibrary", () => {
+  it("round-trips a serialized library with its version", () => {
+    const text = serializeLibrary([saved]);
+    expect(JSON.parse(text).version).toBe(LIBRARY_VERSION);
+    expect(parseLibrary(text)).toEqual([saved]);
+  });
+
+  it("loads a bare array of examples, the unversioned format, with new ids and no tags", () => {
+    const loaded = parseLibrary(JSON.stringify(examples));
+    expect(loaded.map((e) => e.name)).toEqual(examples.map((e) => e.name));
+    expect(loaded.every((e) => e.id && e.tags.length === 0)).toBe(true);
+    expect(new Set(loaded.map((e) => e.id)).size).toBe(examples.length);
+  });
+
+  it("explains what is wrong with a file", () => {
+    expect(() => parseLibrary("{")).toThrow(/not valid JSON/);
+    expect(() => parseLibrary('{"version": 99, "examples": []}')).toThrow(/newer than this app supports/);
+    expect(() => parseLibrary('{"examples": []}')).toThrow(/library file or an array/);
+    expect(() => parseLibrary('[{"name": "x", "begin": "a", "end": "b"}]')).toThrow(/example 1 \("x"\) has no word list/);
+    expect(() => parseLibrary('[{"begin": "a"}]')).toThrow(/example 1 has no name/);
+  });
+
+  it("renames duplicate ids and normalizes tags", () => {
+    const loaded = parseLibrary(JSON.stringify([saved, { ...saved, tags: ["Easy", "easy ", "x"] }]));
+    expect(loaded[1].id).not.toBe("a");
+    expect(loaded[1].tags).toEqual(["easy", "x"]);
+  });
+});
+
+describe("mergeLibrary", () => {
+  it("replaces examples with the same id and appends the rest", () => {
+    const other = { ...saved, id: "b", name: "Other" };
+    const merged = mergeLibrary([saved, other], [{ ...saved, name: "Renamed" }, { ...saved, id: "c" }]);
+    expect(merged.map((e) => [e.id, e.name])).toEqual([
+      ["a", "Renamed"],
+      ["b", "Other"],
+      ["c", "Mine"],
+    ]);
+  });
+});
+
+describe("readLibrary / writeLibrary", () => {
+  it("persists the library under one key", () => {
+    const storage = memoryStorage();
+    expect(readLibrary(storage)).toEqual([]);
+    writeLibrary(storage, [saved]);
+    expect(storage.items.has(LIBRARY_STORAGE_KEY)).toBe(true);
+    expect(readLibrary(storage)).toEqual([saved]);
+  });
+
+  it("backs unreadable data up to its own key before it is overwritten", () => {
+    const storage = memoryStorage();
+    expect(backupLibrary(storage)).toBeNull();
+    storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify({ version: LIBRARY_VERSION + 1, examples: [] }));
+    expect(() => readLibrary(storage)).toThrow();
+    const key = backupLibrary(storage)!;
+    writeLibrary(storage, [saved]);
+    expect(JSON.parse(storage.items.get(key)!).version).toBe(LIBRARY_VERSION + 1);
+  });
+});
+
+describe("parseTags", () => {
+  it("splits on commas, lowercases and drops blanks and duplicates", () => {
+    expect(parseTags(" BFS, hard,,bfs ")).toEqual(["bfs", "hard"]);
+  });
+});
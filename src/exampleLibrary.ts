@@ -0,0 +1,111 @@
+// The user's own example library: named begin/end/word list setups with tags, kept in localStorage
+// and exchanged as JSON files. Every stored or exported collection carries a schema version.
+import type { WordLadderExample } from "./examples";
+
+export interface LibraryExample extends WordLadderExample {
+  id: string;
+  tags: string[];
+}
+
+export const LIBRARY_VERSION = 1;
+export const LIBRARY_STORAGE_KEY = "word-ladder-library";
+
+// Version 0 is a bare JSON array of WordLadderExample objects, like `examples` itself; it is
+// read as version 1 with fresh ids and no tags.
+interface LibraryFile {
+  version: number;
+  examples: LibraryExample[];
+}
+
+export const newExampleId = () => `ex-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Comma-separated tags, lowercased and without duplicates
+export function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+export const serializeLibrary = (examples: LibraryExample[]) =>
+  JSON.stringify({ version: LIBRARY_VERSION, examples } satisfies LibraryFile, null, 2);
+
+// Throws an Error describing the first problem. Examples without an id (or sharing one) get a new id.
+export function parseLibrary(text: string): LibraryExample[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`not valid JSON (${(err as Error).message})`);
+  }
+
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (data && typeof data === "object" && "version" in data) {
+    const { version, examples } = data as { version: unknown; examples?: unknown };
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) throw new Error(`unknown library version ${String(version)}`);
+    if (version > LIBRARY_VERSION) throw new Error(`library version ${version} is newer than this app supports (${LIBRARY_VERSION})`);
+    if (!Array.isArray(examples)) throw new Error("the library has no examples array");
+    items = examples;
+  } else {
+    throw new Error("expected a library file or an array of examples");
+  }
+
+  const ids = new Set<string>();
+  return items.map((item, i) => {
+    const example = readExample(item, i);
+    if (ids.has(example.id)) example.id = newExampleId();
+    ids.add(example.id);
+    return example;
+  });
+}
+
+function readExample(item: unknown, i: number): LibraryExample {
+  const where = `example ${i + 1}`;
+  if (!item || typeof item !== "object") throw new Error(`${where} is not an object`);
+  const { id, name, begin, end, words, description = "", tags = [] } = item as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim()) throw new Error(`${where} has no name`);
+  if (typeof begin !== "string" || typeof end !== "string") throw new Error(`${where} ("${name}") is missing its begin or end word`);
+  if (!Array.isArray(words) || !words.every((w) => typeof w === "string")) throw new Error(`${where} ("${name}") has no word list`);
+  if (typeof description !== "string") throw new Error(`${where} ("${name}") has a malformed description`);
+  if (!Array.isArray(tags) || !tags.every((t) => typeof t === "string")) throw new Error(`${where} ("${name}") has malformed tags`);
+  return {
+    id: typeof id === "string" && id ? id : newExampleId(),
+    name,
+    begin,
+    end,
+    words,
+    description,
+    tags: parseTags(tags.join(",")),
+  };
+}
+
+// Imported examples replace stored ones with the same id and are appended otherwise
+export function mergeLibrary(existing: LibraryExample[], imported: LibraryExample[]): LibraryExample[] {
+  const byId = new Map(imported.map((e) => [e.id, e]));
+  const merged = existing.map((e) => byId.get(e.id) ?? e);
+  const kept = new Set(existing.map((e) => e.id));
+  return [...merged, ...imported.filter((e) => !kept.has(e.id))];
+}
+
+type LibraryStorage = Pick<Storage, "getItem" | "setItem">;
+
+// An empty library when nothing is stored; throws when the stored data is unreadable
+export function readLibrary(storage: LibraryStorage): LibraryExample[] {
+  const text = storage.getItem(LIBRARY_STORAGE_KEY);
+  return text === null ? [] : parseLibrary(text);
+}
+
+// Copies the stored library to a key of its own before it is overwritten, so data that couldn't be
+// read (corrupt, or from a newer schema version) can still be recovered. Returns that key, or null
+// when nothing is stored. Throws when storage is full or unavailable.
+export function backupLibrary(storage: LibraryStorage): string | null {
+  const text = storage.getItem(LIBRARY_STORAGE_KEY);
+  if (text === null) return null;
+  const key = `${LIBRARY_STORAGE_KEY}-backup-${Date.now()}`;
+  storage.setItem(key, text);
+  return key;
+}
+
+// Throws when storage is full or unavailable
+export function writeLibrary(storage: LibraryStorage, examples: LibraryExample[]) {
+  storage.setItem(LIBRARY_STORAGE_KEY, serializeLibrary(examples));
+}
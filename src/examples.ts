@@ -1,9 +1,12 @@
+import type { Lesson } from "./lesson";
+
 export interface WordLadderExample {
   name: string;
   begin: string;
   end: string;
   words: string[];
   description: string;
+  lesson?: Lesson; // guided questions asked while playing this example back
 }
 
 export const examples: WordLadderExample[] = [
@@ -12,7 +15,31 @@ export const examples: WordLadderExample[] = [
     begin: "hit",
     end: "cog",
     words: ["hot", "dot", "dog", "lot", "log", "cog"],
-    description: "The classic LeetCode example with 2 shortest paths"
+    description: "The classic LeetCode example with 2 shortest paths",
+    lesson: {
+      intro: "Follow layered BFS from hit to cog. Playback pauses just before each answer is drawn.",
+      questions: [
+        {
+          kind: "next-frontier",
+          level: 1,
+          explanation: "hot is one letter away from dot and lot. hit is too, but it was visited on level 0, so it is skipped."
+        },
+        {
+          kind: "next-frontier",
+          level: 2,
+          explanation: "dot reaches dog and lot reaches log. dot and lot are neighbors too, but a word on the same level never becomes a parent."
+        },
+        {
+          kind: "parents",
+          word: "cog",
+          explanation: "dog and log are both on level 3 and both reach cog, so cog keeps two parents. Marking words visited as soon as they are discovered would drop the second one."
+        },
+        {
+          kind: "path-count",
+          explanation: "One path runs through each parent of cog: hit → hot → dot → dog → cog and hit → hot → lot → log → cog."
+        }
+      ]
+    }
   },
   {
     name: "Simple (cat → dog)",
@@ -26,14 +53,43 @@ export const examples: WordLadderExample[] = [
     begin: "red",
     end: "hot",
     words: ["red", "ted", "tex", "rex", "hex", "het", "hot", "rot", "tot"],
-    description: "Multiple shortest paths of equal length"
+    description: "Multiple shortest paths of equal length",
+    lesson: {
+      intro: "Not every word with two parents is on a shortest path.",
+      questions: [
+        {
+          kind: "parents",
+          word: "tex",
+          explanation: "ted and rex are both on level 1 and both reach tex, so tex gets two parents."
+        },
+        {
+          kind: "path-count",
+          explanation: "tex is a dead end: nothing after it leads to hot. The only ladder is red → rex → hex → het → hot."
+        }
+      ]
+    }
   },
   {
     name: "Long Chain (cold → warm)",
     begin: "cold",
     end: "warm",
     words: ["cold", "cord", "card", "ward", "warm", "worm", "word", "lord"],
-    description: "A longer transformation sequence"
+    description: "A longer transformation sequence",
+    lesson: {
+      intro: "Shortest paths can split and merge again. Count them with the parent links.",
+      questions: [
+        { kind: "next-frontier", level: 1 },
+        {
+          kind: "parents",
+          word: "ward",
+          explanation: "card and word are both on level 2 and both reach ward."
+        },
+        {
+          kind: "path-count",
+          explanation: "ward has two parents and warm has two (ward and worm): cord → card → ward, cord → word → ward and cord → word → worm each end in warm."
+        }
+      ]
+    }
   },
   {
     name: "No Solution (dog → cat)",
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { graphToSvg, parentsToDot, pathsToCsv, pathsToJson } from "./exportFormats";
+import { buildEdges, computeLayout } from "./layout";
+import { solveWordLadder } from "./solver";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+describe("path export", () => {
+  const { allPaths } = solveWordLadder(input);
+
+  it("writes one JSON path per line and round-trips", () => {
+    const json = pathsToJson(allPaths);
+    expect(json.split("\n")[1]).toBe('  ["hit","hot","dot","dog","cog"],');
+    expect(JSON.parse(json)).toEqual(allPaths);
+    expect(JSON.parse(pathsToJson([]))).toEqual([]);
+  });
+
+  it("writes CSV rows padded to the longest path, quoting where needed", () => {
+    expect(pathsToCsv(allPaths).split("\n")[0]).toBe("path,word 1,word 2,word 3,word 4,word 5");
+    expect(pathsToCsv([["a", "b"], ["a", 'x,"y"', "c"]])).toBe('path,word 1,word 2,word 3\n1,a,b,\n2,a,"x,""y""",c\n');
+  });
+});
+
+describe("parentsToDot", () => {
+  it("lists every discovered word and parent link, bolding shortest-path edges", () => {
+    const { finalParents, allPaths } = solveWordLadder(input);
+    const dot = parentsToDot(finalParents, { begin: "hit", end: "cog", paths: allPaths });
+    expect(dot.startsWith("digraph ladder {\n  rankdir=LR;")).toBe(true);
+    expect(dot).toContain('  "hit" [color="#0ea5e9", fillcolor="#e0f2fe", penwidth=2];');
+    expect(dot).toContain('  "cog" [peripheries=2, penwidth=2];');
+    expect(dot).toContain('  "dog" -> "cog" [color="#10b981", penwidth=2];');
+    expect(dot.trimEnd().endsWith("}")).toBe(true);
+  });
+
+  it("escapes quotes in word ids", () => {
+    const dot = parentsToDot({ 'a"b': new Set(["a\\b"]) }, { begin: "a\\b", end: 'a"b', paths: [] });
+    expect(dot).toContain('  "a\\\\b" -> "a\\"b";');
+  });
+});
+
+describe("graphToSvg", () => {
+  const { frames, finalParents, allPaths } = solveWordLadder(input);
+  const columns = [...frames.map((f) => f.frontier), frames[frames.length - 1].nextFrontier];
+  const layout = computeLayout(columns);
+  const edges = buildEdges(columns, finalParents, layout.pos);
+  const svg = graphToSvg({
+    columns,
+    edges,
+    layout,
+    forwardColumns: columns.length,
+    beginWord: "hit",
+    endWord: "cog",
+    solvedWords: new Set(allPaths.flat()),
+    meetingWords: new Set(),
+    activePath: [],
+  });
+
+  it("is a standalone SVG of the whole layout", () => {
+    expect(svg.startsWith(`<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}"`)).toBe(true);
+    expect(svg.match(/<path /g)).toHaveLength(edges.length);
+  });
+
+  it("redraws the HTML word boxes as text on top of the edges", () => {
+    for (const w of ["hit", "hot", "dot", "lot", "dog", "log", "cog"]) expect(svg).toContain(`>${w}</text>`);
+    expect(svg.lastIndexOf("<path ")).toBeLessThan(svg.indexOf("<text "));
+    expect(svg).toContain('font-weight="600"'); // the end word
+  });
+
+  it("draws collapsed-word badges and escapes text", () => {
+    const out = graphToSvg({
+      columns: [["a<b"]],
+      edges: [],
+      layout: computeLayout([["a<b"]], [3]),
+      forwardColumns: 1,
+      beginWord: "a<b",
+      endWord: "z",
+      solvedWords: new Set(),
+      meetingWords: new Set(),
+      activePath: [],
+    });
+    expect(out).toContain(">a&lt;b</text>");
+    expect(out).toContain(">+3 more</text>");
+  });
+});
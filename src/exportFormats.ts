@@ -0,0 +1,175 @@
+// Getting results out of the app: shortest paths as JSON/CSV, the parent DAG as Graphviz DOT, and
+// the graph canvas as a standalone SVG (or PNG) image.
+import { edgePath, edgeStroke, GraphEdge, GraphLayout, nodeKey, wordOf } from "./layout";
+import type { Parents } from "./solver";
+
+// One path per line so diffs of regression fixtures stay readable
+export function pathsToJson(paths: string[][]): string {
+  if (!paths.length) return "[]\n";
+  return `[\n${paths.map((p) => `  ${JSON.stringify(p)}`).join(",\n")}\n]\n`;
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per path; shorter paths (weighted search) leave their trailing cells empty
+export function pathsToCsv(paths: string[][]): string {
+  const longest = Math.max(0, ...paths.map((p) => p.length));
+  const header = ["path", ...Array.from({ length: longest }, (_, i) => `word ${i + 1}`)];
+  const rows = paths.map((p, i) => [String(i + 1), ...p, ...Array(longest - p.length).fill("")]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+const dotId = (w: string) => `"${w.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// The discovered parent DAG, oriented parent -> child. Edges and words on a shortest path are bold.
+export function parentsToDot(parents: Parents, options: { begin: string; end: string; paths: string[][] }): string {
+  const onPath = new Set(options.paths.flatMap((p) => p.slice(1).map((w, i) => `${p[i]}>${w}`)));
+  const pathWords = new Set(options.paths.flat());
+  const words = new Set([options.begin]);
+  for (const [child, ps] of Object.entries(parents)) {
+    for (const p of ps) words.add(p);
+    words.add(child);
+  }
+
+  const lines = ["digraph ladder {", "  rankdir=LR;", '  node [shape=box, style="rounded,filled", fillcolor=white, fontname="sans-serif"];'];
+  for (const w of words) {
+    const attrs: string[] = [];
+    if (w === options.begin) attrs.push('color="#0ea5e9"', 'fillcolor="#e0f2fe"');
+    if (w === options.end) attrs.push("peripheries=2");
+    if (pathWords.has(w)) attrs.push("penwidth=2");
+    lines.push(`  ${dotId(w)}${attrs.length ? ` [${attrs.join(", ")}]` : ""};`);
+  }
+  for (const [child, ps] of Object.entries(parents)) {
+    for (const p of ps) {
+      const bold = onPath.has(`${p}>${child}`) ? ' [color="#10b981", penwidth=2]' : "";
+      lines.push(`  ${dotId(p)} -> ${dotId(child)}${bold};`);
+    }
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// What the Graph component is showing, minus the transient neighbor probes
+export interface GraphSnapshot {
+  columns: string[][];
+  edges: GraphEdge[];
+  layout: GraphLayout;
+  forwardColumns: number;
+  beginWord: string;
+  endWord: string;
+  solvedWords: Set<string>;
+  meetingWords: Set<string>;
+  activePath: string[];
+  unreachedColumn?: number;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// The canvas draws edges in an SVG and words as HTML boxes on top. A standalone image can't
+// contain HTML, so the boxes are redrawn as rounded rects with matching colors. Text width is
+// estimated from the word length since there is no DOM to measure it.
+const NODE_HEIGHT = 28;
+const CHAR_WIDTH = 8;
+const NODE_PADDING_X = 12;
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+
+const nodeWidth = (text: string, size = 14) => text.length * CHAR_WIDTH * (size / 14) + 2 * NODE_PADDING_X;
+
+function box(x: number, y: number, w: number, h: number, attrs: string) {
+  return `<rect x="${x - w / 2}" y="${y - h / 2}" width="${w}" height="${h}" rx="${h / 2 - 2}" ${attrs}/>`;
+}
+
+export function graphToSvg(graph: GraphSnapshot): string {
+  const { pos, badges, width, height, edgeStyle } = graph.layout;
+  const unreachedColumn = graph.unreachedColumn ?? -1;
+  const activeEdges = new Set(graph.activePath.slice(1).map((w, i) => `${w}>${graph.activePath[i]}`));
+  const visiting = new Set(graph.activePath);
+  const activeWord = graph.activePath[graph.activePath.length - 1];
+
+  const out = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+  ];
+
+  for (const e of graph.edges) {
+    const d = edgePath(e.from, e.to, edgeStyle);
+    if (activeEdges.has(`${wordOf(e.from.key)}>${wordOf(e.to.key)}`)) {
+      out.push(`<path d="${d}" stroke="#c026d3" stroke-width="3" fill="none"/>`);
+      continue;
+    }
+    const style = edgeStroke[e.kind];
+    const dash = style.dash ? ` stroke-dasharray="${style.dash}"` : "";
+    out.push(`<path d="${d}" stroke="${style.color}" stroke-width="${style.width}"${dash} fill="none"/>`);
+  }
+
+  graph.columns.forEach((col, ci) =>
+    col.forEach((w) => {
+      const p = pos[nodeKey(w, ci)];
+      if (!p) return;
+      const isSource = ci === 0 && w === graph.beginWord;
+      const isTarget = w === graph.endWord;
+      const isUnreached = ci === unreachedColumn;
+      const isBackward = ci >= graph.forwardColumns && !isUnreached;
+      const wBox = nodeWidth(w);
+      const fill = w === activeWord ? "#fae8ff" : graph.meetingWords.has(w) ? "#fffbeb" : "#ffffff";
+      const stroke = isSource ? "#7dd3fc" : isBackward ? "#c4b5fd" : "#e2e8f0";
+      const dashed = isUnreached && !isTarget ? ' stroke-dasharray="4 3"' : "";
+      // Rings and outlines sit outside the box, like their CSS counterparts
+      if (visiting.has(w)) out.push(box(p.x, p.y, wBox + 10, NODE_HEIGHT + 10, 'fill="none" stroke="#d946ef" stroke-width="2"'));
+      if (graph.solvedWords.has(w)) out.push(box(p.x, p.y, wBox + 4, NODE_HEIGHT + 4, 'fill="none" stroke="#34d399" stroke-width="2"'));
+      out.push(box(p.x, p.y, wBox, NODE_HEIGHT, `fill="${fill}" stroke="${stroke}"${dashed}`));
+      const color = isUnreached && !isTarget ? "#94a3b8" : "#0f172a";
+      const weight = isTarget ? ' font-weight="600"' : "";
+      out.push(
+        `<text x="${p.x}" y="${p.y}" font-size="14" fill="${color}"${weight} text-anchor="middle" dominant-baseline="central">${escapeXml(w)}</text>`
+      );
+    })
+  );
+
+  for (const b of badges) {
+    const label = `+${b.count.toLocaleString("en-US")} more`;
+    out.push(box(b.x, b.y, nodeWidth(label, 12), 24, 'fill="#f8fafc" stroke="#cbd5e1" stroke-dasharray="4 3"'));
+    out.push(`<text x="${b.x}" y="${b.y}" font-size="12" fill="#64748b" text-anchor="middle" dominant-baseline="central">${label}</text>`);
+  }
+
+  out.push("</svg>");
+  return out.join("\n") + "\n";
+}
+
+// ----- Browser-only helpers -----
+
+// Rasterise an SVG string at `scale` times its size (sharper text on slides)
+export async function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("the graph image could not be rendered"));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("this browser has no 2D canvas");
+    ctx.scale(scale, scale);
+    ctx.drawImage(image, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("the PNG could not be encoded"))), "image/png")
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadFile(name: string, data: Blob | string, type = "text/plain") {
+  const url = URL.createObjectURL(typeof data === "string" ? new Blob([data], { type }) : data);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  addToWordList,
+  criticalParts,
+  emptyHistory,
+  previewAdditions,
+  recordEdit,
+  redoEdit,
+  removeFromWordList,
+  undoEdit,
+  wordLevels,
+} from "./graphEditing";
+import { buildMoveGraph } from "./moves";
+import { solveWordLadder } from "./solver";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+describe("word list edits", () => {
+  it("removes every occurrence of a word, keeping the list's separator", () => {
+    expect(removeFromWordList("hot\ndot\nDog\ndog", "dog")).toBe("hot\ndot");
+    expect(removeFromWordList("hot, dot dog", "dot")).toBe("hot, dog");
+  });
+
+  it("appends words on their own lines", () => {
+    expect(addToWordList("hot\ndot\n", ["cot", "cat"])).toBe("hot\ndot\ncot\ncat");
+    expect(addToWordList("", ["cot"])).toBe("cot");
+  });
+});
+
+describe("edit history", () => {
+  it("undoes and redoes edits in order, dropping redo after a new edit", () => {
+    let history = recordEdit(recordEdit(emptyHistory<string>(), "a"), "b");
+    const undone = undoEdit(history, "c")!;
+    expect(undone.state).toBe("b");
+    const redone = redoEdit(undone.history, "b")!;
+    expect(redone.state).toBe("c");
+    history = recordEdit(undone.history, "b");
+    expect(history.future).toEqual([]);
+    expect(undoEdit(emptyHistory<string>(), "x")).toBeNull();
+    expect(redoEdit(history, "x")).toBeNull();
+  });
+});
+
+describe("previewAdditions", () => {
+  const graph = buildMoveGraph(input.begin, input.words);
+  const options = {
+    graph,
+    fromBegin: wordLevels(input.begin, graph),
+    fromEnd: wordLevels(input.end, graph),
+    end: input.end,
+    inList: new Set(input.words),
+    eligible: (w: string) => w.length === 3,
+  };
+
+  it("attaches a word one level after its nearest neighbors", () => {
+    const [hig, cot] = previewAdditions(["hig", "cot"], options);
+    expect(hig).toEqual({ word: "hig", status: "new", level: 1, neighbors: ["hit"], shortens: false });
+    // hot -> cot -> cog skips a level
+    expect(cot).toEqual({ word: "cot", status: "new", level: 2, neighbors: ["hot"], shortens: true });
+  });
+
+  it("flags words already listed, unreachable or of the wrong length", () => {
+    expect(previewAdditions(["dot", "xyz", "hits"], options).map((p) => [p.status, p.level])).toEqual([
+      ["in-list", 2],
+      ["new", null],
+      ["unusable", null],
+    ]);
+  });
+});
+
+describe("criticalParts", () => {
+  it("finds the words and links every shortest path goes through", () => {
+    const { finalParents } = solveWordLadder(input);
+    expect(criticalParts(finalParents, input.begin, input.end)).toEqual({ words: ["hot"], edges: [["hit", "hot"]] });
+  });
+
+  it("marks a whole single ladder as critical, and nothing when there is no ladder", () => {
+    const { finalParents } = solveWordLadder({ begin: "cat", end: "dog", words: ["cot", "cog", "dog"] });
+    const { words, edges } = criticalParts(finalParents, "cat", "dog");
+    expect(words.sort()).toEqual(["cog", "cot"]);
+    expect(edges).toHaveLength(3);
+    expect(criticalParts({}, "cat", "dog")).toEqual({ words: [], edges: [] });
+  });
+});
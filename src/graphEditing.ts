@@ -0,0 +1,131 @@
+// Editing the problem from the graph: removing words from the list, previewing where new words
+// would attach, undo/redo history, and the words and links every shortest path depends on.
+import { splitWordList } from "./dictionaryFile";
+import type { MoveGraph } from "./moves";
+import { countShortestPaths, Parents } from "./solver";
+
+// Drop every occurrence of `word` (case-insensitively) from a word list, keeping the other tokens
+// and the list's separator: one word per line unless the text has no newlines.
+export function removeFromWordList(text: string, word: string): string {
+  const target = word.toLowerCase();
+  const kept = splitWordList(text).filter((w) => w.toLowerCase() !== target);
+  return kept.join(text.includes("\n") || !text.trim() ? "\n" : ", ");
+}
+
+export function addToWordList(text: string, words: string[]): string {
+  return [text.trimEnd(), ...words].filter(Boolean).join("\n");
+}
+
+// ----- Undo / redo -----
+
+export interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+// Remember `current` before an edit replaces it; redo is lost
+export const recordEdit = <T>(history: History<T>, current: T): History<T> => ({
+  past: [...history.past, current].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+// The state to restore and the history after restoring it, or null when there is nothing to undo
+export function undoEdit<T>(history: History<T>, current: T): { state: T; history: History<T> } | null {
+  if (!history.past.length) return null;
+  return {
+    state: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+  };
+}
+
+export function redoEdit<T>(history: History<T>, current: T): { state: T; history: History<T> } | null {
+  if (!history.future.length) return null;
+  return {
+    state: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+  };
+}
+
+// ----- Adding words -----
+
+export interface AttachPreview {
+  word: string;
+  status: "new" | "in-list" | "unusable"; // unusable: no move can reach it, e.g. a different length without insert/delete
+  level: number | null; // BFS level it would join: one more than its nearest neighbor's, null if none is reachable
+  neighbors: string[]; // reachable neighbors on the level before it
+  shortens: boolean; // it would bring the end word closer
+}
+
+// Moves from `source` to every word it can reach, ignoring where the other end is
+export function wordLevels(source: string, graph: MoveGraph): Map<string, number> {
+  const levels = new Map([[source, 0]]);
+  let frontier = [source];
+  for (let level = 1; frontier.length; level++) {
+    const next: string[] = [];
+    for (const w of frontier) {
+      for (const v of graph.neighbors(w)) {
+        if (levels.has(v)) continue;
+        levels.set(v, level);
+        next.push(v);
+      }
+    }
+    frontier = next;
+  }
+  return levels;
+}
+
+// Where each candidate would attach, from the current graph (MoveGraph.neighbors also answers for words
+// outside the dictionary) and its levels counted from the begin and the end word
+export function previewAdditions(
+  candidates: string[],
+  { graph, fromBegin, fromEnd, end, inList, eligible }: {
+    graph: MoveGraph;
+    fromBegin: Map<string, number>;
+    fromEnd: Map<string, number>;
+    end: string;
+    inList: Set<string>;
+    eligible: (word: string) => boolean; // whether the move set can use a word of this length
+  }
+): AttachPreview[] {
+  const endLevel = fromBegin.get(end) ?? Infinity;
+  return candidates.map((word) => {
+    if (inList.has(word)) return { word, status: "in-list", level: fromBegin.get(word) ?? null, neighbors: [], shortens: false };
+    if (!eligible(word)) return { word, status: "unusable", level: null, neighbors: [], shortens: false };
+    const adjacent = graph.neighbors(word);
+    const reached = adjacent.filter((v) => fromBegin.has(v));
+    if (!reached.length) return { word, status: "new", level: null, neighbors: [], shortens: false };
+    const nearest = Math.min(...reached.map((v) => fromBegin.get(v)!));
+    const toEnd = Math.min(...adjacent.map((v) => (fromEnd.get(v) ?? Infinity) + 1));
+    return {
+      word,
+      status: "new",
+      level: nearest + 1,
+      neighbors: reached.filter((v) => fromBegin.get(v) === nearest).sort(),
+      shortens: nearest + 1 + toEnd < endLevel,
+    };
+  });
+}
+
+// ----- Critical words and links -----
+
+// Words and parent -> child links that every shortest path goes through (the articulation points of
+// the shortest-path DAG): removing any one of them kills every shortest path. Begin and end are left out.
+export function criticalParts(parents: Parents, begin: string, end: string): { words: string[]; edges: Array<[string, string]> } {
+  const { total, through, fromBegin, toEnd } = countShortestPaths(parents, begin, end);
+  if (!total) return { words: [], edges: [] };
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  const words = Array.from(through)
+    .filter(([w, n]) => n === total && w !== src && w !== tgt)
+    .map(([w]) => w);
+  const edges: Array<[string, string]> = [];
+  for (const [child, ps] of Object.entries(parents)) {
+    if (!toEnd.has(child)) continue;
+    for (const p of ps) if ((fromBegin.get(p) ?? 0) * toEnd.get(child)! === total) edges.push([p, child]);
+  }
+  return { words, edges };
+}
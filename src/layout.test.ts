@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEdges,
+  buildWordGraphEdges,
+  collapseColumns,
+  computeLayout,
+  forceLayout,
+  frameColumns,
+  layoutFromWordPositions,
+  oneLetterLinks,
+  SPACING_X,
+} from "./layout";
+import { solveWordLadder } from "./solver";
+
+describe("frameColumns", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+  it("lays out the begin word and each level discovered so far", () => {
+    const { frames } = solveWordLadder(input);
+    expect(frameColumns(frames, 1, { begin: "hit", end: "cog", algorithm: "bfs" })).toEqual({
+      columns: [["hit"], ["hot"], ["dot", "lot"]],
+      forwardColumns: 3,
+    });
+    expect(frameColumns(frames, 1, { begin: "hit", end: "cog", algorithm: "bfs", partial: ["dot"] }).columns).toEqual([["hit"], ["hot"], ["dot"]]);
+  });
+
+  it("keeps the end word in the last column of a bidirectional search from the start", () => {
+    const { frames } = solveWordLadder({ ...input, algorithm: "bidirectional" });
+    const { columns, forwardColumns } = frameColumns(frames, 0, { begin: "hit", end: "cog", algorithm: "bidirectional" });
+    const final = frameColumns(frames, frames.length - 1, { begin: "hit", end: "cog", algorithm: "bidirectional" });
+    expect(columns[columns.length - 1]).toEqual(["cog"]);
+    expect(columns).toHaveLength(final.columns.length);
+    expect(forwardColumns).toBeLessThan(columns.length);
+  });
+});
+
+describe("computeLayout", () => {
+  it("keeps every column on the canvas, centred on the tallest one", () => {
+    const columns = [["hit"], Array.from({ length: 40 }, (_, i) => `w${i}`), ["cog"]];
+    const { pos, height } = computeLayout(columns);
+    const ys = Object.values(pos).map((p) => p.y);
+    expect(Math.min(...ys)).toBeGreaterThan(0);
+    expect(Math.max(...ys)).toBeLessThan(height);
+    expect(pos["hit@0"].y).toBe(pos["cog@2"].y);
+    expect(pos["cog@2"].x - pos["hit@0"].x).toBe(2 * SPACING_X);
+  });
+
+  it("places a badge below a column with collapsed words", () => {
+    const { pos, badges } = computeLayout([["hit"], ["hot"]], [0, 12]);
+    expect(badges).toEqual([{ column: 1, count: 12, x: pos["hot@1"].x, y: expect.any(Number) }]);
+    expect(badges[0].y).toBeGreaterThan(pos["hot@1"].y);
+  });
+});
+
+describe("collapseColumns", () => {
+  it("keeps shortest-path words and counts the rest", () => {
+    const onPath = new Set(["hit", "hot", "dot"]);
+    expect(collapseColumns([["hit"], ["hot"], ["dot", "lot", "pot"]], onPath)).toEqual({
+      columns: [["hit"], ["hot"], ["dot"]],
+      hidden: [0, 0, 2],
+    });
+  });
+
+  it("keeps the first words of columns with no shortest-path words", () => {
+    expect(collapseColumns([["a", "b", "c"]], new Set(), 2)).toEqual({ columns: [["a", "b"]], hidden: [1] });
+  });
+});
+
+describe("buildEdges", () => {
+  it("links children to parents in earlier columns and marks frontier meetings", () => {
+    const columns = [["hit"], ["hot"], ["dot"], ["dog"], ["cog"]];
+    const { pos } = computeLayout(columns);
+    const parents = { hot: new Set(["hit"]), dot: new Set(["hot"]), dog: new Set(["dot"]), cog: new Set(["dog"]) };
+    const edges = buildEdges(columns, parents, pos, 3);
+    expect(edges.map((e) => `${e.from.key}>${e.to.key}:${e.kind}`).sort()).toEqual([
+      "dog@3>cog@4:tree",
+      "dot@2>dog@3:meet",
+      "hit@0>hot@1:tree",
+      "hot@1>dot@2:tree",
+    ]);
+  });
+
+  it("drops edges whose ends were collapsed away", () => {
+    const columns = [["hit"], []];
+    const { pos } = computeLayout(columns);
+    expect(buildEdges(columns, { hot: new Set(["hit"]) }, pos)).toEqual([]);
+  });
+});
+
+describe("oneLetterLinks", () => {
+  it("lists each one-letter pair once", () => {
+    expect(oneLetterLinks(["hot", "dot", "dog", "hit", "cat"]).sort()).toEqual([
+      ["dog", "dot"],
+      ["dot", "hot"],
+      ["hit", "hot"],
+    ]);
+  });
+});
+
+describe("buildWordGraphEdges", () => {
+  const describeEdges = (columns: string[][], parents: Parameters<typeof buildWordGraphEdges>[1], forwardColumns?: number, unreached?: number) =>
+    buildWordGraphEdges(columns, parents, computeLayout(columns).pos, forwardColumns, unreached)
+      .map((e) => `${e.from.key}>${e.to.key}:${e.kind}`)
+      .sort();
+
+  it("classifies tree, extra-parent and same-level edges of a finished search", () => {
+    const columns = [["hit"], ["hot"], ["dot", "lot"], ["dog", "log"], ["cog"]];
+    const { finalParents } = solveWordLadder({ begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] });
+    expect(describeEdges(columns, finalParents)).toEqual([
+      "dog@3>cog@4:tree",
+      "dot@2>dog@3:tree",
+      "dot@2>lot@2:same-level",
+      "dog@3>log@3:same-level",
+      "hit@0>hot@1:tree",
+      "hot@1>dot@2:tree",
+      "hot@1>lot@2:tree",
+      "log@3>cog@4:extra-parent",
+      "lot@2>log@3:tree",
+    ].sort());
+  });
+
+  it("marks non-parent links across levels as back edges and links to undiscovered words as unexplored", () => {
+    const columns = [["hot"], ["dot"], ["dog"], ["cog"]];
+    expect(describeEdges(columns, { dog: new Set(["dot"]) }, 3, 3)).toEqual([
+      "dog@2>cog@3:unexplored",
+      "dot@1>dog@2:tree",
+      "dot@1>hot@0:back",
+    ]);
+  });
+});
+
+describe("forceLayout", () => {
+  const words = ["hit", "hot", "dot", "lot", "dog", "log", "cog"];
+
+  it("is deterministic and stays within its bounds", () => {
+    const a = forceLayout(words, oneLetterLinks(words));
+    expect(forceLayout(words, oneLetterLinks(words))).toEqual(a);
+    for (const p of Object.values(a.pos)) {
+      expect(p.x).toBeGreaterThan(0);
+      expect(p.y).toBeGreaterThan(0);
+      expect(p.x).toBeLessThan(a.width);
+      expect(p.y).toBeLessThan(a.height);
+    }
+  });
+
+  it("pulls linked words closer than unlinked ones", () => {
+    const { pos } = forceLayout(words, oneLetterLinks(words));
+    const dist = (a: string, b: string) => Math.hypot(pos[a].x - pos[b].x, pos[a].y - pos[b].y);
+    expect(dist("hit", "hot")).toBeLessThan(dist("hit", "cog"));
+  });
+
+  it("is placed onto graph columns by word", () => {
+    const { pos, width, height } = forceLayout(words, oneLetterLinks(words));
+    const layout = layoutFromWordPositions([["hit"], ["hot", "missing"]], pos, { width, height });
+    expect(layout.pos).toEqual({ "hit@0": pos.hit, "hot@1": pos.hot });
+    expect(layout.edgeStyle).toBe("straight");
+  });
+});
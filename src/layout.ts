@@ -0,0 +1,325 @@
+// Graph layout: BFS levels as columns (or a force-directed layout of the raw word graph).
+// Pure so the same rules can be reused outside the React component.
+import type { MoveGraph } from "./moves";
+import { Algorithm, BFSFrame, Parents, patternKey } from "./solver";
+
+export type Point = { x: number; y: number };
+export type GraphNodePos = { key: string } & Point; // key is `${word}@${column}`
+export type EdgeKind =
+  | "tree" // a child's first parent
+  | "meet" // parent link joining the two frontiers (bidirectional)
+  | "extra-parent" // additional shortest-path parent
+  | "same-level" // both words on the same level
+  | "back" // to an earlier level, but not a parent link
+  | "unexplored"; // touches a word the search hasn't reached
+export type GraphEdge = { from: GraphNodePos; to: GraphNodePos; kind: EdgeKind };
+// "+N more" placeholder for the words collapsed out of a column
+export type CollapsedBadge = { column: number; count: number } & Point;
+
+export interface GraphLayout {
+  pos: Record<string, Point>;
+  badges: CollapsedBadge[];
+  width: number;
+  height: number;
+  edgeStyle: "curved" | "straight"; // curves suit left-to-right columns, straight lines free layouts
+}
+
+export const SPACING_X = 200;
+export const SPACING_Y = 56;
+const START_X = 120;
+const PADDING_Y = 48; // space above the tallest column and below it
+const MIN_GAP_X = 110; // closest two distance-placed columns may get
+
+// Stroke per edge kind, shared by the canvas, its legend and exported images
+export const edgeStroke: Record<EdgeKind, { color: string; width: number; dash?: string }> = {
+  tree: { color: "#94a3b8", width: 1.5 },
+  meet: { color: "#f59e0b", width: 2.5 },
+  "extra-parent": { color: "#6366f1", width: 1.5, dash: "6 3" },
+  "same-level": { color: "#f97316", width: 1.25, dash: "2 3" },
+  back: { color: "#e11d48", width: 1.25, dash: "8 4" },
+  unexplored: { color: "#cbd5e1", width: 1, dash: "1 4" },
+};
+
+// Colorblind-safe (Okabe–Ito) colors for the accessible palette; widths and dashes stay the same
+export const safeEdgeColors: Record<EdgeKind, string> = {
+  tree: "#8c8c8c",
+  meet: "#E69F00",
+  "extra-parent": "#0072B2",
+  "same-level": "#CC79A7",
+  back: "#D55E00",
+  unexplored: "#c8c8c8",
+};
+
+export const edgeStrokeFor = (kind: EdgeKind, safe = false) => (safe ? { ...edgeStroke[kind], color: safeEdgeColors[kind] } : edgeStroke[kind]);
+
+export const nodeKey = (word: string, column: number) => `${word}@${column}`;
+export const wordOf = (key: string) => key.slice(0, key.lastIndexOf("@"));
+
+// Columns are centred on the middle of the tallest one so wide levels never go off the top.
+// `hidden[ci]` words collapsed out of column ci get one badge slot below the column.
+// With `distances`, column ci is placed at distances[ci] levels from the left (weighted search),
+// nudged right where two columns would otherwise overlap.
+export function computeLayout(columns: string[][], hidden: number[] = [], distances?: number[]): GraphLayout {
+  const slots = columns.map((col, ci) => col.length + (hidden[ci] ? 1 : 0));
+  const tallest = Math.max(1, ...slots);
+  const midY = PADDING_Y + ((tallest - 1) * SPACING_Y) / 2;
+
+  const xs: number[] = [];
+  columns.forEach((_, ci) => {
+    const x = START_X + (distances ? distances[ci] : ci) * SPACING_X;
+    xs.push(ci && distances ? Math.max(x, xs[ci - 1] + MIN_GAP_X) : x);
+  });
+
+  const pos: Record<string, Point> = {};
+  const badges: CollapsedBadge[] = [];
+  columns.forEach((col, ci) => {
+    const x = xs[ci];
+    const baseY = midY - ((slots[ci] - 1) * SPACING_Y) / 2;
+    col.forEach((w, ri) => {
+      pos[nodeKey(w, ci)] = { x, y: baseY + ri * SPACING_Y };
+    });
+    if (hidden[ci]) badges.push({ column: ci, count: hidden[ci], x, y: baseY + col.length * SPACING_Y });
+  });
+
+  return {
+    pos,
+    badges,
+    width: (xs.length ? xs[xs.length - 1] : START_X) + 160,
+    height: Math.max(300, 2 * PADDING_Y + (tallest - 1) * SPACING_Y),
+    edgeStyle: "curved",
+  };
+}
+
+// Graph columns for playback up to frame `frameIndex`: the begin word, then one column per level. Uniform-cost
+// search has one column per settled distance, placed by that distance; bidirectional search grows backward
+// levels from the right, anchored on the final frame so columns don't jump while playing. `partial` holds
+// what frame `frameIndex` has discovered so far while it is still being expanded, and `keep` filters levels
+// of plain BFS (e.g. words of another length).
+export function frameColumns(
+  frames: BFSFrame[],
+  frameIndex: number,
+  { begin, end, algorithm, partial, keep }: { begin: string; end: string; algorithm: Algorithm; partial?: string[]; keep?: (word: string) => boolean }
+): { columns: string[][]; forwardColumns: number; distances?: number[] } {
+  const cols: string[][] = [];
+  if (!frames.length) return { columns: cols, forwardColumns: 0 };
+  if (algorithm === "dijkstra") {
+    const settled = frames.slice(0, frameIndex + 1);
+    return { columns: settled.map((f) => f.frontier), forwardColumns: settled.length, distances: settled.map((f) => f.distance ?? f.level) };
+  }
+  const levels = frames.slice(0, partial ? frameIndex : frameIndex + 1).map((f) => ({ direction: f.direction, words: f.nextFrontier }));
+  if (partial) levels.push({ direction: frames[frameIndex].direction, words: partial });
+  cols.push([begin.toLowerCase()]);
+  if (algorithm === "bfs") {
+    for (const { words: level } of levels) {
+      const next = keep ? level.filter(keep) : level;
+      if (next.length) cols.push(next);
+    }
+    return { columns: cols, forwardColumns: cols.length };
+  }
+
+  const backward: string[][] = [[end.toLowerCase()]];
+  for (const { direction, words: level } of levels) {
+    if (level.length) (direction === "forward" ? cols : backward).push(level);
+  }
+  const total = 2 + frames.filter((f) => f.nextFrontier.length).length;
+  const gap = Array.from({ length: Math.max(0, total - cols.length - backward.length) }, () => [] as string[]);
+  return { columns: [...cols, ...gap, ...backward.reverse()], forwardColumns: cols.length };
+}
+
+// Edge list from parent links between laid-out columns. A child is linked to the latest column
+// left of it that holds its parent; edges whose ends were collapsed away are dropped.
+// Columns at or beyond `forwardColumns` were discovered from the end word (bidirectional search).
+export function buildEdges(columns: string[][], parents: Parents, pos: Record<string, Point>, forwardColumns = columns.length): GraphEdge[] {
+  const list: GraphEdge[] = [];
+
+  // Map word -> column indices it appears in
+  const wordCols: Record<string, number[]> = {};
+  columns.forEach((col, ci) => {
+    for (const w of col) (wordCols[w] ||= []).push(ci);
+  });
+
+  for (const [child, parentsSet] of Object.entries(parents)) {
+    const childCols = wordCols[child];
+    if (!childCols) continue;
+    for (const ci of childCols) {
+      for (const parent of parentsSet) {
+        const pi = (wordCols[parent] || []).filter((x) => x < ci).pop();
+        if (pi === undefined) continue;
+        const fromKey = nodeKey(parent, pi);
+        const toKey = nodeKey(child, ci);
+        const from = pos[fromKey];
+        const to = pos[toKey];
+        if (!from || !to) continue;
+        // An edge crossing from a forward column into a backward one joins the two frontiers
+        const kind = pi < forwardColumns && ci >= forwardColumns ? "meet" : "tree";
+        list.push({ from: { key: fromKey, ...from }, to: { key: toKey, ...to }, kind });
+      }
+    }
+  }
+  return list;
+}
+
+// SVG path data for an edge: a straight line, or a horizontal cubic curve between columns
+export function edgePath(from: Point, to: Point, style: GraphLayout["edgeStyle"]): string {
+  if (style === "straight") return `M ${from.x} ${from.y} L ${to.x} ${to.y}`;
+  // Same column: bow out to the right so the edge doesn't run through the words between
+  if (from.x === to.x) return `M ${from.x} ${from.y} C ${from.x + 70} ${from.y}, ${to.x + 70} ${to.y}, ${to.x} ${to.y}`;
+  return `M ${from.x} ${from.y} C ${from.x + 40} ${from.y}, ${to.x - 40} ${to.y}, ${to.x} ${to.y}`;
+}
+
+// Keep shortest-path words in each column and fold the rest into a count. Columns with no
+// shortest-path words (e.g. before or without a solution) keep their first `keep` words instead.
+export function collapseColumns(columns: string[][], onPath: Set<string>, keep = 25) {
+  const hidden: number[] = [];
+  const shown = columns.map((col, ci) => {
+    const onPathWords = col.filter((w) => onPath.has(w));
+    const kept = onPathWords.length ? onPathWords : col.slice(0, keep);
+    hidden[ci] = col.length - kept.length;
+    return kept;
+  });
+  return { columns: shown, hidden };
+}
+
+// All pairs of words differing in exactly one letter, each pair once
+export function oneLetterLinks(words: Iterable<string>): Array<[string, string]> {
+  const buckets: Record<string, string[]> = {};
+  for (const w of words) for (let i = 0; i < w.length; i++) (buckets[patternKey(w, i)] ||= []).push(w);
+  const links: Array<[string, string]> = [];
+  const seen = new Set<string>();
+  for (const bucket of Object.values(buckets)) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = bucket[i] < bucket[j] ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+        // Same-length words share at most one pattern; the check covers mixed-length input
+        if (a.length !== b.length || seen.has(`${a}|${b}`)) continue;
+        seen.add(`${a}|${b}`);
+        links.push([a, b]);
+      }
+    }
+  }
+  return links;
+}
+
+// Pairs of the given words one move apart under `graph`, each pair once
+export function moveLinks(graph: Pick<MoveGraph, "neighbors">, words: Iterable<string>): Array<[string, string]> {
+  const set = new Set(words);
+  const links: Array<[string, string]> = [];
+  for (const w of set) for (const n of graph.neighbors(w)) if (w < n && set.has(n)) links.push([w, n]);
+  return links;
+}
+
+// Every one-letter-difference edge among the displayed words, classified against the BFS state:
+// parent links (first parent vs. extra parents), same-level edges, back edges to earlier levels,
+// and edges touching the `unreachedColumn` of words the search hasn't discovered.
+export function buildWordGraphEdges(
+  columns: string[][],
+  parents: Parents,
+  pos: Record<string, Point>,
+  forwardColumns = columns.length,
+  unreachedColumn = -1,
+  linkWords: (words: Iterable<string>) => Array<[string, string]> = oneLetterLinks // other move sets pass their own
+): GraphEdge[] {
+  const column = new Map<string, number>();
+  columns.forEach((col, ci) => col.forEach((w) => column.set(w, ci)));
+
+  const list: GraphEdge[] = [];
+  const push = (from: string, to: string, kind: EdgeKind) => {
+    const fromKey = nodeKey(from, column.get(from)!);
+    const toKey = nodeKey(to, column.get(to)!);
+    const a = pos[fromKey];
+    const b = pos[toKey];
+    if (a && b) list.push({ from: { key: fromKey, ...a }, to: { key: toKey, ...b }, kind });
+  };
+
+  for (const pair of linkWords(column.keys())) {
+    // Orient the pair left to right
+    const [a, b] = column.get(pair[0])! <= column.get(pair[1])! ? pair : [pair[1], pair[0]];
+    const ca = column.get(a)!;
+    const cb = column.get(b)!;
+
+    if (ca === unreachedColumn || cb === unreachedColumn) push(a, b, "unexplored");
+    else if (parents[b]?.has(a) || parents[a]?.has(b)) {
+      const [parent, child] = parents[b]?.has(a) ? [a, b] : [b, a];
+      const first = parents[child].values().next().value === parent; // parents keep discovery order
+      const meet = column.get(parent)! < forwardColumns && column.get(child)! >= forwardColumns;
+      push(parent, child, meet ? "meet" : first ? "tree" : "extra-parent");
+    } else if (ca === cb) push(a, b, "same-level");
+    else push(b, a, "back");
+  }
+  return list;
+}
+
+// Deterministic force-directed (Fruchterman-Reingold) layout of a word graph, ignoring BFS levels.
+// O(n^2) per iteration, so callers should cap the number of words.
+export function forceLayout(words: string[], links: Array<[string, string]>, iterations = 250) {
+  const n = words.length;
+  const size = Math.max(500, Math.sqrt(n) * 110);
+  const k = Math.sqrt((size * size) / Math.max(1, n)); // ideal edge length
+  const index = new Map(words.map((w, i) => [w, i]));
+  // Start on a circle so the result only depends on the input order
+  const xs = words.map((_, i) => size / 2 + (size / 3) * Math.cos((2 * Math.PI * i) / Math.max(1, n)));
+  const ys = words.map((_, i) => size / 2 + (size / 3) * Math.sin((2 * Math.PI * i) / Math.max(1, n)));
+  const edges = links.flatMap(([a, b]) => (index.has(a) && index.has(b) ? [[index.get(a)!, index.get(b)!]] : []));
+
+  let temperature = size / 10;
+  for (let it = 0; it < iterations; it++) {
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const ddx = xs[i] - xs[j] || 0.01;
+        const ddy = ys[i] - ys[j] || 0.01;
+        const dist2 = ddx * ddx + ddy * ddy;
+        const f = (k * k) / dist2; // repulsion / distance
+        dx[i] += ddx * f;
+        dy[i] += ddy * f;
+        dx[j] -= ddx * f;
+        dy[j] -= ddy * f;
+      }
+    }
+    for (const [i, j] of edges) {
+      const ddx = xs[i] - xs[j];
+      const ddy = ys[i] - ys[j];
+      const dist = Math.sqrt(ddx * ddx + ddy * ddy) || 0.01;
+      const f = dist / k; // attraction / distance
+      dx[i] -= ddx * f;
+      dy[i] -= ddy * f;
+      dx[j] += ddx * f;
+      dy[j] += ddy * f;
+    }
+    for (let i = 0; i < n; i++) {
+      const len = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]) || 1;
+      const step = Math.min(len, temperature);
+      xs[i] += (dx[i] / len) * step;
+      ys[i] += (dy[i] / len) * step;
+    }
+    temperature *= 0.98;
+  }
+
+  // Normalise into the positive quadrant with a margin
+  const margin = 60;
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const pos: Record<string, Point> = {};
+  words.forEach((w, i) => (pos[w] = { x: xs[i] - minX + margin, y: ys[i] - minY + margin }));
+  return {
+    pos,
+    width: Math.max(...xs) - minX + 2 * margin,
+    height: Math.max(...ys) - minY + 2 * margin,
+  };
+}
+
+// Place columns' words at free-layout positions (by word). Words without a position are dropped.
+export function layoutFromWordPositions(
+  columns: string[][],
+  wordPos: Record<string, Point>,
+  size: { width: number; height: number }
+): GraphLayout {
+  const pos: Record<string, Point> = {};
+  columns.forEach((col, ci) =>
+    col.forEach((w) => {
+      if (wordPos[w]) pos[nodeKey(w, ci)] = wordPos[w];
+    })
+  );
+  return { pos, badges: [], width: Math.max(300, size.width), height: Math.max(300, size.height), edgeStyle: "straight" };
+}
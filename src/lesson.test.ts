@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { examples } from "./examples";
+import { feedbackMarks, gradeAnswer, Lesson, prepareLesson } from "./lesson";
+import { solveWordLadder } from "./solver";
+
+const classic = examples.find((e) => e.name === "Classic (hit → cog)")!;
+const solution = solveWordLadder(classic);
+
+describe("prepareLesson", () => {
+  for (const example of examples.filter((e) => e.lesson)) {
+    it(`fits the solution of ${example.name}`, () => {
+      expect(() => prepareLesson(example.lesson!, solveWordLadder(example), example.begin, example.end)).not.toThrow();
+    });
+  }
+
+  it("pauses on the step before each answer is drawn", () => {
+    const questions = prepareLesson(classic.lesson!, solution, "hit", "cog");
+    expect(questions.map((q) => [q.step, q.answer])).toEqual([
+      [0, ["dot", "lot"]],
+      [1, ["dog", "log"]],
+      [2, ["dog", "log"]],
+      [3, 2],
+    ]);
+  });
+
+  it("explains which question doesn't fit the example", () => {
+    const lesson = (question: Lesson["questions"][number]): Lesson => ({ intro: "", questions: [question] });
+    expect(() => prepareLesson(lesson({ kind: "next-frontier", level: 0 }), solution, "hit", "cog")).toThrow(/question 1 asks about level 0/);
+    expect(() => prepareLesson(lesson({ kind: "parents", word: "xyz" }), solution, "hit", "cog")).toThrow(/never discovers/);
+    expect(() => prepareLesson(lesson({ kind: "parents", word: "hot" }), solution, "hit", "cog")).toThrow(/before the first pause/);
+  });
+});
+
+describe("gradeAnswer", () => {
+  const [frontier, , , count] = prepareLesson(classic.lesson!, solution, "hit", "cog");
+
+  it("lists missed and wrong picks", () => {
+    expect(gradeAnswer(frontier, ["lot", "dot"])).toEqual({ correct: true, missing: [], extra: [] });
+    const feedback = gradeAnswer(frontier, ["dot", "hit"]);
+    expect(feedback).toEqual({ correct: false, missing: ["lot"], extra: ["hit"] });
+    expect(Array.from(feedbackMarks(feedback).words)).toEqual([
+      ["hit", "error"],
+      ["lot", "missing"],
+    ]);
+  });
+
+  it("compares counts exactly", () => {
+    expect(gradeAnswer(count, 2).correct).toBe(true);
+    expect(gradeAnswer(count, 3).correct).toBe(false);
+  });
+});
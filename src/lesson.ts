@@ -0,0 +1,89 @@
+// Lessons: questions asked at chosen points of an example's BFS playback (one step per level), declared
+// next to the example in examples.ts and graded against the solver's frames.
+import type { CheckMarks } from "./answerCheck";
+import type { LadderSolution } from "./solver";
+
+export type LessonQuestion =
+  | { kind: "next-frontier"; level: number; explanation?: string } // words discovered by expanding `level`
+  | { kind: "parents"; word: string; explanation?: string } // parents `word` gets on the level that discovers it
+  | { kind: "path-count"; explanation?: string }; // number of shortest paths, asked once BFS is done
+
+export interface Lesson {
+  intro: string;
+  questions: LessonQuestion[];
+}
+
+// A question tied to a solution: where playback pauses and what the right answer is
+export interface PreparedQuestion {
+  question: LessonQuestion;
+  step: number; // playback step to pause on: the last one before the answer is drawn
+  prompt: string;
+  answer: string[] | number; // words to click, or a count to type
+}
+
+export interface LessonFeedback {
+  correct: boolean;
+  missing: string[]; // right words that weren't picked
+  extra: string[]; // picked words that are wrong
+}
+
+// Throws when a question doesn't fit the solution, so a broken lesson is caught by its author
+export function prepareLesson(lesson: Lesson, { frames, pathCount }: LadderSolution, begin: string, end: string): PreparedQuestion[] {
+  if (!frames.length) throw new Error("the example has no BFS levels to pause on");
+  return lesson.questions.map((question, i) => {
+    const where = `question ${i + 1}`;
+    switch (question.kind) {
+      case "next-frontier": {
+        const { level } = question;
+        if (!Number.isInteger(level) || level < 1 || level >= frames.length) {
+          throw new Error(`${where} asks about level ${level}, but only levels 1 to ${frames.length - 1} can be paused before`);
+        }
+        const { frontier, nextFrontier } = frames[level];
+        return {
+          question,
+          step: level - 1,
+          prompt: `Level ${level} is ${frontier.join(", ")}. Click every word that expanding it discovers.`,
+          answer: [...nextFrontier].sort(),
+        };
+      }
+      case "parents": {
+        const word = question.word.toLowerCase();
+        const found = frames.findIndex((f) => f.nextFrontier.includes(word));
+        if (found === -1) throw new Error(`${where} asks about "${word}", which BFS never discovers`);
+        if (found === 0) throw new Error(`${where} asks about "${word}", which is discovered before the first pause`);
+        return {
+          question,
+          step: found - 1,
+          prompt: `Which words on level ${frames[found].level} become parents of "${word}"? Click them.`,
+          answer: frames[found].newParents
+            .filter(([child]) => child === word)
+            .map(([, parent]) => parent)
+            .sort(),
+        };
+      }
+      case "path-count":
+        return {
+          question,
+          step: frames.length - 1,
+          prompt: `BFS is done. How many shortest paths lead from "${begin.toLowerCase()}" to "${end.toLowerCase()}"?`,
+          answer: pathCount,
+        };
+    }
+  });
+}
+
+export function gradeAnswer({ answer }: PreparedQuestion, response: string[] | number): LessonFeedback {
+  if (typeof answer === "number") return { correct: response === answer, missing: [], extra: [] };
+  const picked = new Set(typeof response === "number" ? [] : response);
+  const missing = answer.filter((w) => !picked.has(w));
+  const extra = Array.from(picked).filter((w) => !answer.includes(w));
+  return { correct: !missing.length && !extra.length, missing, extra };
+}
+
+// Wrong and missed picks, drawn on the graph like the answer checker's marks
+export function feedbackMarks({ missing, extra }: LessonFeedback): CheckMarks {
+  return {
+    edges: [],
+    words: new Map([...extra.map((w) => [w, "error"] as const), ...missing.map((w) => [w, "missing"] as const)]),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildMoveGraph, formatCostModel, isUniformCost, LEETCODE_MOVES, MoveSet, parseCostModel } from "./moves";
+
+const only = (moves: Partial<MoveSet>): MoveSet => ({ substitute: false, insertDelete: false, transpose: false, anagram: false, ...moves });
+
+describe("buildMoveGraph", () => {
+  it("matches the pattern buckets for the LeetCode move set", () => {
+    const graph = buildMoveGraph("hit", ["hot", "hits", "dot", "hat"], LEETCODE_MOVES);
+    expect(graph.words).toEqual(["hot", "dot", "hat"]);
+    expect(graph.neighbors("hot").sort()).toEqual(["dot", "hat", "hit"]);
+  });
+
+  it("inserts and deletes letters across word lengths", () => {
+    const graph = buildMoveGraph("cat", ["cart", "at", "cast", "cot", "dog"], only({ insertDelete: true }));
+    expect(graph.neighbors("cat").sort()).toEqual(["at", "cart", "cast"]);
+    expect(graph.moves("cart").map((m) => [m.word, m.kind])).toEqual([["cat", "delete"]]);
+  });
+
+  it("swaps adjacent letters and rearranges anagrams", () => {
+    expect(buildMoveGraph("form", ["from", "fmor"], only({ transpose: true })).neighbors("form")).toEqual(["from"]);
+    expect(buildMoveGraph("tea", ["eat", "ate", "tee"], only({ anagram: true })).neighbors("tea").sort()).toEqual(["ate", "eat"]);
+  });
+
+  it("prices moves by the letters they write or the positions they touch", () => {
+    const words = ["hot", "hit", "ohs"];
+    const letter = buildMoveGraph("hat", words, LEETCODE_MOVES, { kind: "letter", costs: { o: 3 } });
+    expect(letter.moves("hat")).toEqual([
+      { word: "hot", kind: "substitute", cost: 3 },
+      { word: "hit", kind: "substitute", cost: 1 },
+    ]);
+    const position = buildMoveGraph("hot", words, only({ transpose: true, anagram: true }), { kind: "position", costs: [1, 4, 2] });
+    // "hot" -> "ohs" isn't an anagram; "hot" -> "oht" would swap positions 1 and 2
+    expect(position.moves("hot")).toEqual([]);
+    const swap = buildMoveGraph("hot", ["oht"], only({ transpose: true }), { kind: "position", costs: [5, 2] });
+    expect(swap.moves("hot")).toEqual([{ word: "oht", kind: "transpose", cost: 5 }]);
+  });
+
+  it("lists one lookup per pattern plus one per extra move kind", () => {
+    const graph = buildMoveGraph("cat", ["cot", "cart"], only({ substitute: true, insertDelete: true }));
+    expect(graph.lookups("cat").map((l) => l.pattern)).toEqual(["*at", "c*t", "ca*", "insert / delete"]);
+    expect(graph.lookups("cat")[3].words).toEqual(["cart"]);
+  });
+});
+
+describe("cost models", () => {
+  it("parses and formats per-letter and per-position tables", () => {
+    const letter = parseCostModel("letter", "a=2, E=0.5");
+    expect(letter).toEqual({ kind: "letter", costs: { a: 2, e: 0.5 } });
+    expect(parseCostModel("letter", formatCostModel(letter))).toEqual(letter);
+    expect(parseCostModel("position", "3 1 1")).toEqual({ kind: "position", costs: [3, 1, 1] });
+    expect(parseCostModel("uniform", "ignored")).toEqual({ kind: "uniform" });
+  });
+
+  it("rejects non-positive costs and malformed entries", () => {
+    expect(() => parseCostModel("position", "1, 0")).toThrow(/position 2 must be a positive number/);
+    expect(() => parseCostModel("letter", "a:2")).toThrow(/letter=cost/);
+  });
+
+  it("treats tables of ones as uniform", () => {
+    expect(isUniformCost({ kind: "position", costs: [1, 1] })).toBe(true);
+    expect(isUniformCost({ kind: "letter", costs: { a: 2 } })).toBe(false);
+  });
+});
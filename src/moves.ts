@@ -0,0 +1,203 @@
+// Neighbor generation: which words are one move apart, and what each move costs. LeetCode 126 only
+// allows changing one letter; the other move sets and the cost models are for puzzle variants.
+import type { ProgressCallback } from "./solver";
+
+export type PatternBuckets = Record<string, string[]>; // wildcard key (e.g. "h*t") -> words
+
+export type MoveKind = "substitute" | "insert" | "delete" | "transpose" | "anagram";
+
+// Insertion and deletion are toggled together so the word graph stays undirected
+export interface MoveSet {
+  substitute: boolean; // change one letter (LeetCode)
+  insertDelete: boolean; // add or remove one letter (Levenshtein distance 1)
+  transpose: boolean; // swap two adjacent letters
+  anagram: boolean; // rearrange the letters
+}
+
+export const LEETCODE_MOVES: MoveSet = { substitute: true, insertDelete: false, transpose: false, anagram: false };
+
+export const isLeetCodeMoves = (moves: MoveSet) =>
+  moves.substitute && !moves.insertDelete && !moves.transpose && !moves.anagram;
+
+// A move costs the most expensive letter it writes, removes or moves ("letter"), or the most
+// expensive position it touches ("position"). Letters and positions without an entry cost 1.
+export type CostModel =
+  | { kind: "uniform" }
+  | { kind: "letter"; costs: Record<string, number> }
+  | { kind: "position"; costs: number[] }; // index 0 is the first letter
+
+export const UNIFORM_COST: CostModel = { kind: "uniform" };
+
+export const isUniformCost = (costs: CostModel) =>
+  costs.kind === "uniform" ||
+  (costs.kind === "letter" ? Object.values(costs.costs) : costs.costs).every((c) => c === 1);
+
+export type Move = { word: string; kind: MoveKind; cost: number };
+
+// Neighbor lookups shared by every search algorithm
+export interface MoveGraph {
+  words: string[]; // dictionary words that can be on a ladder with these moves
+  neighbors(word: string): string[];
+  moves(word: string): Move[]; // the cheapest move to each neighbor
+  lookups(word: string): Array<{ pattern: string; words: string[] }>; // one entry per index lookup, for playback
+}
+
+// Report progress every this many words
+export const PROGRESS_INTERVAL = 5000;
+
+export const patternKey = (w: string, i: number) => w.slice(0, i) + "*" + w.slice(i + 1);
+
+function fillBuckets(buckets: PatternBuckets, words: string[], onProgress?: ProgressCallback) {
+  words.forEach((w, idx) => {
+    if (onProgress && idx % PROGRESS_INTERVAL === 0) onProgress({ phase: "buckets", done: idx, total: words.length });
+    for (let i = 0; i < w.length; i++) (buckets[patternKey(w, i)] ||= []).push(w);
+  });
+  return buckets;
+}
+
+// Build buckets for O(26*L*words) neighbor finding. Words whose length differs from
+// the begin word can never be on a ladder and are ignored.
+export function buildPatternBuckets(begin: string, words: string[], onProgress?: ProgressCallback): PatternBuckets {
+  const buckets = fillBuckets({}, words.filter((w) => w.length === begin.length), onProgress);
+  // Also include beginWord in buckets so neighbors from source can be found even if not in dictionary
+  for (let i = 0; i < begin.length; i++) (buckets[patternKey(begin, i)] ||= []).push(begin);
+  return buckets;
+}
+
+export function getNeighbors(buckets: PatternBuckets, w: string): string[] {
+  const res: Set<string> = new Set();
+  for (let i = 0; i < w.length; i++) {
+    const arr = buckets[patternKey(w, i)] || [];
+    for (const v of arr) if (v !== w && v.length === w.length) res.add(v);
+  }
+  return Array.from(res);
+}
+
+const sortedLetters = (w: string) => Array.from(w).sort().join("");
+
+export function buildMoveGraph(
+  begin: string,
+  words: string[],
+  moveSet: MoveSet = LEETCODE_MOVES,
+  costs: CostModel = UNIFORM_COST,
+  onProgress?: ProgressCallback
+): MoveGraph {
+  const eligible = moveSet.insertDelete ? words : words.filter((w) => w.length === begin.length);
+  const dictionary = new Set([...eligible, begin]);
+  const buckets = moveSet.insertDelete ? fillBuckets({}, Array.from(dictionary), onProgress) : buildPatternBuckets(begin, words, onProgress);
+
+  // word with one letter removed -> [word, position removed]
+  const deletions = new Map<string, Array<[string, number]>>();
+  // sorted letters -> words
+  const anagrams = new Map<string, string[]>();
+  for (const w of dictionary) {
+    if (moveSet.insertDelete) {
+      for (let i = 0; i < w.length; i++) {
+        const key = w.slice(0, i) + w.slice(i + 1);
+        let list = deletions.get(key);
+        if (!list) deletions.set(key, (list = []));
+        list.push([w, i]);
+      }
+    }
+    if (moveSet.anagram) {
+      const key = sortedLetters(w);
+      let list = anagrams.get(key);
+      if (!list) anagrams.set(key, (list = []));
+      list.push(w);
+    }
+  }
+
+  const cost = (letters: string[], positions: number[]) => {
+    if (costs.kind === "uniform") return 1;
+    if (costs.kind === "letter") return Math.max(...letters.map((c) => costs.costs[c] ?? 1));
+    return Math.max(...positions.map((p) => costs.costs[p] ?? 1));
+  };
+
+  const moves = (w: string): Move[] => {
+    const best = new Map<string, Move>();
+    const offer = (word: string, kind: MoveKind, c: number) => {
+      if (word === w) return;
+      const prev = best.get(word);
+      if (!prev || c < prev.cost) best.set(word, { word, kind, cost: c });
+    };
+    if (moveSet.substitute) {
+      for (let i = 0; i < w.length; i++) {
+        for (const v of buckets[patternKey(w, i)] || []) if (v.length === w.length) offer(v, "substitute", cost([v[i]], [i]));
+      }
+    }
+    if (moveSet.insertDelete) {
+      for (const [v, i] of deletions.get(w) ?? []) offer(v, "insert", cost([v[i]], [i]));
+      for (let i = 0; i < w.length; i++) {
+        const v = w.slice(0, i) + w.slice(i + 1);
+        if (dictionary.has(v)) offer(v, "delete", cost([w[i]], [i]));
+      }
+    }
+    if (moveSet.transpose) {
+      for (let i = 0; i + 1 < w.length; i++) {
+        const v = w.slice(0, i) + w[i + 1] + w[i] + w.slice(i + 2);
+        if (dictionary.has(v)) offer(v, "transpose", cost([w[i], w[i + 1]], [i, i + 1]));
+      }
+    }
+    if (moveSet.anagram) {
+      for (const v of anagrams.get(sortedLetters(w)) ?? []) {
+        const moved = Array.from(w, (_, i) => i).filter((i) => w[i] !== v[i]);
+        offer(v, "anagram", cost(moved.map((i) => w[i]), moved));
+      }
+    }
+    return Array.from(best.values());
+  };
+
+  const lookups = (w: string) => {
+    const out: Array<{ pattern: string; words: string[] }> = [];
+    if (moveSet.substitute) {
+      for (let i = 0; i < w.length; i++) {
+        const pattern = patternKey(w, i);
+        const bucket = new Set(buckets[pattern] || []);
+        bucket.delete(w);
+        out.push({ pattern, words: Array.from(bucket) });
+      }
+    }
+    const byKind = (kinds: MoveKind[]) => moves(w).filter((m) => kinds.includes(m.kind) && m.kind !== "substitute").map((m) => m.word);
+    if (moveSet.insertDelete) out.push({ pattern: "insert / delete", words: byKind(["insert", "delete"]) });
+    if (moveSet.transpose) out.push({ pattern: "swap adjacent", words: byKind(["transpose"]) });
+    if (moveSet.anagram) out.push({ pattern: "anagram", words: byKind(["anagram"]) });
+    return out;
+  };
+
+  return {
+    words: eligible,
+    // The LeetCode move set keeps the bucket order the visualizer has always shown
+    neighbors: isLeetCodeMoves(moveSet) ? (w) => getNeighbors(buckets, w) : (w) => moves(w).map((m) => m.word),
+    moves,
+    lookups,
+  };
+}
+
+// Parse the cost table typed in the UI: "a=2, e=0.5" per letter, "1, 2, 1" per position.
+// Throws an Error describing the first bad entry.
+export function parseCostModel(kind: CostModel["kind"], text: string): CostModel {
+  if (kind === "uniform") return UNIFORM_COST;
+  const entries = text.split(/[,\s]+/).filter(Boolean);
+  const number = (raw: string, what: string) => {
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n <= 0) throw new Error(`${what} must be a positive number, got "${raw}"`);
+    return n;
+  };
+  if (kind === "position") return { kind, costs: entries.map((e, i) => number(e, `cost of position ${i + 1}`)) };
+
+  const costs: Record<string, number> = {};
+  for (const e of entries) {
+    const match = /^([a-z])=(.+)$/i.exec(e);
+    if (!match) throw new Error(`expected letter=cost, got "${e}"`);
+    costs[match[1].toLowerCase()] = number(match[2], `cost of "${match[1]}"`);
+  }
+  return { kind, costs };
+}
+
+export function formatCostModel(costs: CostModel): string {
+  if (costs.kind === "uniform") return "";
+  if (costs.kind === "position") return costs.costs.join(", ");
+  return Object.entries(costs.costs)
+    .map(([letter, c]) => `${letter}=${c}`)
+    .join(", ");
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { listWords, narrateStep } from "./narration";
+import { solveWordLadder } from "./solver";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+describe("narrateStep", () => {
+  it("describes a whole level", () => {
+    const { frames } = solveWordLadder(input);
+    expect(narrateStep({ frame: frames[2], end: "cog" })).toBe("Level 2: expanding dot, lot; discovered dog, log.");
+    expect(narrateStep({ frame: frames[3], end: "cog" })).toBe("Level 3: expanding dog, log; discovered cog; reached cog.");
+  });
+
+  it("describes one node expansion by what happens to each neighbor", () => {
+    const { frames, expansionSteps } = solveWordLadder({ ...input, granularity: "node" });
+    const log = expansionSteps.find((s) => s.node === "log")!;
+    expect(narrateStep({ frame: frames[log.frameIndex], expansion: log, end: "cog" })).toBe(
+      "Level 3: expanding log; extra parent for cog; skipped dog, lot."
+    );
+  });
+
+  it("describes backtracking pushes and completed paths", () => {
+    const { backtrackFrames } = solveWordLadder(input);
+    const total = backtrackFrames.length;
+    expect(narrateStep({ dfs: { frame: backtrackFrames[1], index: 1, total }, end: "cog" })).toBe(
+      `Backtracking step 2 of ${total}: push dog; partial path cog ← dog.`
+    );
+    const done = backtrackFrames.findIndex((f) => f.completed);
+    expect(narrateStep({ dfs: { frame: backtrackFrames[done], index: done, total }, end: "cog" })).toMatch(
+      /Path complete: hit → hot → dot → dog → cog\.$/
+    );
+  });
+
+  it("names the side and distance of other searches", () => {
+    const bidirectional = solveWordLadder({ ...input, algorithm: "bidirectional" }).frames;
+    const backward = bidirectional.find((f) => f.direction === "backward")!;
+    expect(narrateStep({ frame: backward, end: "cog" })).toMatch(/^Level \d+ from the end word: expanding/);
+    const [first] = solveWordLadder({ ...input, algorithm: "dijkstra" }).frames;
+    expect(narrateStep({ frame: first, end: "cog" })).toMatch(/^Distance 0: settling hit;/);
+  });
+});
+
+describe("listWords", () => {
+  it("shortens long lists", () => {
+    expect(listWords([])).toBe("nothing");
+    expect(listWords(Array.from({ length: 10 }, (_, i) => `w${i}`))).toBe("w0, w1, w2, w3, w4, w5, w6, w7 and 2 more");
+  });
+});
@@ -0,0 +1,61 @@
+// Plain-language narration of the current playback step, read out by screen readers through an ARIA
+// live region ("Level 2: expanding dot, lot; discovered dog, log.")
+import type { BFSFrame, DFSFrame, ExpansionStep, ProbeKind } from "./solver";
+
+const NARRATED_WORDS = 8; // words read out per list before "and N more"
+
+const probePhrases: Record<ProbeKind, string> = {
+  discovered: "discovered",
+  "extra-parent": "extra parent for",
+  skipped: "skipped",
+  meet: "meets the other frontier at",
+};
+
+export function listWords(words: string[]): string {
+  if (!words.length) return "nothing";
+  if (words.length <= NARRATED_WORDS) return words.join(", ");
+  return `${words.slice(0, NARRATED_WORDS).join(", ")} and ${(words.length - NARRATED_WORDS).toLocaleString()} more`;
+}
+
+const frameHeading = (frame: BFSFrame) =>
+  frame.distance !== undefined
+    ? `Distance ${Math.round(frame.distance * 1000) / 1000}`
+    : `Level ${frame.level}${frame.direction === "backward" ? " from the end word" : ""}`;
+
+export function narrateStep({
+  frame,
+  expansion,
+  dfs,
+  end,
+}: {
+  frame?: BFSFrame;
+  expansion?: ExpansionStep; // fine-grained modes
+  dfs?: { frame: DFSFrame; index: number; total: number }; // backtracking phase
+  end: string;
+}): string {
+  if (dfs) {
+    const { action, word, path, completed } = dfs.frame;
+    const heading = `Backtracking step ${dfs.index + 1} of ${dfs.total}: ${action} ${word}`;
+    if (completed) return `${heading}. Path complete: ${completed.join(" → ")}.`;
+    return `${heading}; partial path ${path.length ? path.join(" ← ") : "empty"}.`;
+  }
+  if (!frame) return "No search steps yet.";
+
+  if (expansion) {
+    const parts = [`expanding ${expansion.node}${expansion.pattern ? ` through ${expansion.pattern}` : ""}`];
+    for (const kind of Object.keys(probePhrases) as ProbeKind[]) {
+      const words = expansion.probes.filter((p) => p.kind === kind).map((p) => p.word);
+      if (words.length) parts.push(`${probePhrases[kind]} ${listWords(words)}`);
+    }
+    if (!expansion.probes.length) parts.push("no neighbors");
+    return `${frameHeading(frame)}: ${parts.join("; ")}.`;
+  }
+
+  const parts = [
+    `${frame.distance !== undefined ? "settling" : "expanding"} ${listWords(frame.frontier)}`,
+    `discovered ${listWords(frame.nextFrontier)}`,
+  ];
+  if (frame.meeting.length) parts.push(`the frontiers meet at ${listWords(frame.meeting)}`);
+  if (frame.found) parts.push(`reached ${end.toLowerCase()}`);
+  return `${frameHeading(frame)}: ${parts.join("; ")}.`;
+}
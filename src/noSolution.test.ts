@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { examples } from "./examples";
+import { componentGraph, explainNoSolution } from "./noSolution";
+
+const noSolutionExample = examples.find((e) => e.name.startsWith("No Solution"))!;
+
+describe("explainNoSolution", () => {
+  it("reports both components and one word that connects them", () => {
+    const report = explainNoSolution(noSolutionExample)!;
+    expect(report.beginLevels).toEqual([["dog"]]);
+    expect(report.endLevels).toEqual([["cat"], ["cot"]]);
+    expect(report.endInDictionary).toBe(true);
+    // "cog" shares the "co*" bucket with "cot", so it is preferred over words in no bucket
+    expect(report.bridge).toEqual({ added: ["cog"], ladder: ["dog", "cog", "cot"] });
+  });
+
+  it("finds the fewest additions when several words are missing", () => {
+    const report = explainNoSolution({ begin: "aaa", end: "bbb", words: ["bbb"] })!;
+    expect(report.bridge!.added).toHaveLength(2);
+    expect(report.bridge!.ladder).toHaveLength(4);
+    expect(report.bridge!.ladder[0]).toBe("aaa");
+    expect(report.bridge!.ladder[3]).toBe("bbb");
+  });
+
+  it("counts a missing end word as one of the additions", () => {
+    const report = explainNoSolution({ begin: "hit", end: "cog", words: ["hot", "dot", "dog"] })!;
+    expect(report.endInDictionary).toBe(false);
+    expect(report.endLevels).toEqual([["cog"]]);
+    expect(report.bridge).toEqual({ added: ["cog"], ladder: ["dog", "cog"] });
+  });
+
+  it("returns null when a ladder exists or the input can't have one", () => {
+    expect(explainNoSolution(examples[0])).toBeNull();
+    expect(explainNoSolution({ begin: "hit", end: "cogs", words: ["cogs"] })).toBeNull();
+    expect(explainNoSolution({ begin: "hit", end: "hit", words: ["hit"] })).toBeNull();
+  });
+
+  it("gives up after the candidate limit", () => {
+    const report = explainNoSolution({ begin: "aaaaa", end: "zzzzz", words: ["zzzzz"] }, 500)!;
+    expect(report.bridge).toBeNull();
+    expect(report.candidatesSearched).toBeGreaterThan(500);
+  });
+});
+
+describe("componentGraph", () => {
+  it("places begin's component left, end's right and bridge words between", () => {
+    const graph = componentGraph(explainNoSolution(noSolutionExample)!);
+    expect(graph.columns).toEqual([["dog"], ["cog"], ["cot"], ["cat"]]);
+    expect(graph.forwardColumns).toBe(1);
+    expect(graph.parents).toEqual({ cog: new Set(["dog"]), cot: new Set(["cog"]), cat: new Set(["cot"]) });
+  });
+});
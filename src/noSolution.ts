@@ -0,0 +1,146 @@
+// Explains an input with no ladder: the component reachable from the begin word, the component
+// containing the end word, and the fewest new words that would connect the two.
+import { collapseColumns, oneLetterLinks } from "./layout";
+import { isLeetCodeMoves, LEETCODE_MOVES } from "./moves";
+import { buildPatternBuckets, getNeighbors, LadderInput, Parents, patternKey, PatternBuckets, ProgressCallback } from "./solver";
+
+export interface BridgeSuggestion {
+  added: string[]; // words to add to the dictionary, in ladder order
+  ladder: string[]; // from a word reachable from begin, through the added words, to a word in end's component
+}
+
+export interface NoSolutionReport {
+  beginLevels: string[][]; // begin's component, by distance from the begin word
+  endLevels: string[][]; // end's component, by distance from the end word
+  endInDictionary: boolean;
+  bridge: BridgeSuggestion | null; // null when the search gave up after `candidatesSearched` words
+  candidatesSearched: number;
+}
+
+// Words (dictionary or candidate) the bridge search may visit before giving up
+export const MAX_BRIDGE_CANDIDATES = 100_000;
+const PROGRESS_INTERVAL = 100; // words expanded between progress reports; each tries ~26 letters per position
+
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+
+function componentLevels(buckets: PatternBuckets, start: string): string[][] {
+  const levels = [[start]];
+  const seen = new Set([start]);
+  for (;;) {
+    const next: string[] = [];
+    for (const w of levels[levels.length - 1]) {
+      for (const n of getNeighbors(buckets, w)) {
+        if (seen.has(n)) continue;
+        seen.add(n);
+        next.push(n);
+      }
+    }
+    if (!next.length) return levels;
+    levels.push(next);
+  }
+}
+
+// Returns null when there is nothing to explain: a ladder exists, or the input can't have one at all
+// (empty words, begin = end, or different lengths; the diagnostics panel reports those).
+// Only single-letter substitution (LeetCode's move set) is explained.
+export function explainNoSolution(input: LadderInput, maxCandidates = MAX_BRIDGE_CANDIDATES, onProgress?: ProgressCallback): NoSolutionReport | null {
+  const begin = input.begin.toLowerCase();
+  const end = input.end.toLowerCase();
+  if (!isLeetCodeMoves(input.moves ?? LEETCODE_MOVES)) return null;
+  if (!begin || begin.length !== end.length || begin === end) return null;
+
+  const words = input.words.map((w) => w.toLowerCase()).filter((w) => w.length === begin.length);
+  const buckets = buildPatternBuckets(begin, words);
+  const dictionary = new Set([...words, begin]);
+
+  const beginLevels = componentLevels(buckets, begin);
+  const endInDictionary = dictionary.has(end);
+  // A missing end word is a component of its own that has to be added too
+  const endLevels = endInDictionary ? componentLevels(buckets, end) : [[end]];
+  const beginComponent = new Set(beginLevels.flat());
+  const endComponent = new Set(endLevels.flat());
+  for (const w of endComponent) if (beginComponent.has(w)) return null;
+
+  // 0-1 BFS over all strings of the right length: dictionary words are free, every other word costs
+  // one addition. Candidates that share a pattern bucket with a dictionary word are tried first, so
+  // suggestions lean on the existing graph where possible.
+  const cost = new Map<string, number>();
+  const prev = new Map<string, string>();
+  let layer = Array.from(beginComponent);
+  for (const w of layer) cost.set(w, 0);
+
+  const joinsBucket = (candidate: string, from: string) => {
+    for (let i = 0; i < candidate.length; i++) {
+      if ((buckets[patternKey(candidate, i)] ?? []).some((w) => w !== from)) return true;
+    }
+    return false;
+  };
+
+  for (let c = 0; layer.length; c++) {
+    const next: string[] = [];
+    const later: string[] = []; // cost c + 1 candidates that don't join an existing bucket
+    for (let i = 0; i < layer.length; i++) {
+      const x = layer[i];
+      if (cost.get(x)! < c) continue; // reached more cheaply since it was queued
+      if (endComponent.has(x)) {
+        const ladder = [x];
+        for (let w = prev.get(x); w !== undefined; w = prev.get(w)) ladder.unshift(w);
+        return {
+          beginLevels,
+          endLevels,
+          endInDictionary,
+          bridge: { added: ladder.filter((w) => !dictionary.has(w)), ladder },
+          candidatesSearched: cost.size,
+        };
+      }
+      for (let p = 0; p < x.length; p++) {
+        for (const letter of ALPHABET) {
+          if (letter === x[p]) continue;
+          const y = x.slice(0, p) + letter + x.slice(p + 1);
+          const free = dictionary.has(y);
+          const cy = free ? c : c + 1;
+          if ((cost.get(y) ?? Infinity) <= cy) continue;
+          cost.set(y, cy);
+          prev.set(y, x);
+          if (free) layer.push(y);
+          else (joinsBucket(y, x) ? next : later).push(y);
+        }
+      }
+      if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress({ phase: "explain", done: Math.min(cost.size, maxCandidates), total: maxCandidates });
+      if (cost.size > maxCandidates) {
+        return { beginLevels, endLevels, endInDictionary, bridge: null, candidatesSearched: cost.size };
+      }
+    }
+    layer = next.concat(later);
+  }
+  return { beginLevels, endLevels, endInDictionary, bridge: null, candidatesSearched: cost.size };
+}
+
+// Both components side by side for the graph: begin's levels from the left, end's from the right,
+// and one column per added bridge word in between. Columns before `forwardColumns` belong to begin.
+export function componentGraph(report: NoSolutionReport, keep = 25) {
+  const ladder = report.bridge?.ladder ?? [];
+  const middle = ladder.slice(1, -1).map((w) => [w]);
+  const all = [...report.beginLevels, ...middle, ...[...report.endLevels].reverse()];
+  const pinned = new Set([...ladder, report.beginLevels[0][0], report.endLevels[0][0]]);
+  const { columns, hidden } = collapseColumns(all, pinned, keep);
+
+  // Parent links oriented left to right: towards the end word within begin's component, away from it
+  // within end's component, and along the suggested ladder
+  const column = new Map<string, number>();
+  columns.forEach((col, ci) => col.forEach((w) => column.set(w, ci)));
+  const parents: Parents = {};
+  const link = (parent: string, child: string) => (parents[child] ||= new Set()).add(parent);
+  const forwardColumns = report.beginLevels.length;
+  const endStart = forwardColumns + middle.length;
+  for (const [a, b] of oneLetterLinks(column.keys())) {
+    const [left, right] = column.get(a)! < column.get(b)! ? [a, b] : [b, a];
+    const cl = column.get(left)!;
+    const cr = column.get(right)!;
+    if (cr !== cl + 1) continue;
+    if (cr < forwardColumns || cl >= endStart) link(left, right);
+  }
+  for (let i = 0; i + 1 < ladder.length; i++) link(ladder[i], ladder[i + 1]);
+
+  return { columns, hidden, parents, forwardColumns };
+}
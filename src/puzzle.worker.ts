@@ -0,0 +1,19 @@
+// Generates puzzles off the main thread: a generous spec can take seconds of attempts
+import { GeneratedPuzzle, generatePuzzle, PuzzleSpec } from "./puzzleGenerator";
+
+export type PuzzleRequest = { spec: PuzzleSpec };
+
+export type PuzzleResponse = { type: "done"; puzzle: GeneratedPuzzle } | { type: "error"; message: string };
+
+const ctx = self as unknown as {
+  postMessage(message: PuzzleResponse): void;
+  onmessage: ((e: MessageEvent<PuzzleRequest>) => void) | null;
+};
+
+ctx.onmessage = (e) => {
+  try {
+    ctx.postMessage({ type: "done", puzzle: generatePuzzle(e.data.spec) });
+  } catch (err) {
+    ctx.postMessage({ type: "error", message: (err as Error).message });
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTY_PRESETS, Difficulty, generatePuzzle } from "./puzzleGenerator";
+import { buildPatternBuckets, getNeighbors, shortestPathNodes, solveWordLadder } from "./solver";
+
+// Every word connected to begin, not just those BFS visits before reaching the end word
+function component(begin: string, words: string[]) {
+  const buckets = buildPatternBuckets(begin, words);
+  const seen = new Set([begin]);
+  const queue = [begin];
+  for (let w = queue.shift(); w !== undefined; w = queue.shift()) {
+    for (const v of getNeighbors(buckets, w)) {
+      if (seen.has(v)) continue;
+      seen.add(v);
+      queue.push(v);
+    }
+  }
+  return seen;
+}
+
+describe("generatePuzzle", () => {
+  it("is reproducible from its seed", () => {
+    const spec = { ...DIFFICULTY_PRESETS.medium, seed: 7 };
+    expect(generatePuzzle(spec)).toEqual(generatePuzzle(spec));
+    expect(generatePuzzle(spec).words).not.toEqual(generatePuzzle({ ...spec, seed: 8 }).words);
+  });
+
+  for (const difficulty of Object.keys(DIFFICULTY_PRESETS) as Difficulty[]) {
+    it(`meets the ${difficulty} preset's constraints`, () => {
+      const spec = { ...DIFFICULTY_PRESETS[difficulty], seed: 3 };
+      const puzzle = generatePuzzle(spec);
+      expect(puzzle.words).toHaveLength(spec.dictionarySize);
+      expect(new Set(puzzle.words).size).toBe(spec.dictionarySize);
+      expect([puzzle.begin, ...puzzle.words].every((w) => w.length === spec.wordLength)).toBe(true);
+
+      const { pathCount, allPaths, finalParents } = solveWordLadder(puzzle);
+      expect(pathCount).toBe(spec.paths);
+      expect(allPaths.every((p) => p.length === spec.ladderLength)).toBe(true);
+
+      // Decoys stay out of reach; everything else is reachable but off the ladders
+      const reached = component(puzzle.begin, puzzle.words);
+      const onPath = shortestPathNodes(finalParents, puzzle.begin, puzzle.end);
+      expect(puzzle.words.filter((w) => !reached.has(w))).toHaveLength(puzzle.decoys);
+      expect(puzzle.words.filter((w) => !onPath.has(w))).toHaveLength(puzzle.distractors + puzzle.decoys);
+      expect(puzzle.decoys).toBeGreaterThan(0);
+    });
+  }
+
+  it("rejects specs it can't satisfy", () => {
+    const base = { wordLength: 3, ladderLength: 4, paths: 1, dictionarySize: 10, seed: 1 };
+    expect(() => generatePuzzle({ ...base, wordLength: 9 })).toThrow(/word length/);
+    expect(() => generatePuzzle({ ...base, ladderLength: 2, paths: 2 })).toThrow(/one-step ladder/);
+    expect(() => generatePuzzle({ ...base, dictionarySize: 2 })).toThrow(/dictionary size/);
+    // Three letters changed in some order allow at most 3! = 6 ladders
+    expect(() => generatePuzzle({ ...base, paths: 7, dictionarySize: 30 })).toThrow(/couldn't find 7 shortest ladders/);
+  });
+});
@@ -0,0 +1,200 @@
+// Generates word ladder puzzles from a seed: a begin/end pair joined by an exact number of shortest
+// ladders of a given length, padded out with dead-end distractor branches and unreachable decoys.
+// Words are random letter strings, like the benchmark's generated dictionaries.
+import type { WordLadderExample } from "./examples";
+import { seededRandom } from "./random";
+import { LadderSolution, shortestPathNodes, solveWordLadder } from "./solver";
+
+export interface PuzzleSpec {
+  wordLength: number;
+  ladderLength: number; // words in each shortest ladder, begin and end included (LeetCode's count)
+  paths: number; // shortest ladders from begin to end
+  dictionarySize: number; // words in the list, the end word included
+  seed: number;
+}
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, Omit<PuzzleSpec, "seed">> = {
+  easy: { wordLength: 3, ladderLength: 4, paths: 1, dictionarySize: 12 },
+  medium: { wordLength: 4, ladderLength: 5, paths: 3, dictionarySize: 40 },
+  hard: { wordLength: 5, ladderLength: 7, paths: 8, dictionarySize: 150 },
+};
+
+export const MAX_PUZZLE_PATHS = 100;
+export const MAX_PUZZLE_WORDS = 2000;
+
+export interface GeneratedPuzzle extends WordLadderExample {
+  spec: PuzzleSpec;
+  distractors: number; // reachable words that are on no shortest ladder
+  decoys: number; // words the begin word can't reach
+}
+
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+const ATTEMPTS = 20; // fresh spines tried before giving up
+const DECOY_SHARE = 0.3; // of the words beyond the ladders
+const LURE_RATE = 0.4; // chance a distractor or decoy letter is copied from the end word, so they look like progress
+
+// Every word one substitution away from w
+function variants(w: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < w.length; i++) {
+    for (const c of ALPHABET) if (c !== w[i]) out.push(w.slice(0, i) + c + w.slice(i + 1));
+  }
+  return out;
+}
+
+const countIn = (w: string, set: Set<string>) => variants(w).filter((v) => set.has(v)).length;
+
+function validateSpec({ wordLength, ladderLength, paths, dictionarySize }: PuzzleSpec) {
+  const whole = (n: number) => Number.isInteger(n);
+  if (!whole(wordLength) || wordLength < 2 || wordLength > 8) throw new Error("word length must be between 2 and 8");
+  if (!whole(ladderLength) || ladderLength < 2 || ladderLength > 16) throw new Error("ladder length must be between 2 and 16 words");
+  if (!whole(paths) || paths < 1 || paths > MAX_PUZZLE_PATHS) throw new Error(`number of paths must be between 1 and ${MAX_PUZZLE_PATHS}`);
+  if (ladderLength === 2 && paths > 1) throw new Error("a one-step ladder has only one path");
+  if (!whole(dictionarySize) || dictionarySize < ladderLength - 1 || dictionarySize > MAX_PUZZLE_WORDS) {
+    throw new Error(`dictionary size must be between ${ladderLength - 1} (the ladder's words) and ${MAX_PUZZLE_WORDS}`);
+  }
+}
+
+// Only the count and one ladder are needed while building, so enumeration is capped at 1
+const solve = (begin: string, end: string, words: string[]) => solveWordLadder({ begin, end, words, maxPaths: 1 });
+
+// A single ladder of the requested length, widened with "diamond" words until it has exactly
+// `paths` shortest ladders. Null when this attempt can't get there.
+function buildLadders(spec: PuzzleSpec, random: () => number): { begin: string; end: string; words: string[] } | null {
+  const steps = spec.ladderLength - 1;
+  const letter = () => ALPHABET[Math.floor(random() * 26)];
+
+  // Spine: change a different position than the previous step each time, never to a letter the position
+  // already had, so the ladder can't double back on itself
+  const begin = Array.from({ length: spec.wordLength }, letter).join("");
+  const used = Array.from(begin, (c) => new Set([c]));
+  const spine = [begin];
+  let prev = -1;
+  for (let s = 0; s < steps; s++) {
+    let i = Math.floor(random() * spec.wordLength);
+    if (spec.wordLength > 1 && i === prev) i = (i + 1 + Math.floor(random() * (spec.wordLength - 1))) % spec.wordLength;
+    let c = letter();
+    while (used[i].has(c)) c = letter();
+    used[i].add(c);
+    const w = spine[s];
+    spine.push(w.slice(0, i) + c + w.slice(i + 1));
+    prev = i;
+  }
+  const end = spine[steps];
+  const words = spine.slice(1);
+  let solution: LadderSolution = solve(begin, end, words);
+  const ladderOk = (s: LadderSolution) => s.allPaths[0]?.length === spec.ladderLength;
+  if (!ladderOk(solution) || solution.pathCount !== 1) return null;
+
+  // A word between a and c (two letters apart, a level apart on either side) that takes one of c's
+  // letters first is another way through that level, adding ladders without shortening them
+  while (solution.pathCount < spec.paths) {
+    const onPath = shortestPathNodes(solution.finalParents, begin, end);
+    // The last frame's next frontier holds the end word
+    const frontiers = [...solution.frames.map((f) => f.frontier), solution.frames[solution.frames.length - 1].nextFrontier];
+    const levels = frontiers.map((ws) => ws.filter((w) => onPath.has(w)));
+    const present = new Set([begin, ...words]);
+    const candidates = new Set<string>();
+    for (let k = 1; k < steps; k++) {
+      for (const a of levels[k - 1]) {
+        for (const c of levels[k + 1]) {
+          const diff = Array.from(a).flatMap((ch, i) => (ch === c[i] ? [] : [i]));
+          if (diff.length !== 2) continue;
+          for (const i of diff) {
+            const x = a.slice(0, i) + c[i] + a.slice(i + 1);
+            if (!present.has(x)) candidates.add(x);
+          }
+        }
+      }
+    }
+    const order = shuffle(Array.from(candidates), random);
+    const before: number = solution.pathCount;
+    for (const x of order) {
+      const next = solve(begin, end, [...words, x]);
+      if (ladderOk(next) && next.pathCount > before && next.pathCount <= spec.paths) {
+        words.push(x);
+        solution = next;
+        break;
+      }
+    }
+    if (solution.pathCount === before) return null;
+  }
+  return { begin, end, words };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Throws an Error when the spec is out of range or no attempt could satisfy it
+export function generatePuzzle(spec: PuzzleSpec): GeneratedPuzzle {
+  validateSpec(spec);
+  const random = seededRandom(spec.seed);
+  const letter = () => ALPHABET[Math.floor(random() * 26)];
+  let reason = `couldn't find ${spec.paths} shortest ladders of ${spec.ladderLength} words; try fewer paths or a longer ladder`;
+
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const ladders = buildLadders(spec, random);
+    if (!ladders) continue;
+    const { begin, end, words } = ladders;
+    const extra = spec.dictionarySize - words.length;
+    if (extra < 0) {
+      reason = `${spec.paths} ladders need ${words.length} words, more than the dictionary size`;
+      continue;
+    }
+    const lure = (w: string, i: number) => w.slice(0, i) + (random() < LURE_RATE ? end[i] : letter()) + w.slice(i + 1);
+    const all = new Set([begin, ...words]);
+    const reachable = new Set(all);
+
+    // Distractors: branches off the ladders whose only neighbor is the word they grew from, so they
+    // are dead ends that neither shorten nor add ladders
+    const distractors: string[] = [];
+    const distractorCount = extra - Math.round(extra * DECOY_SHARE);
+    const roots = [begin, ...words.filter((w) => w !== end)];
+    for (let tries = 0; distractors.length < distractorCount && tries < distractorCount * 200; tries++) {
+      const pool = distractors.length && random() < 0.5 ? distractors : roots;
+      const from = pool[Math.floor(random() * pool.length)];
+      const x = lure(from, Math.floor(random() * spec.wordLength));
+      if (all.has(x) || countIn(x, all) !== 1) continue;
+      all.add(x);
+      reachable.add(x);
+      distractors.push(x);
+    }
+
+    // Decoys: clusters that start a couple of letters from the end word but touch nothing reachable
+    const decoys: string[] = [];
+    const decoyCount = extra - distractors.length;
+    for (let tries = 0; decoys.length < decoyCount && tries < decoyCount * 200; tries++) {
+      const from = decoys.length && random() < 0.6 ? decoys[Math.floor(random() * decoys.length)] : lure(end, Math.floor(random() * spec.wordLength));
+      const x = lure(from, Math.floor(random() * spec.wordLength));
+      if (all.has(x) || countIn(x, reachable)) continue;
+      all.add(x);
+      decoys.push(x);
+    }
+    if (distractors.length + decoys.length < extra) {
+      reason = `couldn't fit ${spec.dictionarySize} words of length ${spec.wordLength} around the ladders; try a smaller dictionary or longer words`;
+      continue;
+    }
+
+    const list = shuffle([...words, ...distractors, ...decoys], random);
+    const check = solve(begin, end, list);
+    if (check.pathCount !== spec.paths || check.allPaths[0]?.length !== spec.ladderLength) continue;
+    return {
+      name: `Puzzle #${spec.seed} (${begin} → ${end})`,
+      begin,
+      end,
+      words: list,
+      description: `${spec.paths} shortest ladder${spec.paths === 1 ? "" : "s"} of ${spec.ladderLength} words, ${distractors.length} distractors and ${decoys.length} unreachable decoys`,
+      spec,
+      distractors: distractors.length,
+      decoys: decoys.length,
+    };
+  }
+  throw new Error(reason);
+}
@@ -0,0 +1,60 @@
+import { compressToEncodedURIComponent } from "lz-string";
+import { describe, expect, it } from "vitest";
+import { LEETCODE_MOVES, UNIFORM_COST } from "./moves";
+import { buildShareHash, decodeShareState, encodeShareState, readShareHash, ShareState } from "./shareState";
+
+const state: ShareState = {
+  begin: "hit",
+  end: "cog",
+  wordListText: "hot\ndot\ndog\nlot\nlog\ncog",
+  algorithm: "bidirectional",
+  granularity: "node",
+  step: 3,
+  strict: true,
+  moves: { substitute: true, insertDelete: true, transpose: false, anagram: false },
+  costs: { kind: "letter", costs: { a: 2, e: 0.5 } },
+  blocked: ["lot"],
+};
+
+describe("share state", () => {
+  it("round-trips through the URL hash", () => {
+    expect(readShareHash(buildShareHash(state))).toEqual(state);
+  });
+
+  it("reads links made before strict mode, move sets, costs and blocked words existed with the LeetCode defaults", () => {
+    const payload = { v: 1, b: "hit", e: "cog", w: "hot", a: "bfs", g: "level", s: 0 };
+    const decoded = decodeShareState(compressToEncodedURIComponent(JSON.stringify(payload)));
+    expect(decoded.strict).toBe(false);
+    expect(decoded.moves).toEqual(LEETCODE_MOVES);
+    expect(decoded.costs).toEqual(UNIFORM_COST);
+    expect(decoded.blocked).toEqual([]);
+  });
+
+  it("returns null when the hash has no shared state", () => {
+    expect(readShareHash("")).toBeNull();
+    expect(readShareHash("#other=1")).toBeNull();
+  });
+
+  it("compresses long dictionaries below the size of the raw list", () => {
+    const letters = "abcdefghijklmnopqrstuvwxyz";
+    const words: string[] = [];
+    for (const a of letters) for (const b of letters) for (const c of "aeiou") words.push(a + c + b);
+    const wordListText = words.join("\n");
+    const encoded = encodeShareState({ ...state, wordListText });
+    expect(encoded.length).toBeLessThan(wordListText.length);
+  });
+
+  it("rejects malformed input with a descriptive error", () => {
+    expect(() => decodeShareState("not-lz-data!!")).toThrow();
+    expect(() => decodeShareState(compressToEncodedURIComponent("{oops"))).toThrow(/not valid JSON/);
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify({ v: 99 })))).toThrow(/version 99/);
+    const payload = { v: 1, b: "hit", e: "cog", w: "", a: "dfs", g: "level", s: 0 };
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify(payload)))).toThrow(/unknown algorithm/);
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify({ ...payload, a: "bfs", s: -1 })))).toThrow(/step/);
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify({ ...payload, a: "bfs", t: "yes" })))).toThrow(/strict/);
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify({ ...payload, a: "bfs", m: ["teleport"] })))).toThrow(/move/);
+    const badCosts = { ...payload, a: "bfs", c: { kind: "position", costs: [1, 0] } };
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify(badCosts)))).toThrow(/cost model/);
+    expect(() => decodeShareState(compressToEncodedURIComponent(JSON.stringify({ ...payload, a: "bfs", x: "lot" })))).toThrow(/blocked/);
+  });
+});
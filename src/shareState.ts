@@ -0,0 +1,111 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+import { CostModel, LEETCODE_MOVES, MoveSet, UNIFORM_COST } from "./moves";
+import type { Algorithm, Granularity } from "./solver";
+
+// Everything needed to reproduce a view of the visualizer from a link
+export interface ShareState {
+  begin: string;
+  end: string;
+  wordListText: string;
+  algorithm: Algorithm;
+  granularity: Granularity;
+  step: number;
+  strict: boolean; // LeetCode 126 semantics: don't auto-add the end word
+  moves: MoveSet;
+  costs: CostModel;
+  blocked: string[]; // listed words the search skips, blocked from the graph
+}
+
+const VERSION = 1;
+const HASH_PARAM = "s";
+
+const algorithms: Algorithm[] = ["bfs", "bidirectional", "dijkstra"];
+const moveKeys = Object.keys(LEETCODE_MOVES) as Array<keyof MoveSet>;
+const granularities: Granularity[] = ["level", "node", "pattern"];
+
+// Compact wire format: short keys, then LZ-compressed into URL-safe characters so even
+// dictionary-sized word lists produce links of reasonable length.
+export function encodeShareState(state: ShareState): string {
+  const payload = {
+    v: VERSION,
+    b: state.begin,
+    e: state.end,
+    w: state.wordListText,
+    a: state.algorithm,
+    g: state.granularity,
+    s: state.step,
+    t: state.strict,
+    m: moveKeys.filter((k) => state.moves[k]), // enabled moves
+    c: state.costs,
+    x: state.blocked,
+  };
+  return compressToEncodedURIComponent(JSON.stringify(payload));
+}
+
+// Throws an Error describing what is wrong when the encoded state can't be used
+export function decodeShareState(encoded: string): ShareState {
+  const json = decompressFromEncodedURIComponent(encoded);
+  if (!json) throw new Error("the shared state could not be decompressed");
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("the shared state is not valid JSON");
+  }
+  if (!raw || typeof raw !== "object") throw new Error("the shared state is not an object");
+  if (raw.v !== VERSION) throw new Error(`unsupported share format version ${String(raw.v)}`);
+
+  // Links from before strict mode, move sets, costs and blocked words existed omit `t`, `m`, `c` and `x`
+  const { b, e, w, a, g, s, t = false, m = ["substitute"], c = UNIFORM_COST, x = [] } = raw;
+  if (typeof b !== "string" || typeof e !== "string" || typeof w !== "string") {
+    throw new Error("begin word, end word or word list is missing");
+  }
+  if (!algorithms.includes(a as Algorithm)) throw new Error(`unknown algorithm "${String(a)}"`);
+  if (!granularities.includes(g as Granularity)) throw new Error(`unknown granularity "${String(g)}"`);
+  if (typeof s !== "number" || !Number.isInteger(s) || s < 0) throw new Error("step must be a non-negative integer");
+  if (typeof t !== "boolean") throw new Error("strict mode flag must be true or false");
+  if (!Array.isArray(m) || m.some((k) => !moveKeys.includes(k))) throw new Error("unknown move in the move set");
+  if (!isCostModel(c)) throw new Error("the cost model is malformed");
+  if (!Array.isArray(x) || x.some((w) => typeof w !== "string")) throw new Error("blocked words must be a list of words");
+
+  return {
+    begin: b,
+    end: e,
+    wordListText: w,
+    algorithm: a as Algorithm,
+    granularity: g as Granularity,
+    step: s,
+    strict: t,
+    moves: {
+      substitute: m.includes("substitute"),
+      insertDelete: m.includes("insertDelete"),
+      transpose: m.includes("transpose"),
+      anagram: m.includes("anagram"),
+    },
+    costs: c,
+    blocked: x,
+  };
+}
+
+const isPositive = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n > 0;
+
+function isCostModel(c: unknown): c is CostModel {
+  if (!c || typeof c !== "object") return false;
+  const { kind, costs } = c as { kind?: unknown; costs?: unknown };
+  if (kind === "uniform") return true;
+  if (kind === "position") return Array.isArray(costs) && costs.every(isPositive);
+  if (kind === "letter") {
+    return !!costs && typeof costs === "object" && Object.entries(costs).every(([k, v]) => /^[a-z]$/.test(k) && isPositive(v));
+  }
+  return false;
+}
+
+// Returns null when the hash carries no shared state; throws when it carries a malformed one
+export function readShareHash(hash: string): ShareState | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_PARAM);
+  if (encoded === null) return null;
+  return decodeShareState(encoded);
+}
+
+export const buildShareHash = (state: ShareState) => `#${HASH_PARAM}=${encodeShareState(state)}`;
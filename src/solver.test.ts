@@ -0,0 +1,340 @@
+import { describe, expect, it } from "vitest";
+import { examples } from "./examples";
+import {
+  backtrackPaths,
+  buildBacktrackFrames,
+  buildPatternBuckets,
+  countExpanded,
+  countShortestPaths,
+  expandedByAlgorithm,
+  getNeighbors,
+  knownExpanded,
+  MAX_BACKTRACK_STEPS,
+  Parents,
+  shortestPathNodes,
+  solveWordLadder,
+  SolveProgress,
+} from "./solver";
+
+// Expected LeetCode 126 outputs for every built-in example, keyed by example name
+const expected: Record<string, string[][]> = {
+  "Classic (hit → cog)": [
+    ["hit", "hot", "dot", "dog", "cog"],
+    ["hit", "hot", "lot", "log", "cog"],
+  ],
+  "Simple (cat → dog)": [["cat", "cot", "cog", "dog"]],
+  "Multiple Paths (red → hot)": [["red", "rex", "hex", "het", "hot"]],
+  "Long Chain (cold → warm)": [
+    ["cold", "cord", "card", "ward", "warm"],
+    ["cold", "cord", "word", "ward", "warm"],
+    ["cold", "cord", "word", "worm", "warm"],
+  ],
+  "No Solution (dog → cat)": [],
+  "Complex (team → mate)": [],
+};
+
+describe("solveWordLadder", () => {
+  it("covers every built-in example", () => {
+    expect(Object.keys(expected).sort()).toEqual(examples.map((e) => e.name).sort());
+  });
+
+  for (const example of examples) {
+    it(`matches LeetCode output for ${example.name}`, () => {
+      const { allPaths } = solveWordLadder({ begin: example.begin, end: example.end, words: example.words });
+      expect(allPaths).toEqual(expected[example.name]);
+    });
+  }
+
+  it("produces one frame per level and stops on the level that finds the target", () => {
+    const { frames, finalParents } = solveWordLadder({
+      begin: "hit",
+      end: "cog",
+      words: ["hot", "dot", "dog", "lot", "log", "cog"],
+    });
+    expect(frames.map((f) => f.level)).toEqual([0, 1, 2, 3]);
+    expect(frames.map((f) => f.found)).toEqual([false, false, false, true]);
+    expect(frames[0].frontier).toEqual(["hit"]);
+    expect(frames[1].nextFrontier.sort()).toEqual(["dot", "lot"]);
+    expect(Array.from(finalParents.cog).sort()).toEqual(["dog", "log"]);
+  });
+
+  it("does not loop back to the begin word when it is in the dictionary", () => {
+    const { frames, allPaths } = solveWordLadder({ begin: "cat", end: "dog", words: ["cat", "cot", "cog", "dog"] });
+    for (const f of frames) expect(f.nextFrontier).not.toContain("cat");
+    expect(allPaths).toEqual([["cat", "cot", "cog", "dog"]]);
+  });
+
+  it("returns no paths when the end word is missing from the dictionary", () => {
+    const { frames, allPaths } = solveWordLadder({ begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log"] });
+    expect(frames.some((f) => f.found)).toBe(false);
+    expect(allPaths).toEqual([]);
+  });
+
+  it("returns no frames when begin and end lengths differ", () => {
+    expect(solveWordLadder({ begin: "hit", end: "cogs", words: ["cogs"] })).toEqual({
+      frames: [],
+      finalParents: {},
+      allPaths: [],
+      pathCount: 0,
+      backtrackFrames: [],
+      expansionSteps: [],
+    });
+  });
+});
+
+describe("bidirectional search", () => {
+  for (const example of examples) {
+    it(`finds the same paths as plain BFS for ${example.name}`, () => {
+      const input = { begin: example.begin, end: example.end, words: example.words };
+      expect(solveWordLadder({ ...input, algorithm: "bidirectional" }).allPaths).toEqual(expected[example.name]);
+    });
+  }
+
+  it("expands the smaller frontier and records where the two sides meet", () => {
+    const { frames } = solveWordLadder({
+      begin: "hit",
+      end: "cog",
+      words: ["hot", "dot", "dog", "lot", "log", "cog"],
+      algorithm: "bidirectional",
+    });
+    expect(frames.map((f) => f.direction)).toEqual(["forward", "forward", "backward", "forward"]);
+    const last = frames[frames.length - 1];
+    expect(last.found).toBe(true);
+    expect(last.nextFrontier).toEqual([]);
+    expect(last.meeting.sort()).toEqual(["dog", "dot", "log", "lot"]);
+  });
+
+  it("expands fewer nodes than plain BFS on the long chain example", () => {
+    const input = { begin: "cold", end: "warm", words: ["cold", "cord", "card", "ward", "warm", "worm", "word", "lord"] };
+    const bfs = countExpanded(solveWordLadder(input).frames);
+    const bidirectional = countExpanded(solveWordLadder({ ...input, algorithm: "bidirectional" }).frames);
+    expect(bidirectional).toBeLessThan(bfs);
+  });
+
+  it("gives up immediately when the end word is not in the dictionary", () => {
+    const { frames } = solveWordLadder({ begin: "hit", end: "cog", words: ["hot"], algorithm: "bidirectional" });
+    expect(frames).toEqual([]);
+  });
+});
+
+describe("expandedByAlgorithm", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+  it("reuses the count of the search that was just solved", () => {
+    const all = expandedByAlgorithm(input);
+    const known = knownExpanded({ ...input, algorithm: "bidirectional" }, solveWordLadder({ ...input, algorithm: "bidirectional" }));
+    expect(known).toEqual({ bidirectional: all.bidirectional });
+    const progress: SolveProgress[] = [];
+    expect(expandedByAlgorithm(input, known, (p) => progress.push(p))).toEqual(all);
+    expect(progress).toEqual([
+      { phase: "compare", done: 0, total: 2 },
+      { phase: "compare", done: 1, total: 2 },
+    ]);
+  });
+
+  it("doesn't reuse a search that marks words visited on discovery", () => {
+    const discovery = { ...input, visitedRule: "discovery" as const };
+    expect(knownExpanded(discovery, solveWordLadder(discovery))).toEqual({});
+  });
+});
+
+describe("backtracking frames", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+  it("records one push or pop per step, starting and ending at the end word", () => {
+    const { backtrackFrames } = solveWordLadder(input);
+    expect(backtrackFrames[0]).toMatchObject({ action: "push", word: "cog", path: ["cog"] });
+    expect(backtrackFrames[backtrackFrames.length - 1]).toMatchObject({ action: "pop", word: "cog", path: [] });
+    expect(backtrackFrames.filter((f) => f.action === "push").length).toBe(backtrackFrames.length / 2);
+    for (const f of backtrackFrames) expect(f.visiting.sort()).toEqual([...f.path].sort());
+  });
+
+  it("completes every shortest path exactly once, on the push that reaches the begin word", () => {
+    const { backtrackFrames, allPaths } = solveWordLadder(input);
+    const completed = backtrackFrames.filter((f) => f.completed);
+    expect(completed.every((f) => f.word === "hit")).toBe(true);
+    expect(completed.map((f) => f.completed!).sort()).toEqual(allPaths);
+  });
+
+  it("skips dead-end parents instead of walking every branch of them", () => {
+    // Like bidirectional parents: one real ladder end <- mid <- begin, plus 8 fully linked layers of
+    // 10 words that never reach begin (10^8 dead-end branches)
+    const parents: Parents = { end: new Set(["mid"]), mid: new Set(["begin"]) };
+    const layer = (i: number) => Array.from({ length: 10 }, (_, j) => `d${i}-${j}`);
+    for (const w of layer(0)) parents.end.add(w);
+    for (let i = 0; i < 7; i++) for (const w of layer(i)) parents[w] = new Set(layer(i + 1));
+    expect(backtrackPaths(parents, "begin", "end")).toEqual([["begin", "mid", "end"]]);
+    expect(buildBacktrackFrames(parents, "begin", "end")).toHaveLength(6);
+  });
+
+  it("stops recording after the step budget", () => {
+    const words = Array.from({ length: 2 ** 10 }, (_, i) => i.toString(2).padStart(10, "0").replace(/0/g, "a").replace(/1/g, "b"));
+    const { finalParents } = solveWordLadder({ begin: words[0], end: words[words.length - 1], words: words.slice(1), maxPaths: 1 });
+    const steps = buildBacktrackFrames(finalParents, words[0], words[words.length - 1]);
+    expect(steps.length).toBeLessThanOrEqual(MAX_BACKTRACK_STEPS + 11);
+    expect(steps[steps.length - 1]).toMatchObject({ action: "pop", path: [] });
+  });
+
+  it("is empty when there is nothing to backtrack", () => {
+    expect(solveWordLadder({ begin: "dog", end: "cat", words: ["dog", "cot", "cat"] }).backtrackFrames).toEqual([]);
+  });
+});
+
+describe("path counting", () => {
+  // Every word over {a, b}: the shortest ladders from aaa…a to bbb…b flip the letters in any order, n! of them
+  const grid = (n: number) => {
+    const words = Array.from({ length: 2 ** n }, (_, i) => i.toString(2).padStart(n, "0").replace(/0/g, "a").replace(/1/g, "b"));
+    return { begin: words[0], end: words[words.length - 1], words: words.slice(1) };
+  };
+
+  it("counts the paths through each word of the parent DAG", () => {
+    const { finalParents } = solveWordLadder({ begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] });
+    const { total, through } = countShortestPaths(finalParents, "hit", "cog");
+    expect(total).toBe(2);
+    expect(Object.fromEntries(through)).toEqual({ hit: 2, hot: 2, dot: 1, lot: 1, dog: 1, log: 1, cog: 2 });
+    const none = countShortestPaths(finalParents, "hit", "cat");
+    expect([none.total, none.through.size]).toEqual([0, 0]);
+  });
+
+  it("counts exponentially many paths but only enumerates up to the cap", () => {
+    const { pathCount, allPaths, backtrackFrames } = solveWordLadder({ ...grid(10), maxPaths: 50 });
+    expect(pathCount).toBe(3628800);
+    expect(allPaths).toHaveLength(50);
+    expect(new Set(allPaths.map((p) => p.join())).size).toBe(50);
+    expect(backtrackFrames.filter((f) => f.completed)).toHaveLength(50);
+    expect(backtrackFrames[backtrackFrames.length - 1]).toMatchObject({ action: "pop", path: [] });
+  });
+
+  it("enumerates every path when they fit under the cap", () => {
+    const { pathCount, allPaths } = solveWordLadder(grid(4));
+    expect(pathCount).toBe(24);
+    expect(allPaths).toHaveLength(24);
+  });
+});
+
+describe("expansion steps", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+  it("is empty at level granularity", () => {
+    expect(solveWordLadder(input).expansionSteps).toEqual([]);
+  });
+
+  it("has one step per expanded node whose discoveries rebuild each level", () => {
+    const { frames, expansionSteps } = solveWordLadder({ ...input, granularity: "node" });
+    expect(expansionSteps.length).toBe(countExpanded(frames));
+    frames.forEach((f, i) => {
+      const discovered = expansionSteps
+        .filter((s) => s.frameIndex === i)
+        .flatMap((s) => s.probes.filter((p) => p.kind === "discovered").map((p) => p.word));
+      expect(discovered.sort()).toEqual([...f.nextFrontier].sort());
+    });
+  });
+
+  it("classifies skipped and extra-parent neighbors", () => {
+    const { expansionSteps } = solveWordLadder({ ...input, granularity: "node" });
+    const dot = expansionSteps.find((s) => s.node === "dot")!;
+    expect(dot.probes).toContainEqual({ word: "hot", kind: "skipped" });
+    expect(dot.probes).toContainEqual({ word: "lot", kind: "skipped" });
+    const log = expansionSteps.find((s) => s.node === "log")!;
+    expect(log.probes).toContainEqual({ word: "cog", kind: "extra-parent" });
+  });
+
+  it("has one step per wildcard lookup at pattern granularity", () => {
+    const { frames, expansionSteps } = solveWordLadder({ ...input, granularity: "pattern" });
+    expect(expansionSteps.length).toBe(countExpanded(frames) * 3);
+    expect(expansionSteps[0]).toEqual({ frameIndex: 0, node: "hit", pattern: "*it", probes: [] });
+    expect(expansionSteps[1]).toEqual({ frameIndex: 0, node: "hit", pattern: "h*t", probes: [{ word: "hot", kind: "discovered" }] });
+  });
+
+  it("marks probes into the opposite frontier as meetings in bidirectional mode", () => {
+    const { expansionSteps } = solveWordLadder({ ...input, algorithm: "bidirectional", granularity: "node" });
+    const last = expansionSteps[expansionSteps.length - 1];
+    expect(last.probes.some((p) => p.kind === "meet")).toBe(true);
+  });
+});
+
+describe("visited rule", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+  it("loses shortest paths when words are marked visited on discovery", () => {
+    const { allPaths, pathCount } = solveWordLadder({ ...input, visitedRule: "discovery" });
+    expect(allPaths).toEqual([["hit", "hot", "dot", "dog", "cog"]]);
+    expect(pathCount).toBe(1);
+  });
+
+  it("skips a second parent on the same level instead of recording it", () => {
+    const { expansionSteps } = solveWordLadder({ ...input, granularity: "node", visitedRule: "discovery" });
+    const log = expansionSteps.find((s) => s.node === "log")!;
+    expect(log.probes).toContainEqual({ word: "cog", kind: "skipped" });
+  });
+
+  it("only applies to plain BFS", () => {
+    const { allPaths } = solveWordLadder({ ...input, algorithm: "bidirectional", visitedRule: "discovery" });
+    expect(allPaths).toHaveLength(2);
+  });
+});
+
+describe("shortestPathNodes", () => {
+  it("matches the words used by the enumerated paths", () => {
+    for (const example of examples) {
+      for (const algorithm of ["bfs", "bidirectional"] as const) {
+        const { finalParents, allPaths } = solveWordLadder({ ...example, algorithm });
+        const nodes = shortestPathNodes(finalParents, example.begin, example.end);
+        expect(Array.from(nodes).sort()).toEqual(Array.from(new Set(allPaths.flat())).sort());
+      }
+    }
+  });
+});
+
+describe("move sets", () => {
+  it("builds ladders through words of other lengths with insertion and deletion", () => {
+    const moves = { substitute: true, insertDelete: true, transpose: false, anagram: false };
+    const { allPaths } = solveWordLadder({ begin: "at", end: "cart", words: ["cat", "cart", "art", "dog"], moves });
+    expect(allPaths).toEqual([
+      ["at", "art", "cart"],
+      ["at", "cat", "cart"],
+    ]);
+  });
+});
+
+describe("uniform-cost search", () => {
+  const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"], algorithm: "dijkstra" as const };
+
+  for (const example of examples) {
+    it(`finds the same paths as BFS with unit costs for ${example.name}`, () => {
+      const { allPaths } = solveWordLadder({ begin: example.begin, end: example.end, words: example.words, algorithm: "dijkstra" });
+      expect(allPaths).toEqual(expected[example.name]);
+    });
+  }
+
+  it("settles each word once, with its parents, one frame per distance", () => {
+    const { frames } = solveWordLadder(input);
+    expect(frames.map((f) => f.frontier)).toEqual([["hit"], ["hot"], ["dot", "lot"], ["dog", "log"], ["cog"]]);
+    expect(frames[4].newParents).toEqual([
+      ["cog", "dog"],
+      ["cog", "log"],
+    ]);
+  });
+
+  it("enumerates every minimum-cost ladder, tying fractional sums", () => {
+    const { allPaths, frames } = solveWordLadder({ ...input, costs: { kind: "letter", costs: { d: 0.1, l: 0.1, o: 0.2 } } });
+    expect(allPaths).toEqual(expected["Classic (hit → cog)"]);
+    expect(frames[frames.length - 1].distance).toBeCloseTo(2.3);
+  });
+
+  it("prefers a longer ladder when it is cheaper", () => {
+    const detour = { begin: "aa", end: "bb", words: ["az", "bz", "bb", "ax", "xx", "xb"] };
+    expect(solveWordLadder(detour).allPaths).toEqual([["aa", "az", "bz", "bb"]]);
+    const { allPaths, frames } = solveWordLadder({ ...detour, algorithm: "dijkstra", costs: { kind: "letter", costs: { z: 10 } } });
+    expect(allPaths).toEqual([["aa", "ax", "xx", "xb", "bb"]]);
+    expect(frames.map((f) => f.distance)).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe("getNeighbors", () => {
+  it("finds one-letter substitutions and ignores words of other lengths", () => {
+    const buckets = buildPatternBuckets("hit", ["hot", "hits", "dot", "hat"]);
+    expect(getNeighbors(buckets, "hit").sort()).toEqual(["hat", "hot"]);
+    expect(getNeighbors(buckets, "hot").sort()).toEqual(["dot", "hat", "hit"]);
+  });
+});
@@ -0,0 +1,630 @@
+// Pure Word Ladder II engine (LeetCode 126). No React here so the same frame
+// generator can be used from the visualizer, scripts and tests.
+import { buildMoveGraph, CostModel, LEETCODE_MOVES, Move, MoveGraph, MoveSet, PROGRESS_INTERVAL, UNIFORM_COST } from "./moves";
+
+export { buildPatternBuckets, getNeighbors, patternKey } from "./moves";
+export type { PatternBuckets } from "./moves";
+
+export type Parents = Record<string, Set<string>>; // child -> set(parents)
+
+// "bfs" grows one frontier from the begin word; "bidirectional" grows one from each end and meets in the middle;
+// "dijkstra" settles words in order of total move cost (uniform-cost search)
+export type Algorithm = "bfs" | "bidirectional" | "dijkstra";
+
+export type SearchDirection = "forward" | "backward";
+
+// When plain BFS marks a word visited: after its whole level is expanded (correct for Word Ladder II),
+// or as soon as it is discovered, the classic bug that drops every parent but the first
+export type VisitedRule = "level" | "discovery";
+
+// One BFS level, as shown by the visualizer's playback. Frames only hold what changed on their
+// level; use visitedAt/parentsAt to rebuild the full state at any frame. Frontier arrays are shared
+// with the frame that discovered them rather than copied, so memory grows with discoveries only.
+// Dijkstra frames are one per distance instead: `frontier` holds the words settled at `distance`
+// (their parent links are in `newParents`), `nextFrontier` the words first reached while expanding them.
+export type BFSFrame = {
+  level: number;
+  direction: SearchDirection; // which side was expanded (always "forward" for plain BFS)
+  frontier: string[]; // nodes being expanded at this level
+  nextFrontier: string[]; // nodes discovered for the next level (after expansion); these become visited
+  oppositeFrontier: string[]; // the other side's frontier (bidirectional only)
+  meeting: string[]; // words on both ends of an edge joining the two frontiers (bidirectional only)
+  newParents: Array<[child: string, parent: string]>; // parent links added on this level, oriented begin -> end
+  found: boolean; // did we find endWord on this level?
+  distance?: number; // total cost of the settled frontier (dijkstra only)
+};
+
+// Reported while solving so long runs (e.g. in a worker) can show progress
+export type SolveProgress = {
+  phase: "buckets" | "bfs" | "backtrack" | "compare" | "explain"; // the last two run after the solution is posted
+  done: number;
+  total: number; // 0 when the total isn't known up front
+};
+
+export type ProgressCallback = (progress: SolveProgress) => void;
+
+// How finely BFS playback is split: one step per level, per frontier node, or per wildcard lookup
+export type Granularity = "level" | "node" | "pattern";
+
+// What happened to a neighbor found in a bucket while expanding a frontier node
+export type ProbeKind =
+  | "discovered" // first seen on this level: becomes part of the next frontier
+  | "extra-parent" // already discovered on this level by another node: gains another parent
+  | "skipped" // visited on an earlier level
+  | "meet"; // belongs to the opposite frontier (bidirectional only)
+
+export type Probe = { word: string; kind: ProbeKind };
+
+// Sub-level step inside a BFSFrame
+export type ExpansionStep = {
+  frameIndex: number; // BFSFrame this step belongs to
+  node: string; // frontier node being expanded
+  pattern?: string; // wildcard key looked up in the buckets ("pattern" granularity only)
+  probes: Probe[];
+};
+
+// One push or pop of the backtracking DFS that walks parents from endWord back to beginWord
+export type DFSFrame = {
+  action: "push" | "pop";
+  word: string; // word pushed onto / popped off the partial path
+  path: string[]; // partial path after this step, from endWord back towards beginWord
+  visiting: string[]; // words on the current path, skipped to prevent cycles
+  completed?: string[]; // full path (begin -> end) completed by this push
+};
+
+export interface LadderInput {
+  begin: string;
+  end: string;
+  words: string[];
+  algorithm?: Algorithm; // defaults to "bfs"
+  granularity?: Granularity; // defaults to "level"; dijkstra always steps per distance
+  moves?: MoveSet; // defaults to LeetCode's single-letter substitution
+  costs?: CostModel; // only used by "dijkstra"; defaults to 1 per move
+  maxPaths?: number; // stop enumerating (and replaying) shortest paths after this many; defaults to DEFAULT_MAX_PATHS
+  visitedRule?: VisitedRule; // only used by "bfs"; defaults to "level"
+}
+
+export interface LadderSolution {
+  frames: BFSFrame[];
+  finalParents: Parents;
+  allPaths: string[][]; // at most maxPaths of them, see pathCount
+  pathCount: number; // number of shortest paths, counted without enumerating them
+  backtrackFrames: DFSFrame[]; // playback of the DFS that produced allPaths
+  expansionSteps: ExpansionStep[]; // empty at "level" granularity
+}
+
+// Shortest paths enumerated before backtracking stops. Some graphs (e.g. grids of words) have
+// exponentially many, which would hang the tab; pathCount still reports how many there are.
+export const DEFAULT_MAX_PATHS = 1000;
+
+// Recorded backtracking stops after this many push/pop frames, each of which copies the partial path
+export const MAX_BACKTRACK_STEPS = 20_000;
+
+// Neighbors of a word under the active move set
+export type NeighborFn = (word: string) => string[];
+
+// Precompute BFS levels step-by-step for visualization
+export function buildFrames(
+  begin: string,
+  end: string,
+  neighbors: NeighborFn,
+  onProgress?: ProgressCallback,
+  visitedRule: VisitedRule = "level"
+): BFSFrame[] {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+
+  const visited = new Set<string>();
+  let frontier = [src];
+  let level = 0;
+
+  const out: BFSFrame[] = [];
+  visited.add(src);
+
+  while (frontier.length) {
+    onProgress?.({ phase: "bfs", done: visited.size, total: 0 });
+    const next = new Set<string>();
+    const newParents: Array<[string, string]> = [];
+    for (const node of frontier) {
+      for (const nei of neighbors(node)) {
+        if (!visited.has(nei)) {
+          // First time seeing nei in this level
+          newParents.push([nei, node]);
+          next.add(nei);
+          if (visitedRule === "discovery") visited.add(nei);
+        }
+        // Note: We intentionally skip same-level connections to avoid cycles in the parent graph
+      }
+    }
+
+    // Convert next to array and mark visited AFTER processing entire level (classic layered BFS)
+    const nextArr = Array.from(next);
+    for (const n of nextArr) visited.add(n);
+
+    out.push({
+      level,
+      direction: "forward",
+      frontier,
+      nextFrontier: nextArr,
+      oppositeFrontier: [],
+      meeting: [],
+      newParents,
+      found: nextArr.includes(tgt),
+    });
+
+    if (nextArr.includes(tgt)) break;
+
+    frontier = nextArr;
+    level++;
+  }
+
+  return out;
+}
+
+// Bidirectional layered BFS: always expand the smaller frontier, and stop after the level on
+// which the two frontiers touch. Parent links are stored begin -> end regardless of the side
+// that discovered them, so the same backtracking works for both algorithms.
+export function buildBidirectionalFrames(
+  begin: string,
+  end: string,
+  words: string[], // words the neighbor function can return
+  neighbors: NeighborFn,
+  onProgress?: ProgressCallback
+): BFSFrame[] {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  if (src === tgt || !words.includes(tgt)) return [];
+
+  const unvisited = new Set(words);
+  unvisited.delete(src);
+  unvisited.delete(tgt);
+  let visitedCount = 2;
+
+  let forward = [src];
+  let backward = [tgt];
+  let level = 0;
+  const out: BFSFrame[] = [];
+
+  while (forward.length && backward.length) {
+    onProgress?.({ phase: "bfs", done: visitedCount, total: 0 });
+    const direction: SearchDirection = forward.length <= backward.length ? "forward" : "backward";
+    const frontier = direction === "forward" ? forward : backward;
+    const oppositeFrontier = direction === "forward" ? backward : forward;
+    const opposite = new Set(oppositeFrontier);
+    // Edges as (expanded node, neighbor); flipped into begin -> end order when recorded
+    const meetEdges: Array<[string, string]> = [];
+    const treeEdges: Array<[string, string]> = [];
+    const next = new Set<string>();
+
+    for (const node of frontier) {
+      for (const nei of neighbors(node)) {
+        if (opposite.has(nei)) meetEdges.push([node, nei]);
+        else if (unvisited.has(nei)) {
+          treeEdges.push([node, nei]);
+          next.add(nei);
+        }
+      }
+    }
+
+    // Once the frontiers touch, the words discovered on this level can't be on a shortest path
+    const found = meetEdges.length > 0;
+    const nextArr = found ? [] : Array.from(next);
+    const newParents = (found ? meetEdges : treeEdges).map(([node, nei]): [string, string] =>
+      direction === "forward" ? [nei, node] : [node, nei]
+    );
+    for (const n of nextArr) unvisited.delete(n);
+    visitedCount += nextArr.length;
+
+    out.push({
+      level,
+      direction,
+      frontier,
+      nextFrontier: nextArr,
+      oppositeFrontier,
+      meeting: Array.from(new Set(meetEdges.flat())),
+      newParents,
+      found,
+    });
+
+    if (found) break;
+    if (direction === "forward") forward = nextArr;
+    else backward = nextArr;
+    level++;
+  }
+
+  return out;
+}
+
+// Costs are compared with a tolerance so sums like 0.1 + 0.2 tie with 0.3
+export const COST_EPSILON = 1e-9;
+
+// Uniform-cost search that keeps every minimum-cost parent, so backtracking enumerates all
+// cheapest ladders. Words at the same distance settle together, one frame per distance. Move
+// costs must be positive: a word's parents are then all settled before it is.
+export function buildDijkstraFrames(begin: string, end: string, moves: (word: string) => Move[], onProgress?: ProgressCallback): BFSFrame[] {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  if (src === tgt) return [];
+
+  const dist = new Map([[src, 0]]);
+  const settled = new Set<string>();
+  const offers = new Map<string, Array<[parent: string, total: number]>>(); // every way each word was reached
+  const heap = new MinHeap();
+  heap.push(0, src);
+
+  const out: BFSFrame[] = [];
+  while (heap.size) {
+    onProgress?.({ phase: "bfs", done: settled.size, total: 0 });
+    // Settle every word at the smallest tentative distance
+    const distance = heap.peek()!.cost;
+    const frontier: string[] = [];
+    while (heap.size && heap.peek()!.cost <= distance + COST_EPSILON) {
+      const { cost, word } = heap.pop()!;
+      if (settled.has(word) || cost > dist.get(word)! + COST_EPSILON) continue; // stale entry
+      settled.add(word);
+      frontier.push(word);
+    }
+    if (!frontier.length) continue;
+
+    const newParents: Array<[string, string]> = [];
+    for (const w of frontier) {
+      for (const [parent, total] of offers.get(w) ?? []) if (total <= distance + COST_EPSILON) newParents.push([w, parent]);
+      offers.delete(w);
+    }
+
+    const found = frontier.includes(tgt);
+    const next: string[] = [];
+    if (!found) {
+      for (const w of frontier) {
+        for (const { word, cost } of moves(w)) {
+          if (settled.has(word)) continue;
+          const total = distance + cost;
+          let list = offers.get(word);
+          if (!list) offers.set(word, (list = []));
+          list.push([w, total]);
+          const known = dist.get(word);
+          if (known === undefined) next.push(word);
+          if (known === undefined || total < known - COST_EPSILON) {
+            dist.set(word, total);
+            heap.push(total, word);
+          }
+        }
+      }
+    }
+
+    out.push({
+      level: out.length,
+      direction: "forward",
+      frontier,
+      nextFrontier: next,
+      oppositeFrontier: [],
+      meeting: [],
+      newParents,
+      found,
+      distance,
+    });
+    if (found) break;
+  }
+  return out;
+}
+
+// Binary min-heap of words keyed by tentative distance
+class MinHeap {
+  private items: Array<{ cost: number; word: string }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek() {
+    return this.items[0];
+  }
+
+  push(cost: number, word: string) {
+    const items = this.items;
+    items.push({ cost, word });
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length) {
+      items[0] = last;
+      for (let i = 0; ; ) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < items.length && items[l].cost < items[min].cost) min = l;
+        if (r < items.length && items[r].cost < items[min].cost) min = r;
+        if (min === i) break;
+        [items[min], items[i]] = [items[i], items[min]];
+        i = min;
+      }
+    }
+    return top;
+  }
+}
+
+// Visited set at the end of frame `index`; pass -1 for the state before the first level
+export function visitedAt(frames: BFSFrame[], index: number): Set<string> {
+  const visited = new Set<string>();
+  if (!frames.length) return visited;
+  // Before the first level only the starting frontier(s) are visited
+  for (const w of frames[0].frontier) visited.add(w);
+  for (const w of frames[0].oppositeFrontier) visited.add(w);
+  for (let i = 0; i <= index && i < frames.length; i++) for (const w of frames[i].nextFrontier) visited.add(w);
+  return visited;
+}
+
+// Parent links up to and including frame `index`; pass -1 for none
+export function parentsAt(frames: BFSFrame[], index: number): Parents {
+  const parents: Parents = {};
+  for (let i = 0; i <= index && i < frames.length; i++) {
+    for (const [child, parent] of frames[i].newParents) (parents[child] ||= new Set()).add(parent);
+  }
+  return parents;
+}
+
+// Replay the inner loop of every level frame: which node is expanded, which bucket is looked up and
+// how each neighbor is treated. Derived from the frames so both algorithms share one definition.
+export function buildExpansionSteps(
+  frames: BFSFrame[],
+  graph: MoveGraph,
+  granularity: "node" | "pattern",
+  visitedRule: VisitedRule = "level"
+): ExpansionStep[] {
+  const steps: ExpansionStep[] = [];
+  const visitedBefore = visitedAt(frames, -1);
+  frames.forEach((f, frameIndex) => {
+    if (frameIndex) for (const w of frames[frameIndex - 1].nextFrontier) visitedBefore.add(w);
+    const opposite = new Set(f.oppositeFrontier);
+    const seen = new Set<string>();
+    const classify = (word: string): ProbeKind => {
+      if (opposite.has(word)) return "meet";
+      if (visitedBefore.has(word)) return "skipped";
+      if (seen.has(word)) return visitedRule === "discovery" ? "skipped" : "extra-parent";
+      seen.add(word);
+      return "discovered";
+    };
+
+    for (const node of f.frontier) {
+      const nodeProbes: Probe[] = [];
+      for (const { pattern, words } of graph.lookups(node)) {
+        const probes = words.map((word) => ({ word, kind: classify(word) }));
+        if (granularity === "pattern") steps.push({ frameIndex, node, pattern, probes });
+        else nodeProbes.push(...probes);
+      }
+      if (granularity === "node") steps.push({ frameIndex, node, probes: nodeProbes });
+    }
+  });
+  return steps;
+}
+
+// Total number of frontier nodes expanded across all frames
+export const countExpanded = (frames: BFSFrame[]) => frames.reduce((n, f) => n + f.frontier.length, 0);
+
+// Frames of one algorithm. Without insertion/deletion, words of different lengths can't be connected.
+function searchFrames(
+  src: string,
+  tgt: string,
+  graph: MoveGraph,
+  algorithm: Algorithm,
+  moves: MoveSet,
+  onProgress?: ProgressCallback,
+  visitedRule?: VisitedRule
+) {
+  if (!moves.insertDelete && src.length !== tgt.length) return [];
+  if (algorithm === "bidirectional") return buildBidirectionalFrames(src, tgt, graph.words, graph.neighbors, onProgress);
+  if (algorithm === "dijkstra") return buildDijkstraFrames(src, tgt, graph.moves, onProgress);
+  return buildFrames(src, tgt, graph.neighbors, onProgress, visitedRule);
+}
+
+// Nodes expanded by each algorithm on the same input, for comparing how much work they do
+// Counts already `known` (e.g. from the solution just computed) aren't searched for again.
+export function expandedByAlgorithm(
+  { begin, end, words, moves = LEETCODE_MOVES, costs = UNIFORM_COST }: LadderInput,
+  known: Partial<Record<Algorithm, number>> = {},
+  onProgress?: ProgressCallback
+): Record<Algorithm, number> {
+  const algorithms: Algorithm[] = ["bfs", "bidirectional", "dijkstra"];
+  const missing = algorithms.filter((a) => known[a] === undefined);
+  const counts = { ...known } as Record<Algorithm, number>;
+  if (!missing.length) return counts;
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  const graph = buildMoveGraph(src, words.map((w) => w.toLowerCase()), moves, costs);
+  missing.forEach((algorithm, i) => {
+    onProgress?.({ phase: "compare", done: i, total: missing.length });
+    counts[algorithm] = countExpanded(searchFrames(src, tgt, graph, algorithm, moves));
+  });
+  return counts;
+}
+
+// Nodes the solved search expanded, under the key expandedByAlgorithm uses for it. The "discovery"
+// visited rule expands a different set than the plain BFS being compared, so it isn't reused.
+export function knownExpanded({ algorithm = "bfs", visitedRule = "level" }: LadderInput, solution: LadderSolution): Partial<Record<Algorithm, number>> {
+  return algorithm === "bfs" && visitedRule !== "level" ? {} : { [algorithm]: countExpanded(solution.frames) };
+}
+
+// Backtrack from endWord to beginWord using parents. Paths come back in discovery order;
+// when `record` is set, every push/pop is also captured as a DFSFrame. The DFS unwinds once
+// `limit` paths are complete or MAX_BACKTRACK_STEPS frames are recorded. Bidirectional and
+// discovery-rule parents hold links that never reach begin, so only words on a shortest path are
+// entered: every branch then completes a path and `limit` bounds the work.
+function backtrack(parents: Parents, begin: string, end: string, record: boolean, onProgress?: ProgressCallback, limit = Infinity) {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  const res: string[][] = [];
+  const steps: DFSFrame[] = [];
+  if (!parents[tgt]) return { paths: res, steps };
+
+  const onPath = shortestPathNodes(parents, src, tgt);
+  const path: string[] = [];
+  const visiting = new Set<string>(); // Track nodes in current path to prevent cycles
+
+  const push = (w: string) => {
+    path.push(w);
+    visiting.add(w);
+    const completed = w === src ? [...path].reverse() : undefined;
+    if (completed) {
+      res.push(completed);
+      if (onProgress && res.length % PROGRESS_INTERVAL === 0) onProgress({ phase: "backtrack", done: res.length, total: 0 });
+    }
+    if (record) steps.push({ action: "push", word: w, path: [...path], visiting: Array.from(visiting), completed });
+  };
+  const pop = () => {
+    const w = path.pop()!;
+    visiting.delete(w);
+    if (record) steps.push({ action: "pop", word: w, path: [...path], visiting: Array.from(visiting) });
+  };
+
+  const dfs = (w: string) => {
+    if (w === src) return;
+    const ps = parents[w];
+    if (!ps) return;
+    for (const p of ps) {
+      if (res.length >= limit || (record && steps.length >= MAX_BACKTRACK_STEPS)) return;
+      // Prevent cycles by checking if parent is already in current path
+      if (visiting.has(p) || !onPath.has(p)) continue;
+
+      push(p);
+      dfs(p);
+      pop();
+    }
+  };
+
+  push(tgt);
+  dfs(tgt);
+  pop();
+  return { paths: res, steps };
+}
+
+// Words lying on at least one begin -> end path of the parent DAG, found without enumerating paths
+export function shortestPathNodes(parents: Parents, begin: string, end: string): Set<string> {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  const onPath = new Set<string>();
+  if (!parents[tgt]) return onPath;
+
+  // reaches[w]: can begin be reached from w by following parents?
+  const reaches = new Map<string, boolean>([[src, true]]);
+  const stack: string[] = [tgt];
+  while (stack.length) {
+    const w = stack[stack.length - 1];
+    if (reaches.has(w)) {
+      stack.pop();
+      continue;
+    }
+    const pending = Array.from(parents[w] ?? []).filter((p) => !reaches.has(p));
+    if (pending.length) {
+      stack.push(...pending);
+      continue;
+    }
+    stack.pop();
+    reaches.set(w, Array.from(parents[w] ?? []).some((p) => reaches.get(p)));
+  }
+
+  // Walk down from the end word through parents that reach begin
+  const queue = reaches.get(tgt) ? [tgt] : [];
+  for (const w of queue) {
+    if (onPath.has(w)) continue;
+    onPath.add(w);
+    for (const p of parents[w] ?? []) if (reaches.get(p)) queue.push(p);
+  }
+  return onPath;
+}
+
+// Paths from begin to each word and from each word to end in the parent DAG, by dynamic programming
+// over a topological order (parents before children). Linear in the DAG's size however many paths
+// there are; counts beyond 2^53 are approximate. A parent -> child link lies on
+// fromBegin(parent) * toEnd(child) shortest paths.
+export function countShortestPaths(parents: Parents, begin: string, end: string) {
+  const src = begin.toLowerCase();
+  const tgt = end.toLowerCase();
+  const through = new Map<string, number>(); // word -> paths through it
+  const fromBegin = new Map<string, number>();
+  const toEnd = new Map<string, number>();
+  if (!parents[tgt]) return { total: 0, through, fromBegin, toEnd };
+
+  // Iterative post-order DFS from the end word along parent links
+  const order: string[] = [];
+  const state = new Map<string, "open" | "done">();
+  const stack: string[] = [tgt];
+  while (stack.length) {
+    const w = stack[stack.length - 1];
+    if (state.get(w) === "done") {
+      stack.pop();
+      continue;
+    }
+    if (state.get(w) === "open") {
+      state.set(w, "done");
+      order.push(w);
+      stack.pop();
+      continue;
+    }
+    state.set(w, "open");
+    if (w !== src) for (const p of parents[w] ?? []) if (!state.has(p)) stack.push(p);
+  }
+
+  for (const w of order) {
+    let n = w === src ? 1 : 0;
+    if (w !== src) for (const p of parents[w] ?? []) n += fromBegin.get(p) ?? 0;
+    fromBegin.set(w, n);
+  }
+  toEnd.set(tgt, 1);
+  for (let i = order.length - 1; i >= 0; i--) {
+    const w = order[i];
+    if (w === src) continue;
+    for (const p of parents[w] ?? []) toEnd.set(p, (toEnd.get(p) ?? 0) + (toEnd.get(w) ?? 0));
+  }
+  for (const w of order) {
+    const n = (fromBegin.get(w) ?? 0) * (toEnd.get(w) ?? 0);
+    if (n) through.set(w, n);
+  }
+  return { total: fromBegin.get(tgt) ?? 0, through, fromBegin, toEnd };
+}
+
+export function backtrackPaths(parents: Parents, begin: string, end: string, onProgress?: ProgressCallback, limit = Infinity): string[][] {
+  const { paths } = backtrack(parents, begin, end, false, onProgress, limit);
+  // Sort results for deterministic display
+  return paths.sort((a, b) => a.join("->").localeCompare(b.join("->")));
+}
+
+export const buildBacktrackFrames = (parents: Parents, begin: string, end: string, limit = Infinity): DFSFrame[] =>
+  backtrack(parents, begin, end, true, undefined, limit).steps;
+
+export function solveWordLadder(
+  {
+    begin,
+    end,
+    words,
+    algorithm = "bfs",
+    granularity = "level",
+    moves = LEETCODE_MOVES,
+    costs = UNIFORM_COST,
+    maxPaths = DEFAULT_MAX_PATHS,
+    visitedRule = "level",
+  }: LadderInput,
+  onProgress?: ProgressCallback
+): LadderSolution {
+  const src = begin.toLowerCase();
+  const graph = buildMoveGraph(src, words.map((w) => w.toLowerCase()), moves, costs, onProgress);
+  const rule = algorithm === "bfs" ? visitedRule : "level";
+  const frames = searchFrames(src, end.toLowerCase(), graph, algorithm, moves, onProgress, rule);
+  const finalParents = parentsAt(frames, frames.length - 1);
+  return {
+    frames,
+    finalParents,
+    allPaths: backtrackPaths(finalParents, src, end, onProgress, maxPaths),
+    pathCount: countShortestPaths(finalParents, src, end).total,
+    backtrackFrames: buildBacktrackFrames(finalParents, src, end, maxPaths),
+    expansionSteps: granularity === "level" || algorithm === "dijkstra" ? [] : buildExpansionSteps(frames, graph, granularity, rule),
+  };
+}
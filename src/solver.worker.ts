@@ -0,0 +1,35 @@
+// Runs the solver off the main thread so large dictionaries don't freeze the tab.
+// Cancelling is done by terminating the worker, so each job runs straight through. The solution is
+// posted as soon as it is ready; the no-solution report (when there is no ladder) and the expansion
+// counts for the Results panel follow as separate messages, with progress, and "expanded" ends the job.
+import { explainNoSolution, MAX_BRIDGE_CANDIDATES, NoSolutionReport } from "./noSolution";
+import { Algorithm, expandedByAlgorithm, knownExpanded, LadderInput, LadderSolution, solveWordLadder, SolveProgress } from "./solver";
+
+export type SolverRequest = { id: number; input: LadderInput };
+
+export type SolverResponse =
+  | { id: number; type: "progress"; progress: SolveProgress }
+  | { id: number; type: "done"; solution: LadderSolution }
+  | { id: number; type: "noSolution"; noSolution: NoSolutionReport | null }
+  | { id: number; type: "expanded"; expanded: Record<Algorithm, number> }
+  | { id: number; type: "error"; message: string };
+
+const ctx = self as unknown as {
+  postMessage(message: SolverResponse): void;
+  onmessage: ((e: MessageEvent<SolverRequest>) => void) | null;
+};
+
+ctx.onmessage = (e) => {
+  const { id, input } = e.data;
+  const onProgress = (progress: SolveProgress) => ctx.postMessage({ id, type: "progress", progress });
+  try {
+    const solution = solveWordLadder(input, onProgress);
+    ctx.postMessage({ id, type: "done", solution });
+    if (!solution.allPaths.length) {
+      ctx.postMessage({ id, type: "noSolution", noSolution: explainNoSolution(input, MAX_BRIDGE_CANDIDATES, onProgress) });
+    }
+    ctx.postMessage({ id, type: "expanded", expanded: expandedByAlgorithm(input, knownExpanded(input, solution), onProgress) });
+  } catch (err) {
+    ctx.postMessage({ id, type: "error", message: (err as Error).message });
+  }
+};
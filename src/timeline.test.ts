@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { solveWordLadder } from "./solver";
+import { adjacentEvent, frameStartSteps, frameStats, timelineEvents } from "./timeline";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+describe("frameStats", () => {
+  it("counts the frontier and the words visited so far on each level", () => {
+    const { frames } = solveWordLadder(input);
+    expect(frameStats(frames)).toEqual([
+      { frontier: 1, visited: 2 },
+      { frontier: 1, visited: 4 },
+      { frontier: 2, visited: 6 },
+      { frontier: 2, visited: 7 },
+    ]);
+  });
+});
+
+describe("timelineEvents", () => {
+  it("marks the target, the largest frontier and the backtracking landmarks at level granularity", () => {
+    const { frames, expansionSteps, backtrackFrames } = solveWordLadder(input);
+    const events = timelineEvents({ frames, expansionSteps, backtrackFrames, granularity: "level", end: "cog" });
+    const firstPath = backtrackFrames.findIndex((f) => f.completed);
+    const lastPath = backtrackFrames.length - 1 - [...backtrackFrames].reverse().findIndex((f) => f.completed);
+    expect(events.map((e) => [e.kind, e.step])).toEqual([
+      ["largest-frontier", 2],
+      ["target-found", 3],
+      ["backtrack-start", 4],
+      ["first-path", 4 + firstPath],
+      ["last-path", 4 + lastPath],
+    ]);
+    expect(events[1].detail).toBe("on level 4");
+  });
+
+  it("points at the expansion step that discovers the end word at node granularity", () => {
+    const solution = solveWordLadder({ ...input, granularity: "node" });
+    const { frames, expansionSteps } = solution;
+    const starts = frameStartSteps({ frames, expansionSteps, granularity: "node" });
+    expect(starts).toEqual([0, 1, 2, 4]);
+    const found = timelineEvents({ ...solution, granularity: "node", end: "cog" }).find((e) => e.kind === "target-found")!;
+    expect(expansionSteps[found.step]).toMatchObject({ node: "dog" });
+  });
+});
+
+describe("adjacentEvent", () => {
+  it("finds the nearest event on either side of a step", () => {
+    const events = [2, 5, 9].map((step) => ({ kind: "first-path" as const, step, detail: "" }));
+    expect(adjacentEvent(events, 5, 1)).toBe(9);
+    expect(adjacentEvent(events, 5, -1)).toBe(2);
+    expect(adjacentEvent(events, 9, 1)).toBeNull();
+  });
+});
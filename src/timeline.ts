@@ -0,0 +1,95 @@
+// Landmarks and per-level statistics for the playback timeline. Steps are indices into the combined
+// timeline App plays back: BFS steps (levels or expansion steps) first, then backtracking DFS steps.
+import type { BFSFrame, DFSFrame, ExpansionStep, Granularity } from "./solver";
+
+export type TimelineEventKind = "target-found" | "largest-frontier" | "backtrack-start" | "first-path" | "last-path";
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  step: number;
+  detail: string;
+}
+
+export interface TimelineInput {
+  frames: BFSFrame[];
+  expansionSteps: ExpansionStep[];
+  backtrackFrames: DFSFrame[];
+  granularity: Granularity; // "level" steps through frames, anything else through expansionSteps
+  end: string;
+}
+
+// Words on the frontier and words visited so far, per frame
+export function frameStats(frames: BFSFrame[]): Array<{ frontier: number; visited: number }> {
+  if (!frames.length) return [];
+  let visited = frames[0].frontier.length + frames[0].oppositeFrontier.length;
+  return frames.map((f) => {
+    visited += f.nextFrontier.length;
+    return { frontier: f.frontier.length, visited };
+  });
+}
+
+// First step of each frame
+export function frameStartSteps({ frames, expansionSteps, granularity }: Pick<TimelineInput, "frames" | "expansionSteps" | "granularity">): number[] {
+  if (granularity === "level") return frames.map((_, i) => i);
+  const starts = frames.map(() => -1);
+  expansionSteps.forEach((s, i) => {
+    if (starts[s.frameIndex] === -1) starts[s.frameIndex] = i;
+  });
+  // A frame without expansion steps starts where the next one does
+  for (let i = starts.length - 1; i >= 0; i--) if (starts[i] === -1) starts[i] = i + 1 < starts.length ? starts[i + 1] : expansionSteps.length;
+  return starts;
+}
+
+export function timelineEvents(input: TimelineInput): TimelineEvent[] {
+  const { frames, expansionSteps, backtrackFrames, granularity, end } = input;
+  const bfsSteps = granularity === "level" ? frames.length : expansionSteps.length;
+  const starts = frameStartSteps(input);
+  const events: TimelineEvent[] = [];
+
+  const found = frames.findIndex((f) => f.found);
+  if (found !== -1) {
+    const f = frames[found];
+    let step = starts[found];
+    if (granularity !== "level") {
+      // The expansion step that discovers the end word (or meets the other frontier)
+      const last = found + 1 < starts.length ? starts[found + 1] - 1 : bfsSteps - 1;
+      const hit = expansionSteps
+        .slice(starts[found], last + 1)
+        .findIndex((s) => s.probes.some((p) => p.kind === "meet" || (p.word === end && p.kind !== "skipped")));
+      step = hit === -1 ? last : starts[found] + hit;
+    }
+    const detail =
+      f.distance !== undefined
+        ? `settled at distance ${Math.round(f.distance * 1000) / 1000}`
+        : f.meeting.length
+          ? `frontiers meet on level ${f.level}`
+          : `on level ${f.level + 1}`;
+    events.push({ kind: "target-found", step, detail });
+  }
+
+  if (frames.length) {
+    const sizes = frames.map((f) => f.frontier.length);
+    const largest = sizes.indexOf(Math.max(...sizes));
+    events.push({ kind: "largest-frontier", step: starts[largest], detail: `${sizes[largest].toLocaleString()} words on level ${frames[largest].level}` });
+  }
+
+  if (backtrackFrames.length) {
+    events.push({ kind: "backtrack-start", step: bfsSteps, detail: `${backtrackFrames.length.toLocaleString()} DFS steps` });
+    const completed = backtrackFrames.flatMap((f, i) => (f.completed ? [i] : []));
+    if (completed.length) {
+      events.push({ kind: "first-path", step: bfsSteps + completed[0], detail: backtrackFrames[completed[0]].completed!.join(" → ") });
+      if (completed.length > 1) {
+        const last = completed[completed.length - 1];
+        events.push({ kind: "last-path", step: bfsSteps + last, detail: `path ${completed.length.toLocaleString()}` });
+      }
+    }
+  }
+  return events.sort((a, b) => a.step - b.step);
+}
+
+// Step of the nearest event after (or before) `step`, or null at either end
+export function adjacentEvent(events: TimelineEvent[], step: number, direction: 1 | -1): number | null {
+  const steps = events.map((e) => e.step).filter((s) => (direction > 0 ? s > step : s < step));
+  if (!steps.length) return null;
+  return direction > 0 ? Math.min(...steps) : Math.max(...steps);
+}
@@ -0,0 +1,42 @@
+import { useMemo, useState } from "react";
+import { AnswerCheck, checkAnswer, parseSubmittedPaths } from "./answerCheck";
+import { buildMoveGraph } from "./moves";
+import type { LadderSolution } from "./solver";
+import type { Problem } from "./useProblem";
+
+// "Check my answer": the pasted paths, checked against `solution` (null while there is no current
+// one), and the submitted path whose marks are shown alone on the graph.
+export function useAnswerCheck(problem: Problem, solution: LadderSolution | null) {
+  const { beginWord, endWord, words, moves, costs } = problem;
+  const [text, setText] = useState("");
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const edit = (next: string) => {
+    setText(next);
+    setSelected(null);
+  };
+
+  const { check, error } = useMemo((): { check: AnswerCheck | null; error: string | null } => {
+    if (!text.trim() || !solution) return { check: null, error: null };
+    let submitted: string[][];
+    try {
+      submitted = parseSubmittedPaths(text);
+    } catch (err) {
+      return { check: null, error: (err as Error).message };
+    }
+    // Include the submitted words so steps into unknown words are judged on their letters alone
+    const begin = beginWord.toLowerCase();
+    const graph = buildMoveGraph(begin, [...words, ...submitted.flat()], moves, costs);
+    const check = checkAnswer(submitted, {
+      begin,
+      end: endWord.toLowerCase(),
+      expected: solution.allPaths,
+      pathCount: solution.pathCount,
+      dictionary: new Set(words),
+      stepCost: (from, to) => graph.moves(from).find((m) => m.word === to)?.cost,
+    });
+    return { check, error: null };
+  }, [text, solution, beginWord, endWord, words, moves, costs]);
+
+  return { text, edit, clear: () => edit(""), selected, setSelected, check, error };
+}
@@ -0,0 +1,56 @@
+import { useRef, useState } from "react";
+import { backupLibrary, LibraryExample, mergeLibrary, newExampleId, parseLibrary, readLibrary, writeLibrary } from "./exampleLibrary";
+
+const storage = () => (typeof localStorage === "undefined" ? null : localStorage);
+
+// The user's example library, saved to localStorage on every change. Unreadable stored data is
+// reported, and copied to a backup key before the first change overwrites it.
+export function useExampleLibrary() {
+  const [initial] = useState(() => {
+    try {
+      const s = storage();
+      return { examples: s ? readLibrary(s) : [], error: null };
+    } catch (err) {
+      return { examples: [], error: `Your saved examples could not be read: ${(err as Error).message}` };
+    }
+  });
+  const [examples, setExamples] = useState<LibraryExample[]>(initial.examples);
+  const [error, setError] = useState<string | null>(initial.error);
+  const unreadable = useRef(!!initial.error); // stored data not backed up yet
+
+  const commit = (next: LibraryExample[]) => {
+    setExamples(next);
+    try {
+      const s = storage();
+      let backup: string | null = null;
+      if (s && unreadable.current) {
+        backup = backupLibrary(s);
+        unreadable.current = false;
+      }
+      if (s) writeLibrary(s, next);
+      setError(backup && `Your unreadable saved examples were kept in localStorage under "${backup}" before saving the new ones.`);
+    } catch (err) {
+      setError(`Could not save your examples (${(err as Error).message}); they are kept until you reload`);
+    }
+  };
+
+  const add = (example: Omit<LibraryExample, "id">) => {
+    const added = { ...example, id: newExampleId() };
+    commit([...examples, added]);
+    return added;
+  };
+  const update = (id: string, changes: Partial<Omit<LibraryExample, "id">>) =>
+    commit(examples.map((e) => (e.id === id ? { ...e, ...changes } : e)));
+  const remove = (id: string) => commit(examples.filter((e) => e.id !== id));
+
+  // Returns the number of examples read; throws the parse error, leaving the library unchanged
+  const importText = (text: string) => {
+    const imported = parseLibrary(text);
+    commit(mergeLibrary(examples, imported));
+    return imported.length;
+  };
+
+  return { examples, error, add, update, remove, importText };
+}
+
+export type ExampleLibrary = ReturnType<typeof useExampleLibrary>;
@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useState } from "react";
+import { parseWordList } from "./dictionaryFile";
+import {
+  addToWordList,
+  emptyHistory,
+  History,
+  previewAdditions,
+  recordEdit,
+  redoEdit,
+  removeFromWordList,
+  undoEdit,
+  wordLevels,
+} from "./graphEditing";
+import { buildMoveGraph } from "./moves";
+import type { ImportedDictionary, Problem } from "./useProblem";
+
+// What clicking a word on the graph does
+export type GraphTool = "pan" | "remove" | "block";
+
+// What undo/redo restores after editing the graph
+type EditSnapshot = { wordListText: string; importedDict: ImportedDictionary | null; blocked: string[] };
+
+// Editing `problem` from the graph: removing or blocking clicked words, adding typed words after
+// previewing where they attach, and undo/redo of every such edit (also on Ctrl/Cmd+Z).
+export function useGraphEditing(problem: Problem) {
+  const { beginWord, endWord, wordListText, importedDict, blocked, words, moves, costs } = problem;
+  const [tool, setTool] = useState<GraphTool>("pan");
+  const [history, setHistory] = useState<History<EditSnapshot>>(emptyHistory);
+  const [addText, setAddText] = useState("");
+
+  const snapshot = (): EditSnapshot => ({ wordListText, importedDict, blocked });
+  const restore = (s: EditSnapshot) => {
+    problem.setWordListText(s.wordListText);
+    problem.setImportedDict(s.importedDict);
+    problem.setBlocked(s.blocked);
+  };
+  const apply = (changes: Partial<EditSnapshot>) => {
+    setHistory((h) => recordEdit(h, snapshot()));
+    restore({ ...snapshot(), ...changes });
+  };
+  const undo = () => {
+    const undone = undoEdit(history, snapshot());
+    if (!undone) return;
+    setHistory(undone.history);
+    restore(undone.state);
+  };
+  const redo = () => {
+    const redone = redoEdit(history, snapshot());
+    if (!redone) return;
+    setHistory(redone.history);
+    restore(redone.state);
+  };
+  // A new problem doesn't undo back into the previous one
+  const clearHistory = () => setHistory(emptyHistory());
+
+  // The begin and end words can't be removed or blocked from the graph
+  const clickWord = (word: string) => {
+    if (word === beginWord.toLowerCase() || word === endWord.toLowerCase()) return;
+    if (tool === "block") apply({ blocked: [...blocked, word] });
+    else if (importedDict) apply({ importedDict: { ...importedDict, words: importedDict.words.filter((w) => w !== word) } });
+    else apply({ wordListText: removeFromWordList(wordListText, word) });
+  };
+
+  const unblock = (word: string) => apply({ blocked: blocked.filter((b) => b !== word) });
+  const unblockAll = () => apply({ blocked: [] });
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) undo graph edits, except while typing in a field
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest("input, textarea, select")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // Where typed candidate words would attach, before adding them
+  const candidates = useMemo(() => parseWordList(addText), [addText]);
+  const additions = useMemo(() => {
+    if (!candidates.length) return [];
+    const begin = beginWord.toLowerCase();
+    const end = endWord.toLowerCase();
+    const graph = buildMoveGraph(begin, words, moves, costs);
+    return previewAdditions(candidates, {
+      graph,
+      fromBegin: wordLevels(begin, graph),
+      fromEnd: wordLevels(end, graph),
+      end,
+      inList: new Set(words),
+      eligible: (w) => moves.insertDelete || w.length === begin.length,
+    });
+  }, [candidates, beginWord, endWord, words, moves, costs]);
+
+  // One undoable edit, into the imported dictionary when there is one
+  const addToDictionary = (added: string[]) => {
+    // Blocked words are still listed; adding them just unblocks them
+    const listed = new Set(importedDict ? importedDict.words : parseWordList(wordListText));
+    const fresh = added.filter((w) => !listed.has(w));
+    apply({
+      ...(importedDict ? { importedDict: { ...importedDict, words: [...importedDict.words, ...fresh] } } : { wordListText: addToWordList(wordListText, fresh) }),
+      blocked: blocked.filter((w) => !added.includes(w)),
+    });
+  };
+  const addWords = () => {
+    const added = additions.filter((p) => p.status !== "in-list").map((p) => p.word);
+    if (!added.length) return;
+    addToDictionary(added);
+    setAddText("");
+  };
+
+  return {
+    tool,
+    setTool,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    redo,
+    clearHistory,
+    clickWord,
+    unblock,
+    unblockAll,
+    addText,
+    setAddText,
+    additions,
+    addToDictionary,
+    addWords,
+  };
+}
+
+export type GraphEditing = ReturnType<typeof useGraphEditing>;
@@ -0,0 +1,35 @@
+import { useState } from "react";
+import { downloadFile, graphToSvg, GraphSnapshot, parentsToDot, pathsToCsv, pathsToJson, svgToPng } from "./exportFormats";
+import type { LadderSolution } from "./solver";
+
+// Downloads of the graph at the current step and of the solution, named after the begin and end words.
+// Only a failed PNG render can go wrong, so that is the one error kept.
+export function useGraphExport(begin: string, end: string) {
+  const [error, setError] = useState<string | null>(null);
+  const name = `${begin}-${end}`.toLowerCase().replace(/[^a-z0-9-]+/g, "_");
+
+  const image = async (canvas: GraphSnapshot, format: "svg" | "png") => {
+    setError(null);
+    const svg = graphToSvg(canvas);
+    if (format === "svg") return downloadFile(`${name}-graph.svg`, svg, "image/svg+xml");
+    try {
+      downloadFile(`${name}-graph.png`, await svgToPng(svg, canvas.layout.width, canvas.layout.height));
+    } catch (err) {
+      setError(`PNG export failed: ${(err as Error).message}`);
+    }
+  };
+
+  const paths = (solution: LadderSolution, format: "json" | "csv") =>
+    format === "json"
+      ? downloadFile(`${name}-paths.json`, pathsToJson(solution.allPaths), "application/json")
+      : downloadFile(`${name}-paths.csv`, pathsToCsv(solution.allPaths), "text/csv");
+
+  const parents = (solution: LadderSolution) =>
+    downloadFile(
+      `${name}-parents.dot`,
+      parentsToDot(solution.finalParents, { begin: begin.toLowerCase(), end: end.toLowerCase(), paths: solution.allPaths }),
+      "text/vnd.graphviz"
+    );
+
+  return { error, image, paths, parents };
+}
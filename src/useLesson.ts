@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useState } from "react";
+import type { WordLadderExample } from "./examples";
+import { feedbackMarks, gradeAnswer, LessonFeedback, prepareLesson } from "./lesson";
+import { solveWordLadder } from "./solver";
+
+// A lesson session on the example it was started with: the current question, the learner's picks or
+// count, and one feedback per answered question. Lessons are written for small examples, so they
+// are solved inline.
+export function useLesson() {
+  const [example, setExample] = useState<WordLadderExample | null>(null);
+  const { questions, error } = useMemo(() => {
+    if (!example?.lesson) return { questions: [], error: null };
+    try {
+      return { questions: prepareLesson(example.lesson, solveWordLadder(example), example.begin, example.end), error: null };
+    } catch (err) {
+      return { questions: [], error: `This lesson doesn't fit its example: ${(err as Error).message}` };
+    }
+  }, [example]);
+
+  const [index, setIndex] = useState(0);
+  const [picks, setPicks] = useState<string[]>([]);
+  const [countText, setCountText] = useState("");
+  const [results, setResults] = useState<LessonFeedback[]>([]);
+
+  const restart = () => {
+    setIndex(0);
+    setPicks([]);
+    setCountText("");
+    setResults([]);
+  };
+  useEffect(restart, [example]);
+
+  // Starting the same example again restarts it
+  const start = (next: WordLadderExample) => {
+    setExample(next);
+    restart();
+  };
+
+  const current = questions[index] ?? null;
+  const feedback = results[index] ?? null;
+  const picking = !!current && !feedback && Array.isArray(current.answer);
+
+  const togglePick = (word: string) => {
+    if (picking) setPicks((p) => (p.includes(word) ? p.filter((w) => w !== word) : [...p, word]));
+  };
+
+  const submit = () => {
+    if (!current || feedback) return;
+    const response = Array.isArray(current.answer) ? picks : Number(countText);
+    setResults((r) => [...r.slice(0, index), gradeAnswer(current, response)]);
+  };
+
+  const next = () => {
+    setIndex((i) => i + 1);
+    setPicks([]);
+    setCountText("");
+  };
+
+  return {
+    example,
+    start,
+    exit: () => setExample(null),
+    lesson: example?.lesson ?? null,
+    questions,
+    error,
+    index,
+    current,
+    picking,
+    picks,
+    togglePick,
+    countText,
+    setCountText,
+    feedback,
+    marks: feedback ? feedbackMarks(feedback) : undefined,
+    submit,
+    next,
+    restart,
+    score: results.filter((r) => r.correct).length,
+    finished: questions.length > 0 && index >= questions.length,
+  };
+}
+
+export type LessonSession = ReturnType<typeof useLesson>;
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+
+// The playback cursor over a timeline of `totalSteps`: the current step, play/pause and speed. It
+// rewinds and pauses whenever `resetKey` changes, and pulls a step restored from a link back inside
+// the timeline once `ready` says the timeline is complete.
+export function usePlayback(totalSteps: number, { initialStep, resetKey, ready }: { initialStep: number; resetKey: string; ready: boolean }) {
+  const [step, setStep] = useState(initialStep);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedMs, setSpeedMs] = useState(750); // ms per step
+  const timerRef = useRef<number | null>(null);
+
+  // Compared against the last key rather than skipping the first run, so a step restored from a
+  // shared link survives mounting (and StrictMode's double effects)
+  const lastResetKey = useRef(resetKey);
+  useEffect(() => {
+    if (lastResetKey.current === resetKey) return;
+    lastResetKey.current = resetKey;
+    setStep(0);
+    setIsPlaying(false);
+  }, [resetKey]);
+
+  useEffect(() => {
+    if (!ready) return;
+    if (step > 0 && step > totalSteps - 1) setStep(Math.max(0, totalSteps - 1));
+  }, [step, totalSteps, ready]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      if (timerRef.current) {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+      return;
+    }
+    if (step >= totalSteps - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    timerRef.current = window.setTimeout(() => setStep((s) => Math.min(s + 1, totalSteps - 1)), speedMs) as unknown as number;
+    return () => {
+      if (timerRef.current) window.clearTimeout(timerRef.current);
+    };
+  }, [isPlaying, step, speedMs, totalSteps]);
+
+  return {
+    step,
+    setStep,
+    isPlaying,
+    togglePlaying: () => setIsPlaying((p) => !p),
+    pause: () => setIsPlaying(false),
+    back: () => setStep((s) => Math.max(0, s - 1)),
+    forward: () => setStep((s) => Math.min(totalSteps - 1, s + 1)),
+    reset: () => {
+      setIsPlaying(false);
+      setStep(0);
+    },
+    speedMs,
+    setSpeedMs,
+  };
+}
@@ -0,0 +1,164 @@
+import { useMemo, useState } from "react";
+import { diagnoseInput } from "./diagnostics";
+import { parseWordList, readDictionaryFile, splitWordList } from "./dictionaryFile";
+import type { WordLadderExample } from "./examples";
+import { CostModel, formatCostModel, isUniformCost, LEETCODE_MOVES, MoveSet, parseCostModel, UNIFORM_COST } from "./moves";
+import { readShareHash, ShareState } from "./shareState";
+import { Algorithm, DEFAULT_MAX_PATHS, Granularity, LadderInput } from "./solver";
+
+export type ImportedDictionary = { name: string; words: string[] };
+
+// Restore a setup from the URL once; a malformed link falls back to the default example
+function readSharedLink(): { state: ShareState | null; error: string | null } {
+  try {
+    return { state: readShareHash(window.location.hash), error: null };
+  } catch (err) {
+    return { state: null, error: (err as Error).message };
+  }
+}
+
+// The problem being solved: begin and end words, the word list or an imported dictionary, blocked
+// words and the search options, starting from a shared link when there is one. Derives the words the
+// solver uses, the input diagnostics and the solver's input.
+export function useProblem() {
+  const [shared] = useState(readSharedLink);
+
+  const [beginWord, setBeginWord] = useState(shared.state?.begin ?? "hit");
+  const [endWord, setEndWord] = useState(shared.state?.end ?? "cog");
+  const [wordListText, setWordListText] = useState(shared.state?.wordListText ?? ["hot", "dot", "dog", "lot", "log", "cog"].join("\n"));
+  const [algorithm, setAlgorithm] = useState<Algorithm>(shared.state?.algorithm ?? "bfs");
+  const [granularity, setGranularity] = useState<Granularity>(shared.state?.granularity ?? "level");
+  const [strictLeetCode, setStrictLeetCode] = useState(shared.state?.strict ?? false);
+  const [moves, setMoves] = useState<MoveSet>(shared.state?.moves ?? LEETCODE_MOVES);
+  const [costKind, setCostKind] = useState<CostModel["kind"]>(shared.state?.costs.kind ?? "uniform");
+  const [costText, setCostText] = useState(formatCostModel(shared.state?.costs ?? UNIFORM_COST));
+  const [maxPaths, setMaxPaths] = useState(DEFAULT_MAX_PATHS);
+  const [blocked, setBlocked] = useState<string[]>(shared.state?.blocked ?? []); // listed words the search skips
+
+  // Large imported lists bypass the textarea (and share links) and are used as-is
+  const [importedDict, setImportedDict] = useState<ImportedDictionary | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // An invalid cost table falls back to uniform costs until it is fixed
+  const { costs, costError } = useMemo(() => {
+    try {
+      return { costs: parseCostModel(costKind, costText), costError: null };
+    } catch (err) {
+      return { costs: UNIFORM_COST, costError: (err as Error).message };
+    }
+  }, [costKind, costText]);
+  // Only uniform-cost search understands weighted moves, and it steps one distance at a time
+  const searchAlgorithm: Algorithm = isUniformCost(costs) ? algorithm : "dijkstra";
+  const stepGranularity: Granularity = searchAlgorithm === "dijkstra" ? "level" : granularity;
+
+  // A new problem starts without the previous one's imported dictionary or blocked words
+  const load = (example: WordLadderExample) => {
+    setBeginWord(example.begin);
+    setEndWord(example.end);
+    setWordListText(example.words.join("\n"));
+    setImportedDict(null);
+    setBlocked([]);
+  };
+
+  // Resolves to whether the file was imported
+  const importDictionary = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+    try {
+      setImportedDict({ name: file.name, words: await readDictionaryFile(file) });
+      setBlocked([]);
+      return true;
+    } catch (err) {
+      setImportError((err as Error).message);
+      return false;
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const words = useMemo(() => {
+    const set = new Set(importedDict ? importedDict.words : parseWordList(wordListText));
+    // Convenience: add a missing endWord unless strict LeetCode semantics (no answer) are wanted
+    if (!strictLeetCode && !set.has(endWord.toLowerCase())) set.add(endWord.toLowerCase());
+    // Ensure beginWord not necessarily in set; it's the source
+    const skipped = new Set(blocked);
+    return Array.from(set).filter((w) => !skipped.has(w));
+  }, [wordListText, importedDict, endWord, strictLeetCode, blocked]);
+
+  // Problems with the input, listed in the Problem Setup panel
+  const diagnostics = useMemo(
+    () =>
+      diagnoseInput({
+        begin: beginWord,
+        end: endWord,
+        tokens: importedDict ? importedDict.words : splitWordList(wordListText),
+        strict: strictLeetCode,
+        lengthChanges: moves.insertDelete,
+      }),
+    [beginWord, endWord, wordListText, importedDict, strictLeetCode, moves]
+  );
+
+  const solverInput = useMemo<LadderInput>(
+    () => ({ begin: beginWord, end: endWord, words, algorithm: searchAlgorithm, granularity: stepGranularity, moves, costs, maxPaths }),
+    [beginWord, endWord, words, searchAlgorithm, stepGranularity, moves, costs, maxPaths]
+  );
+
+  // Changes whenever anything that affects the search does; serialized only then, since the word
+  // list can be dictionary-sized
+  const key = useMemo(
+    () =>
+      JSON.stringify([beginWord, endWord, wordListText, importedDict?.name, importedDict?.words.length, searchAlgorithm, stepGranularity, strictLeetCode, moves, costs, maxPaths, blocked]),
+    [beginWord, endWord, wordListText, importedDict, searchAlgorithm, stepGranularity, strictLeetCode, moves, costs, maxPaths, blocked]
+  );
+
+  // What a link reproduces, apart from the playback step; null when an imported dictionary can't go in one
+  const shareState = useMemo(
+    (): Omit<ShareState, "step"> | null =>
+      importedDict ? null : { begin: beginWord, end: endWord, wordListText, algorithm, granularity, strict: strictLeetCode, moves, costs, blocked },
+    [importedDict, beginWord, endWord, wordListText, algorithm, granularity, strictLeetCode, moves, costs, blocked]
+  );
+
+  return {
+    shared,
+    beginWord,
+    setBeginWord,
+    endWord,
+    setEndWord,
+    wordListText,
+    setWordListText,
+    importedDict,
+    setImportedDict,
+    importing,
+    importError,
+    importDictionary,
+    algorithm,
+    setAlgorithm,
+    searchAlgorithm,
+    granularity,
+    setGranularity,
+    stepGranularity,
+    strictLeetCode,
+    setStrictLeetCode,
+    moves,
+    setMoves,
+    costKind,
+    setCostKind,
+    costText,
+    setCostText,
+    costs,
+    costError,
+    maxPaths,
+    setMaxPaths,
+    blocked,
+    setBlocked,
+    load,
+    words,
+    diagnostics,
+    solverInput,
+    key,
+    shareState,
+  };
+}
+
+export type Problem = ReturnType<typeof useProblem>;
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { buildShareHash, ShareState } from "./shareState";
+
+// Keeps the URL in sync with `state` at `step`, so the current view can be shared at any time. Without
+// a state (an imported dictionary can't go in a link) the hash is cleared rather than left pointing at
+// the previous problem. `restoreError` is why the link the page opened with couldn't be restored.
+export function useShareLink(state: Omit<ShareState, "step"> | null, step: number, restoreError: string | null) {
+  const [notice, setNotice] = useState<string | null>(
+    restoreError && `This link couldn't be restored (${restoreError}), so the default example is shown instead.`
+  );
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setCopied(false);
+    if (!state) {
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+      return;
+    }
+    window.history.replaceState(null, "", buildShareHash({ ...state, step }));
+  }, [state, step]);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(window.location.href).then(() => setCopied(true));
+  };
+
+  return { notice, dismissNotice: () => setNotice(null), copied, copy, available: !!state };
+}
@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LadderInput, solveWordLadder } from "./solver";
+import type { SolverRequest, SolverResponse } from "./solver.worker";
+import { useSolver } from "./useSolver";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Stands in for the solver worker: records requests and replies only when a test says so
+class FakeWorker {
+  static spawned: FakeWorker[] = [];
+  onmessage: ((e: { data: SolverResponse }) => void) | null = null;
+  requests: SolverRequest[] = [];
+  terminated = false;
+  constructor() {
+    FakeWorker.spawned.push(this);
+  }
+  postMessage(request: SolverRequest) {
+    this.requests.push(request);
+  }
+  terminate() {
+    this.terminated = true;
+  }
+  // Finishes the latest job: the solution, then the expansion counts that end it
+  solve() {
+    const { id, input } = this.requests[this.requests.length - 1];
+    act(() => this.onmessage?.({ data: { type: "done", id, solution: solveWordLadder(input) } }));
+    act(() => this.onmessage?.({ data: { type: "expanded", id, expanded: { bfs: 0, bidirectional: 0, dijkstra: 0 } } }));
+  }
+}
+
+const classic = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+
+function mount(input: LadderInput) {
+  let current!: ReturnType<typeof useSolver>;
+  const Probe = ({ input }: { input: LadderInput }) => {
+    current = useSolver(input);
+    return null;
+  };
+  const root = createRoot(document.createElement("div"));
+  act(() => root.render(createElement(Probe, { input })));
+  return {
+    get solver() {
+      return current;
+    },
+    rerender: (next: LadderInput) => act(() => root.render(createElement(Probe, { input: next }))),
+    unmount: () => act(() => root.unmount()),
+  };
+}
+
+describe("useSolver", () => {
+  beforeEach(() => {
+    FakeWorker.spawned = [];
+    vi.stubGlobal("Worker", FakeWorker);
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("marks the kept solution stale after a cancel and an input change until the new one is solved", () => {
+    const first = classic;
+    const view = mount(first);
+    FakeWorker.spawned[0].solve();
+    expect(view.solver).toMatchObject({ running: false, stale: false, solvedFor: first });
+
+    view.rerender({ ...classic, end: "log" });
+    act(() => view.solver.cancel());
+    expect(view.solver).toMatchObject({ running: false, cancelled: true, stale: true, solvedFor: first });
+
+    const third = { ...classic, algorithm: "bidirectional" as const };
+    view.rerender(third);
+    expect(view.solver).toMatchObject({ running: true, cancelled: false, stale: true });
+    expect(view.solver.solution?.allPaths).toEqual(solveWordLadder(first).allPaths);
+
+    // Cancelling terminated the worker, so the new job runs in a fresh one
+    expect(FakeWorker.spawned.map((w) => w.terminated)).toEqual([true, false]);
+    FakeWorker.spawned[1].solve();
+    expect(view.solver).toMatchObject({ running: false, stale: false, solvedFor: third });
+    view.unmount();
+  });
+});
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { explainNoSolution, NoSolutionReport } from "./noSolution";
+import { Algorithm, expandedByAlgorithm, knownExpanded, LadderInput, LadderSolution, solveWordLadder, SolveProgress } from "./solver";
+import type { SolverRequest, SolverResponse } from "./solver.worker";
+
+export interface SolverState {
+  solution: LadderSolution | null; // last finished solution (kept while a newer one is running or after a cancel)
+  solvedFor: LadderInput | null; // input `solution` was solved for
+  expanded: Record<Algorithm, number> | null; // nodes expanded by each algorithm on the same input
+  noSolution: NoSolutionReport | null; // why there is no ladder, for a finished solution without paths
+  progress: SolveProgress | null;
+  running: boolean;
+  analyzing: boolean; // solved; the no-solution report and expansion counts are still being computed
+  cancelled: boolean;
+  error: string | null;
+}
+
+const idle: SolverState = {
+  solution: null,
+  solvedFor: null,
+  expanded: null,
+  noSolution: null,
+  progress: null,
+  running: false,
+  analyzing: false,
+  cancelled: false,
+  error: null,
+};
+
+const spawnWorker = () => new Worker(new URL("./solver.worker.ts", import.meta.url), { type: "module" });
+
+// Solves `input` in a Web Worker whenever it changes. A newer input, or cancel(), terminates
+// the running job, including its follow-up analysis; results of superseded jobs are ignored.
+export function useSolver(input: LadderInput) {
+  const [state, setState] = useState<SolverState>(idle);
+  const workerRef = useRef<Worker | null>(null);
+  const jobRef = useRef(0);
+  const runningRef = useRef(false);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  useEffect(() => {
+    const id = ++jobRef.current;
+
+    // Without worker support (e.g. some test environments) solve inline
+    if (typeof Worker === "undefined") {
+      const solution = solveWordLadder(input);
+      const noSolution = solution.allPaths.length ? null : explainNoSolution(input);
+      setState({ ...idle, solution, solvedFor: input, expanded: expandedByAlgorithm(input, knownExpanded(input, solution)), noSolution });
+      return;
+    }
+
+    // A job still running for an older input can't be interrupted any other way
+    if (runningRef.current) stopWorker();
+    const worker = (workerRef.current ||= spawnWorker());
+    worker.onmessage = (e: MessageEvent<SolverResponse>) => {
+      const msg = e.data;
+      if (msg.id !== jobRef.current) return;
+      if (msg.type === "expanded" || msg.type === "error") runningRef.current = false;
+      if (msg.type === "progress") setState((s) => ({ ...s, progress: msg.progress }));
+      else if (msg.type === "done") setState({ ...idle, solution: msg.solution, solvedFor: input, analyzing: true });
+      else if (msg.type === "noSolution") setState((s) => ({ ...s, noSolution: msg.noSolution }));
+      else if (msg.type === "expanded") setState((s) => ({ ...s, expanded: msg.expanded, analyzing: false, progress: null }));
+      else setState((s) => ({ ...s, running: false, analyzing: false, progress: null, error: msg.message }));
+    };
+    runningRef.current = true;
+    setState((s) => ({ ...s, running: true, analyzing: false, cancelled: false, progress: null, error: null }));
+    worker.postMessage({ id, input } satisfies SolverRequest);
+  }, [input]);
+
+  useEffect(() => stopWorker, []);
+
+  const cancel = useCallback(() => {
+    jobRef.current++;
+    runningRef.current = false;
+    stopWorker();
+    // Cancelling only the follow-up analysis keeps the solution; the counts it would have added stay empty
+    setState((s) => ({ ...s, running: false, analyzing: false, cancelled: s.running, progress: null }));
+  }, []);
+
+  // The kept solution belongs to an older input until the current one is solved
+  const stale = !!state.solution && state.solvedFor !== input;
+  return { ...state, stale, cancel };
+}
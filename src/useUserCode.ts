@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { analyzeUserRun, DEFAULT_USER_CODE, USER_CODE_TIMEOUT_MS, UserRunResult } from "./userCode";
+import type { UserCodeRequest, UserCodeResponse } from "./userCode.worker";
+
+export interface UserCodeState {
+  result: UserRunResult | null;
+  running: boolean;
+  error: string | null; // compile errors, timeouts and sandbox failures; runtime errors are in result.error
+}
+
+const idle: UserCodeState = { result: null, running: false, error: null };
+
+const runToken = () => Array.from(crypto.getRandomValues(new Uint32Array(4)), (n) => n.toString(36)).join("");
+
+// Runs the learner's code on `input` in a fresh sandbox worker per run, terminating it on timeout,
+// cancel or unmount. Replies without the run's token were posted by the learner's code and are
+// ignored. The output is graded here, out of reach of whatever the code patched in the worker. A
+// result is stale once the input changes, and only a current one can be replayed.
+export function useUserCode(input: { begin: string; end: string; words: string[] }) {
+  const [state, setState] = useState<UserCodeState>(idle);
+  const [code, setCode] = useState(DEFAULT_USER_CODE);
+  const [replay, setReplay] = useState(false); // play back the learner's trace instead of the solver's frames
+  const [ranFor, setRanFor] = useState<string | null>(null); // inputKey of the last run
+  const workerRef = useRef<Worker | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const start = useCallback((request: Omit<UserCodeRequest, "token">) => {
+    stop();
+    if (typeof Worker === "undefined") {
+      setState({ ...idle, error: "this browser can't run code in a worker" });
+      return;
+    }
+    const worker = new Worker(new URL("./userCode.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    const token = runToken();
+    worker.onmessage = (e: MessageEvent<UserCodeResponse>) => {
+      if (workerRef.current !== worker || e.data?.token !== token) return;
+      stop();
+      const msg = e.data;
+      if (msg.type === "error") {
+        setState({ ...idle, error: msg.message });
+        return;
+      }
+      try {
+        const { begin, end, words } = request;
+        setState({ ...idle, result: analyzeUserRun(msg.output, { begin, end, words }, msg.reference) });
+      } catch (err) {
+        setState({ ...idle, error: (err as Error).message });
+      }
+    };
+    worker.onerror = (e) => {
+      if (workerRef.current !== worker) return;
+      stop();
+      setState({ ...idle, error: e.message || "the sandbox failed to start" });
+    };
+    timerRef.current = window.setTimeout(() => {
+      stop();
+      setState({ ...idle, error: `stopped after ${USER_CODE_TIMEOUT_MS / 1000} s (infinite loop?)` });
+    }, USER_CODE_TIMEOUT_MS);
+    setState((s) => ({ ...s, running: true, error: null }));
+    worker.postMessage({ ...request, token } satisfies UserCodeRequest);
+  }, []);
+
+  const cancel = useCallback(() => {
+    stop();
+    setState((s) => ({ ...s, running: false }));
+  }, []);
+
+  const clear = useCallback(() => {
+    stop();
+    setState(idle);
+  }, []);
+
+  useEffect(() => stop, []);
+
+  // Serialized only when the input changes: the word list can be dictionary-sized
+  const begin = input.begin.toLowerCase();
+  const end = input.end.toLowerCase();
+  const inputKey = useMemo(() => JSON.stringify([begin, end, input.words]), [begin, end, input.words]);
+  const stale = !!state.result && ranFor !== inputKey;
+
+  const run = () => {
+    setRanFor(inputKey);
+    start({ code, begin, end, words: input.words });
+  };
+
+  const reset = () => {
+    setCode(DEFAULT_USER_CODE);
+    clear();
+    setReplay(false);
+  };
+
+  return { ...state, code, setCode, run, cancel, reset, stale, replay, setReplay, replaying: replay && !!state.result && !stale };
+}
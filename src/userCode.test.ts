@@ -0,0 +1,109 @@
+import { transform } from "sucrase";
+import { describe, expect, it } from "vitest";
+import { solveWordLadder } from "./solver";
+import { analyzeUserRun, compareFrames, DEFAULT_USER_CODE, runUserCode, traceToFrames } from "./userCode";
+
+const input = { begin: "hit", end: "cog", words: ["hot", "dot", "dog", "lot", "log", "cog"] };
+const compile = (code: string) => transform(code, { transforms: ["typescript", "imports"] }).code;
+const run = (code: string) => runUserCode(compile(code), input.begin, input.end, input.words);
+
+describe("runUserCode", () => {
+  it("runs the default TypeScript solution and records its operations", () => {
+    const output = run(DEFAULT_USER_CODE);
+    expect(output.error).toBeNull();
+    expect(output.paths).toEqual(solveWordLadder(input).allPaths);
+    expect(output.events.slice(0, 4)).toEqual([
+      { type: "enqueue", word: "hit" },
+      { type: "visit", word: "hit" },
+      { type: "expand", word: "hit" },
+      { type: "enqueue", word: "hot" },
+    ]);
+  });
+
+  it("accepts exported functions and captures console output", () => {
+    const output = run('export function findLadders(b: string) { console.log("from", b, [1]); return []; }');
+    expect(output.error).toBeNull();
+    expect(output.paths).toEqual([]);
+    expect(output.logs).toEqual(['from hit [1]']);
+  });
+
+  it("reports missing functions, bad return values and thrown errors", () => {
+    expect(run("const x = 1;").error).toMatch(/no findLadders/);
+    expect(run("function findLadders() { return 42; }").error).toMatch(/array of paths/);
+    expect(run('function findLadders() { throw new Error("boom"); }').error).toBe("boom");
+  });
+
+  it("hides the worker's globals from the learner's code", () => {
+    const output = run("function findLadders() { console.log(typeof self, typeof globalThis, typeof postMessage); return []; }");
+    expect(output.logs).toEqual(["undefined undefined undefined"]);
+  });
+
+  it("stops runaway loops that keep using the helpers", () => {
+    const output = run("function findLadders() { const q = new Queue(); for (;;) q.push('x'); }");
+    expect(output.error).toMatch(/stopped after/);
+  });
+});
+
+describe("traceToFrames", () => {
+  it("rebuilds the reference frames from the default solution's trace", () => {
+    const { frames, reexpanded } = traceToFrames(run(DEFAULT_USER_CODE).events, input.end);
+    const reference = solveWordLadder(input).frames;
+    expect(frames.map((f) => f.frontier)).toEqual(reference.map((f) => f.frontier));
+    expect(frames.map((f) => f.found)).toEqual(reference.map((f) => f.found));
+    expect(compareFrames(frames, reference)).toEqual([]);
+    expect(reexpanded).toEqual([]);
+  });
+
+  it("levels words by the expansion that first recorded them", () => {
+    const { frames, reexpanded, expansions } = traceToFrames(
+      [
+        { type: "expand", word: "a" },
+        { type: "parent", child: "b", parent: "a" },
+        { type: "visit", word: "c" },
+        { type: "expand", word: "b" },
+        { type: "enqueue", word: "d" },
+        { type: "expand", word: "c" },
+        { type: "parent", child: "d", parent: "c" },
+        { type: "expand", word: "b" },
+      ],
+      "d"
+    );
+    expect(frames.map((f) => [f.frontier, f.nextFrontier, f.newParents, f.found])).toEqual([
+      [["a"], ["b", "c"], [["b", "a"]], false],
+      [["b", "c"], ["d"], [["d", "c"]], true],
+    ]);
+    expect(reexpanded).toEqual(["b"]);
+    expect(expansions).toBe(4);
+  });
+});
+
+describe("analyzeUserRun", () => {
+  // The classic bug: marking words visited as soon as they are discovered loses extra parents
+  const buggy = DEFAULT_USER_CODE.replace("discovered.add(next);", "discovered.add(next);\n            visited.add(next);");
+
+  it("shows where a buggy variant diverges from the reference", () => {
+    const output = run(buggy);
+    const result = analyzeUserRun(output, input, solveWordLadder(input));
+    expect(result.check!.missing).toEqual([["hit", "hot", "lot", "log", "cog"]]);
+    expect(result.diffs).toEqual([{ level: 3, missingWords: [], extraWords: [], missingParents: [["cog", "log"]], extraParents: [] }]);
+  });
+
+  it("grades on the page even when the code patched the worker's builtins", () => {
+    // The worker's realm is modelled by patching around runUserCode; its reply is cloned like postMessage does
+    const filter = Array.prototype.filter;
+    let output;
+    try {
+      output = structuredClone(run('Array.prototype.filter = function () { return []; };\nfunction findLadders() { return [["hit", "cog"]]; }'));
+    } finally {
+      Array.prototype.filter = filter;
+    }
+    const { check } = analyzeUserRun(output, input, solveWordLadder(input));
+    expect(check!.paths[0]).toMatchObject({ correct: false, issues: [{ kind: "invalid-step", index: 0, from: "hit", to: "cog" }] });
+    expect(check!.missing).toEqual(solveWordLadder(input).allPaths);
+  });
+
+  it("skips the path check when the code failed", () => {
+    const output = run("function findLadders() { throw new Error('x'); }");
+    expect(analyzeUserRun(output, input, solveWordLadder(input)).check).toBeNull();
+  });
+});
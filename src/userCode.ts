@@ -0,0 +1,320 @@
+// Runs a learner's own findLadders() with instrumented data structures and turns what it did into
+// BFSFrames, so the visualizer can replay it and compare it with the reference solver. Evaluation
+// happens in userCode.worker.ts; everything here is pure so it can be tested without a worker.
+import { AnswerCheck, checkAnswer } from "./answerCheck";
+import { buildMoveGraph } from "./moves";
+import { BFSFrame, LadderSolution } from "./solver";
+
+// What the instrumented helpers record, in call order
+export type TraceEvent =
+  | { type: "expand"; word: string } // Queue.shift() or trace.expand()
+  | { type: "enqueue"; word: string } // Queue.push()
+  | { type: "visit"; word: string } // VisitedSet.add()
+  | { type: "parent"; child: string; parent: string }; // ParentsMap.add()
+
+// Recording stops (and the run fails) after this many events, so runaway loops end before the timeout
+export const MAX_TRACE_EVENTS = 500_000;
+export const MAX_LOG_LINES = 200;
+export const USER_CODE_TIMEOUT_MS = 5000;
+
+export const DEFAULT_USER_CODE = `// Write findLadders like on LeetCode 126 (JavaScript or TypeScript). Use the instrumented
+// helpers so the visualizer can replay what your code does:
+//   new Queue(words)       push(...words), shift() (records an expansion), length
+//   new VisitedSet(words)  add(word), has(word), delete(word), size
+//   new ParentsMap()       add(child, parent), get(child) -> string[], has(child)
+//   trace.expand(word)     mark an expansion by hand when iterating plain arrays
+// console.log output is shown below the editor.
+function findLadders(beginWord: string, endWord: string, wordList: string[]): string[][] {
+  const dict = new Set(wordList);
+  if (!dict.has(endWord)) return [];
+  const queue = new Queue([beginWord]);
+  const visited = new VisitedSet([beginWord]);
+  const parents = new ParentsMap();
+  let found = false;
+
+  while (queue.length && !found) {
+    // Mark a level's words visited only after the whole level, so words keep every parent
+    const discovered = new Set<string>();
+    for (let n = queue.length; n > 0; n--) {
+      const word = queue.shift()!;
+      for (let i = 0; i < word.length; i++) {
+        for (let c = 97; c <= 122; c++) {
+          const next = word.slice(0, i) + String.fromCharCode(c) + word.slice(i + 1);
+          if (!dict.has(next) || visited.has(next)) continue;
+          if (next === endWord) found = true;
+          if (!discovered.has(next)) {
+            discovered.add(next);
+            queue.push(next);
+          }
+          parents.add(next, word);
+        }
+      }
+    }
+    for (const w of discovered) visited.add(w);
+  }
+
+  const paths: string[][] = [];
+  const walk = (word: string, path: string[]) => {
+    if (word === beginWord) return void paths.push([beginWord, ...path]);
+    for (const p of parents.get(word)) walk(p, [word, ...path]);
+  };
+  if (found) walk(endWord, []);
+  return paths;
+}
+`;
+
+// ----- Instrumented API -----
+
+export function createTraceApi(record: (event: TraceEvent) => void) {
+  class Queue {
+    private items: string[] = [];
+    private head = 0;
+    constructor(words: Iterable<string> = []) {
+      this.push(...words);
+    }
+    get length() {
+      return this.items.length - this.head;
+    }
+    push(...words: string[]) {
+      for (const word of words) {
+        record({ type: "enqueue", word });
+        this.items.push(word);
+      }
+      return this.length;
+    }
+    shift(): string | undefined {
+      if (this.head >= this.items.length) return undefined;
+      const word = this.items[this.head++];
+      record({ type: "expand", word });
+      return word;
+    }
+  }
+
+  class VisitedSet {
+    private set = new Set<string>();
+    constructor(words: Iterable<string> = []) {
+      for (const w of words) this.add(w);
+    }
+    get size() {
+      return this.set.size;
+    }
+    add(word: string) {
+      record({ type: "visit", word });
+      this.set.add(word);
+      return this;
+    }
+    has(word: string) {
+      return this.set.has(word);
+    }
+    delete(word: string) {
+      return this.set.delete(word);
+    }
+    [Symbol.iterator]() {
+      return this.set[Symbol.iterator]();
+    }
+  }
+
+  class ParentsMap {
+    private map = new Map<string, string[]>();
+    add(child: string, parent: string) {
+      record({ type: "parent", child, parent });
+      const list = this.map.get(child);
+      if (!list) this.map.set(child, [parent]);
+      else if (!list.includes(parent)) list.push(parent);
+      return this;
+    }
+    get(child: string): string[] {
+      return this.map.get(child) ?? [];
+    }
+    has(child: string) {
+      return this.map.has(child);
+    }
+  }
+
+  const trace = { expand: (word: string) => record({ type: "expand", word }) };
+  return { Queue, VisitedSet, ParentsMap, trace };
+}
+
+// ----- Running -----
+
+export interface UserCodeOutput {
+  paths: string[][] | null; // null when the code threw or returned something else
+  events: TraceEvent[];
+  logs: string[];
+  error: string | null;
+}
+
+const format = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value) ?? String(value));
+
+// Evaluate compiled JavaScript that defines findLadders (as a declaration or a CommonJS export) and
+// call it. Only meant to run inside the sandbox worker, which is what keeps it off the page. The
+// worker's globals are shadowed so the code can't post messages of its own by accident.
+export function runUserCode(js: string, begin: string, end: string, words: string[]): UserCodeOutput {
+  const events: TraceEvent[] = [];
+  const logs: string[] = [];
+  const record = (event: TraceEvent) => {
+    if (events.length >= MAX_TRACE_EVENTS) throw new Error(`stopped after ${MAX_TRACE_EVENTS.toLocaleString("en-US")} traced operations`);
+    events.push(event);
+  };
+  const log = (...args: unknown[]) => {
+    if (logs.length < MAX_LOG_LINES) logs.push(args.map(format).join(" "));
+  };
+  const api = createTraceApi(record);
+  const exports: Record<string, unknown> = {};
+  const module = { exports };
+
+  try {
+    const factory = new Function(
+      "Queue",
+      "VisitedSet",
+      "ParentsMap",
+      "trace",
+      "console",
+      "exports",
+      "module",
+      "self",
+      "globalThis",
+      "postMessage",
+      `"use strict";\n${js}\nreturn typeof findLadders === "function" ? findLadders : module.exports.findLadders || exports.findLadders;`
+    );
+    const console = { log, info: log, warn: log, error: log, debug: log };
+    // self, globalThis and postMessage are left undefined
+    const findLadders = factory(api.Queue, api.VisitedSet, api.ParentsMap, api.trace, console, exports, module);
+    if (typeof findLadders !== "function") throw new Error("no findLadders function was defined");
+    const result: unknown = findLadders(begin, end, [...words]);
+    if (!Array.isArray(result) || !result.every((p) => Array.isArray(p) && p.every((w) => typeof w === "string"))) {
+      throw new Error("findLadders must return an array of paths (arrays of words)");
+    }
+    return { paths: result as string[][], events, logs, error: null };
+  } catch (err) {
+    return { paths: null, events, logs, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// ----- Trace -> frames -----
+
+export interface UserTrace {
+  frames: BFSFrame[];
+  reexpanded: string[]; // words expanded more than once
+  expansions: number;
+}
+
+// Group the recorded operations into BFS levels. A word's level is one more than the level of the
+// word being expanded when it was first enqueued, visited or given a parent (words recorded before
+// any expansion start at level 0). Each frame holds the words expanded on a level, the words they
+// discovered and the parent links recorded meanwhile.
+export function traceToFrames(events: TraceEvent[], end: string): UserTrace {
+  const levelOf = new Map<string, number>();
+  const frontiers: string[][] = [];
+  const discovered: string[][] = [];
+  const parents: Array<Array<[string, string]>> = [];
+  const expandedOnce = new Set<string>();
+  const reexpanded = new Set<string>();
+  let current = -1; // level being expanded
+  let expansions = 0;
+
+  const discover = (word: string) => {
+    if (levelOf.has(word)) return;
+    const level = current + 1;
+    levelOf.set(word, level);
+    if (level > 0) (discovered[level - 1] ||= []).push(word);
+  };
+
+  for (const e of events) {
+    if (e.type === "expand") {
+      expansions++;
+      // Words the instrumented helpers never saw get the level of the previous expansion
+      current = levelOf.get(e.word) ?? Math.max(current, 0);
+      if (!levelOf.has(e.word)) levelOf.set(e.word, current);
+      if (expandedOnce.has(e.word)) reexpanded.add(e.word);
+      else {
+        expandedOnce.add(e.word);
+        (frontiers[current] ||= []).push(e.word);
+      }
+    } else if (e.type === "parent") {
+      discover(e.child);
+      (parents[Math.max(current, 0)] ||= []).push([e.child, e.parent]);
+    } else discover(e.word);
+  }
+
+  const frames: BFSFrame[] = [];
+  for (let level = 0; level < frontiers.length; level++) {
+    const nextFrontier = discovered[level] ?? [];
+    const seen = new Set<string>();
+    const newParents = (parents[level] ?? []).filter(([c, p]) => !seen.has(`${c}>${p}`) && seen.add(`${c}>${p}`));
+    frames.push({
+      level,
+      direction: "forward",
+      frontier: frontiers[level] ?? [],
+      nextFrontier,
+      oppositeFrontier: [],
+      meeting: [],
+      newParents,
+      found: nextFrontier.includes(end),
+    });
+  }
+  return { frames, reexpanded: Array.from(reexpanded), expansions };
+}
+
+// ----- Comparison -----
+
+export interface LevelDiff {
+  level: number;
+  missingWords: string[]; // discovered by the reference on this level, not by the user's code
+  extraWords: string[];
+  missingParents: Array<[string, string]>;
+  extraParents: Array<[string, string]>;
+}
+
+const difference = <T>(a: T[], b: T[], key: (x: T) => string) => {
+  const keys = new Set(b.map(key));
+  return a.filter((x) => !keys.has(key(x)));
+};
+
+// Levels where the words discovered or the parent links recorded differ from the reference
+export function compareFrames(mine: BFSFrame[], reference: BFSFrame[]): LevelDiff[] {
+  const diffs: LevelDiff[] = [];
+  const pair = ([c, p]: [string, string]) => `${c}>${p}`;
+  for (let level = 0; level < Math.max(mine.length, reference.length); level++) {
+    const m = mine[level];
+    const r = reference[level];
+    const diff: LevelDiff = {
+      level,
+      missingWords: difference(r?.nextFrontier ?? [], m?.nextFrontier ?? [], String),
+      extraWords: difference(m?.nextFrontier ?? [], r?.nextFrontier ?? [], String),
+      missingParents: difference(r?.newParents ?? [], m?.newParents ?? [], pair),
+      extraParents: difference(m?.newParents ?? [], r?.newParents ?? [], pair),
+    };
+    if (diff.missingWords.length || diff.extraWords.length || diff.missingParents.length || diff.extraParents.length) diffs.push(diff);
+  }
+  return diffs;
+}
+
+export interface UserRunResult extends UserCodeOutput {
+  trace: UserTrace;
+  reference: Pick<LadderSolution, "frames" | "allPaths" | "pathCount">;
+  diffs: LevelDiff[];
+  check: AnswerCheck | null; // the returned paths against the reference's, when the code returned any
+}
+
+// Everything the UI shows about a run, given the code's output and the reference solution
+export function analyzeUserRun(
+  output: UserCodeOutput,
+  input: { begin: string; end: string; words: string[] },
+  reference: Pick<LadderSolution, "frames" | "allPaths" | "pathCount">
+): UserRunResult {
+  const trace = traceToFrames(output.events, input.end);
+  let check: AnswerCheck | null = null;
+  if (output.paths) {
+    const graph = buildMoveGraph(input.begin, [...input.words, ...output.paths.flat()]);
+    check = checkAnswer(output.paths, {
+      begin: input.begin,
+      end: input.end,
+      expected: reference.allPaths,
+      pathCount: reference.pathCount,
+      dictionary: new Set(input.words),
+      stepCost: (from, to) => graph.moves(from).find((m) => m.word === to)?.cost,
+    });
+  }
+  return { ...output, trace, reference, diffs: compareFrames(trace.frames, reference.frames), check };
+}
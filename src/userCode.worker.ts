@@ -0,0 +1,41 @@
+// Runs learners' findLadders code in a dedicated worker per run: no DOM, no access to the page, and
+// the page terminates it when it runs past the timeout. The common network APIs are blanked to catch
+// accidental use, but this is not a security boundary: determined code can still reach the network
+// (e.g. through a dynamic import). The code shares this realm and can patch any builtin, so nothing
+// here judges it: the worker replies with the raw output and a reference solved before the code ran,
+// and the page grades them. The run's token only tells the page which run a reply belongs to.
+import { transform } from "sucrase";
+import { LadderSolution, solveWordLadder } from "./solver";
+import { runUserCode, UserCodeOutput } from "./userCode";
+
+export type UserCodeRequest = { code: string; begin: string; end: string; words: string[]; token: string };
+
+type UserCodeReply =
+  | { type: "done"; output: UserCodeOutput; reference: Pick<LadderSolution, "frames" | "allPaths" | "pathCount"> }
+  | { type: "error"; message: string };
+export type UserCodeResponse = UserCodeReply & { token: string };
+
+const ctx = self as unknown as {
+  postMessage(message: UserCodeResponse): void;
+  onmessage: ((e: MessageEvent<UserCodeRequest>) => void) | null;
+};
+const post = ctx.postMessage.bind(ctx);
+
+for (const name of ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts", "indexedDB", "caches"]) {
+  Object.defineProperty(globalThis, name, { value: undefined, configurable: false, writable: false });
+}
+
+ctx.onmessage = (e) => {
+  const { code, begin, end, words, token } = e.data;
+  const reply = (message: UserCodeReply) => post({ ...message, token });
+  // The reference runs first, before the user's code has a chance to touch any globals
+  const { frames, allPaths, pathCount } = solveWordLadder({ begin, end, words });
+  let js: string;
+  try {
+    js = transform(code, { transforms: ["typescript", "imports"] }).code;
+  } catch (err) {
+    reply({ type: "error", message: `could not compile: ${(err as Error).message}` });
+    return;
+  }
+  reply({ type: "done", output: runUserCode(js, begin, end, words), reference: { frames, allPaths, pathCount } });
+};